@@ -0,0 +1,437 @@
+/**
+ * Command-Line Interface
+ *
+ * Administrative subcommands of the mcp-proxy binary. Without a subcommand
+ * the binary starts the MCP server on stdio; these run instead and exit.
+ * They use the config manager and tool functions directly, with the person
+ * at the terminal acting as the approver.
+ */
+
+import { execFile } from "node:child_process";
+import * as fs from "node:fs/promises";
+import * as net from "node:net";
+import * as path from "node:path";
+import { parseArgs } from "node:util";
+import type { ApprovalDuration, PolicyDecision } from "./config/index.js";
+import {
+  addCommandToAllowlist,
+  addCommandToDenylist,
+  addDomainToAllowlist,
+  addDomainToDenylist,
+  explainCommand,
+  explainDomain,
+  getConfigDiagnostics,
+  getConfigPath,
+  getExecConfig,
+  getFileServerConfig,
+  removeCommandFromAllowlist,
+  removeCommandFromDenylist,
+  removeDomainFromAllowlist,
+  removeDomainFromDenylist,
+  resetConfig,
+} from "./config/manager.js";
+import { formatConfigIssue } from "./config/schema.js";
+import { APPROVAL_DURATION_LABELS } from "./server/approval-queue.js";
+import { configShow } from "./tools/config-tools.js";
+import { fileServe, shutdownFileServer } from "./tools/file-server.js";
+import { resolveCommand } from "./utils/binary.js";
+
+const USAGE = `Usage: mcp-proxy [command]
+
+Without a command, starts the MCP server on stdio.
+
+Commands:
+  config show                                  Print the effective policy as JSON
+  config path                                  Print the config file location
+  config allow domain|command <target> [--for 1h|1d|7d]
+                                               Add a domain pattern or command to the allowlist
+  config deny domain|command <target> [--reason <text>]
+                                               Add a domain or command to the denylist
+  config remove allow|deny domain|command <target>
+                                               Remove an entry from the allowlist or denylist
+  config reset --yes                           Reset the configuration to defaults
+  check-url <url> [--method <method>]          Show how a URL would be treated, and why
+  check-command <command> [--cwd <dir>]        Show how a command would be treated, and why
+  doctor                                       Check the environment the proxy needs
+  serve-file <path> [--filename <name>] [--expiry <minutes>]
+                                               Serve a file over the tunnel until it expires
+
+Options:
+  --verbose                                    Show the proxy's own log output
+  -h, --help                                   Show this help
+
+check-url and check-command exit with 0 when the request would be allowed,
+and 1 otherwise.`;
+
+// Oldest Node.js major version the proxy runs on (see "engines" in package.json)
+const MIN_NODE_MAJOR = 18;
+// Time allowed for `cloudflared --version`
+const VERSION_CHECK_TIMEOUT_MS = 5000;
+
+/**
+ * A command-line mistake: reported with the usage hint and exit code 2
+ */
+class UsageError extends Error {}
+
+type Flags = Record<string, string | boolean | undefined>;
+
+function print(text: string): void {
+  process.stdout.write(`${text}\n`);
+}
+
+function printError(text: string): void {
+  process.stderr.write(`mcp-proxy: ${text}\n`);
+}
+
+function takeKind(value: string | undefined, expected: string[], what: string): string {
+  if (!value || !expected.includes(value)) {
+    throw new UsageError(`${what} must be ${expected.join(" or ")}`);
+  }
+  return value;
+}
+
+function takeTarget(value: string | undefined, what: string): string {
+  if (!value) {
+    throw new UsageError(`Missing ${what}`);
+  }
+  return value;
+}
+
+function stringFlag(flags: Flags, name: string): string | undefined {
+  const value = flags[name];
+  return typeof value === "string" ? value : undefined;
+}
+
+/**
+ * Prints a policy decision and the rule behind it
+ */
+function printDecision(subject: string, decision: PolicyDecision): void {
+  print(`${subject}: ${decision.status}`);
+  const { rule } = decision;
+  if (!rule) {
+    print("  rule: none (a tool call would ask the user)");
+    return;
+  }
+  print(`  rule: ${rule.list} "${rule.pattern}"`);
+  const entry = rule.entry;
+  if (entry && "expiresAt" in entry && entry.expiresAt) {
+    print(`  expires: ${entry.expiresAt}`);
+  }
+  if (entry && "scope" in entry && entry.scope) {
+    print(`  scope: ${JSON.stringify(entry.scope)}`);
+  }
+  if (entry?.reason) {
+    print(`  reason: ${entry.reason}`);
+  }
+}
+
+// ============================================================================
+// config
+// ============================================================================
+
+async function runConfig(args: string[], flags: Flags): Promise<number> {
+  const [action, ...rest] = args;
+
+  switch (action) {
+    case "show": {
+      const result = await configShow();
+      if (result.status !== "success") {
+        printError(result.error ?? "Failed to read the configuration");
+        return 1;
+      }
+      const { status: _status, ...config } = result;
+      print(JSON.stringify(config, null, 2));
+      return 0;
+    }
+
+    case "path":
+      print(getConfigPath());
+      return 0;
+
+    case "allow": {
+      const kind = takeKind(rest[0], ["domain", "command"], "The entry kind");
+      const target = takeTarget(rest[1], `${kind} to allow`);
+      const duration = stringFlag(flags, "for");
+      if (duration !== undefined && !Object.hasOwn(APPROVAL_DURATION_LABELS, duration)) {
+        throw new UsageError(`--for must be one of ${Object.keys(APPROVAL_DURATION_LABELS).join(", ")}`);
+      }
+      const options = { duration: duration as ApprovalDuration | undefined, reason: "Added with mcp-proxy config allow" };
+
+      if (kind === "domain") {
+        await addDomainToAllowlist(target, options);
+      } else {
+        // Pin the binary now, as an approval from a tool call would
+        const execConfig = await getExecConfig();
+        const binary = await resolveCommand(target, { hash: execConfig.pinBinaryHashes });
+        await addCommandToAllowlist(target, binary ?? undefined, options);
+        if (!binary) {
+          print(`Note: "${target}" was not found in PATH; no binary was pinned.`);
+        }
+      }
+      print(`Allowed ${kind} "${target}"${duration && duration !== "forever" ? ` (${APPROVAL_DURATION_LABELS[duration as ApprovalDuration].toLowerCase()})` : ""}.`);
+      return 0;
+    }
+
+    case "deny": {
+      const kind = takeKind(rest[0], ["domain", "command"], "The entry kind");
+      const target = takeTarget(rest[1], `${kind} to deny`);
+      const options = { reason: stringFlag(flags, "reason") };
+      await (kind === "domain" ? addDomainToDenylist(target, options) : addCommandToDenylist(target, options));
+      print(`Denied ${kind} "${target}".`);
+      return 0;
+    }
+
+    case "remove": {
+      const list = takeKind(rest[0], ["allow", "deny"], "The list");
+      const kind = takeKind(rest[1], ["domain", "command"], "The entry kind");
+      const target = takeTarget(rest[2], `${kind} to remove`);
+      const removed =
+        list === "allow"
+          ? await (kind === "domain" ? removeDomainFromAllowlist(target) : removeCommandFromAllowlist(target))
+          : await (kind === "domain" ? removeDomainFromDenylist(target) : removeCommandFromDenylist(target));
+      if (!removed) {
+        printError(`${kind} "${target}" is not in the ${list}list`);
+        return 1;
+      }
+      print(`Removed ${kind} "${target}" from the ${list}list.`);
+      return 0;
+    }
+
+    case "reset":
+      if (flags.yes !== true) {
+        printError(`This clears every allowlist, denial, pin, recipe and setting in ${getConfigPath()}. Run "mcp-proxy config reset --yes" to confirm.`);
+        return 1;
+      }
+      await resetConfig();
+      print("Configuration reset to defaults.");
+      return 0;
+
+    default:
+      throw new UsageError(action ? `Unknown config command "${action}"` : "Missing config command");
+  }
+}
+
+// ============================================================================
+// check-url / check-command
+// ============================================================================
+
+async function runCheckUrl(args: string[], flags: Flags): Promise<number> {
+  const url = takeTarget(args[0], "URL");
+  const method = stringFlag(flags, "method")?.toUpperCase() ?? "GET";
+  const decision = await explainDomain(url, { method });
+  printDecision(`${method} ${url}`, decision);
+  return decision.status === "ALLOWED" ? 0 : 1;
+}
+
+async function runCheckCommand(args: string[], flags: Flags): Promise<number> {
+  // Only the command name matters to the policy ("yt-dlp -x" is checked as yt-dlp)
+  const [command] = takeTarget(args[0], "command").trim().split(/\s+/);
+  const cwd = path.resolve(stringFlag(flags, "cwd") ?? process.cwd());
+
+  const execConfig = await getExecConfig();
+  const binary = await resolveCommand(command, { cwd, hash: execConfig.pinBinaryHashes });
+  const decision = await explainCommand(command, binary ?? undefined, { cwd });
+
+  printDecision(command, decision);
+  print(`  binary: ${binary ? binary.path : "not found in PATH"}`);
+  if (decision.pin) {
+    print(`  pin: ${decision.pin.replace("_", " ")}`);
+  }
+  return decision.status === "ALLOWED" && binary ? 0 : 1;
+}
+
+// ============================================================================
+// doctor
+// ============================================================================
+
+interface DoctorCheck {
+  level: "ok" | "warn" | "fail";
+  label: string;
+  detail: string;
+}
+
+function checkNode(): DoctorCheck {
+  const major = Number(process.versions.node.split(".")[0]);
+  return major >= MIN_NODE_MAJOR
+    ? { level: "ok", label: "Node.js", detail: process.version }
+    : { level: "fail", label: "Node.js", detail: `${process.version} is too old; ${MIN_NODE_MAJOR} or newer is required` };
+}
+
+async function checkConfigFile(): Promise<DoctorCheck> {
+  const configPath = getConfigPath();
+  try {
+    await fs.access(configPath);
+  } catch {
+    return { level: "ok", label: "Config", detail: `${configPath} (not created yet; defaults in use)` };
+  }
+
+  const { issues } = await getConfigDiagnostics();
+  if (issues.length > 0) {
+    return {
+      level: "fail",
+      label: "Config",
+      detail: [
+        `${configPath} has problems; the affected fields use their defaults:`,
+        ...issues.map((issue) => `         ${formatConfigIssue(issue)}`),
+      ].join("\n"),
+    };
+  }
+
+  try {
+    await fs.access(configPath, fs.constants.W_OK);
+  } catch {
+    return { level: "fail", label: "Config", detail: `${configPath} is not writable; approvals cannot be saved` };
+  }
+  return { level: "ok", label: "Config", detail: configPath };
+}
+
+async function checkCloudflared(): Promise<DoctorCheck> {
+  const resolved = await resolveCommand("cloudflared");
+  if (!resolved) {
+    return {
+      level: "warn",
+      label: "cloudflared",
+      detail: "not installed; file_serve only gives local URLs. Install with: brew install cloudflared (macOS) or see https://developers.cloudflare.com/cloudflare-one/connections/connect-apps/install-and-setup/installation/",
+    };
+  }
+  const version = await new Promise<string>((resolve) => {
+    execFile(resolved.execPath, ["--version"], { timeout: VERSION_CHECK_TIMEOUT_MS }, (_error, stdout) => {
+      resolve((stdout ?? "").trim().split("\n")[0]);
+    });
+  });
+  return { level: "ok", label: "cloudflared", detail: `${resolved.path}${version ? ` (${version})` : ""}` };
+}
+
+async function checkPort(): Promise<DoctorCheck> {
+  const { port } = await getFileServerConfig();
+  const available = await new Promise<boolean>((resolve) => {
+    const probe = net.createServer();
+    probe.once("error", () => resolve(false));
+    probe.listen(port, () => probe.close(() => resolve(true)));
+  });
+  return available
+    ? { level: "ok", label: "File server port", detail: `${port} is free` }
+    : { level: "warn", label: "File server port", detail: `${port} is in use; the file server will take the next free port` };
+}
+
+async function runDoctor(): Promise<number> {
+  const checks = [checkNode(), await checkConfigFile(), await checkCloudflared(), await checkPort()];
+  for (const check of checks) {
+    print(`[${check.level}]${" ".repeat(5 - check.level.length)}${check.label}: ${check.detail}`);
+  }
+  return checks.some((check) => check.level === "fail") ? 1 : 0;
+}
+
+// ============================================================================
+// serve-file
+// ============================================================================
+
+async function runServeFile(args: string[], flags: Flags): Promise<number> {
+  const filePath = path.resolve(takeTarget(args[0], "file path"));
+  const expiry = stringFlag(flags, "expiry");
+  const expiryMinutes = expiry === undefined ? undefined : Number(expiry);
+  if (expiryMinutes !== undefined && !(Number.isFinite(expiryMinutes) && expiryMinutes > 0)) {
+    throw new UsageError("--expiry must be a positive number of minutes");
+  }
+
+  const result = await fileServe({
+    path: filePath,
+    filename: stringFlag(flags, "filename"),
+    expiry_minutes: expiryMinutes,
+  });
+  if (result.status !== "success") {
+    printError(result.error ?? "Failed to serve the file");
+    return 1;
+  }
+
+  if (result.url) {
+    print(`Public URL: ${result.url}`);
+  }
+  print(`Local URL:  ${result.local_url}`);
+  if (result.warning) {
+    print(`Warning: ${result.warning}`);
+  }
+  print(`Serving until ${result.expires_at}. Press Ctrl+C to stop.`);
+
+  await new Promise((resolve) =>
+    setTimeout(resolve, Math.max(0, new Date(result.expires_at!).getTime() - Date.now()))
+  );
+  shutdownFileServer();
+  return 0;
+}
+
+// ============================================================================
+// Entry point
+// ============================================================================
+
+/**
+ * Runs a subcommand
+ * Returns the exit code, or null when there is no subcommand and the MCP
+ * server should start.
+ */
+export async function runCli(argv: string[]): Promise<number | null> {
+  if (argv.length === 0) {
+    return null;
+  }
+
+  let positionals: string[];
+  let flags: Flags;
+  try {
+    ({ positionals, values: flags } = parseArgs({
+      args: argv,
+      allowPositionals: true,
+      options: {
+        for: { type: "string" },
+        reason: { type: "string" },
+        method: { type: "string" },
+        cwd: { type: "string" },
+        filename: { type: "string" },
+        expiry: { type: "string" },
+        yes: { type: "boolean" },
+        verbose: { type: "boolean" },
+        help: { type: "boolean", short: "h" },
+      },
+    }));
+  } catch (error) {
+    printError(error instanceof Error ? error.message : String(error));
+    print(USAGE);
+    return 2;
+  }
+
+  const [command, ...args] = positionals;
+  if (flags.help || command === "help" || !command) {
+    print(USAGE);
+    return 0;
+  }
+
+  // The config and tool modules log for the MCP server's stderr; keep that
+  // out of the command's output unless asked for
+  if (!flags.verbose) {
+    console.error = () => {};
+  }
+
+  try {
+    switch (command) {
+      case "config":
+        return await runConfig(args, flags);
+      case "check-url":
+        return await runCheckUrl(args, flags);
+      case "check-command":
+        return await runCheckCommand(args, flags);
+      case "doctor":
+        return await runDoctor();
+      case "serve-file":
+        return await runServeFile(args, flags);
+      default:
+        throw new UsageError(`Unknown command "${command}"`);
+    }
+  } catch (error) {
+    if (error instanceof UsageError) {
+      printError(error.message);
+      print(USAGE);
+      return 2;
+    }
+    printError(error instanceof Error ? error.message : String(error));
+    return 1;
+  }
+}
@@ -23,10 +23,223 @@ export interface FileServerConfig {
   allowedExtensions: string[];
 }
 
+/**
+ * Configuration for network_exec scratch workspaces
+ */
+export interface WorkspaceConfig {
+  /** Directory that workspaces are created in */
+  root: string;
+  /** Minutes a workspace is kept after its command finishes */
+  expiryMinutes: number;
+}
+
+/**
+ * Configuration for the human approval flow
+ */
+export interface ApprovalConfig {
+  /** Seconds a pending approval waits for a human decision before timing out */
+  timeoutSeconds: number;
+  /** Whether to open the local approval page in the default browser */
+  openBrowser: boolean;
+}
+
+/**
+ * Configuration for proxy_fetch requests
+ */
+export interface FetchConfig {
+  /** Maximum number of redirects followed per request */
+  maxRedirects: number;
+  /** Maximum size in bytes of a download saved with save_to */
+  maxDownloadSize: number;
+  /** Directory that save_to paths must be in (the workspace root is also allowed) */
+  downloadDirectory: string;
+}
+
+/**
+ * Resource limits for network_exec commands
+ * CPU, memory and file size are enforced with prlimit (Linux only).
+ */
+export interface ResourceLimits {
+  /** Largest timeout a call may request, in milliseconds */
+  maxTimeoutMs?: number;
+  /** Largest timeout a background job may request, in milliseconds */
+  maxBackgroundTimeoutMs?: number;
+  /** CPU time limit in seconds */
+  cpuSeconds?: number;
+  /** Address space (virtual memory) limit in bytes */
+  memoryBytes?: number;
+  /** Largest file the command may write, in bytes */
+  fileSizeBytes?: number;
+}
+
+/**
+ * Where a command's network traffic may go
+ * allowlist: through the local egress proxy, which only connects to allowed domains
+ * unrestricted: anywhere (the command's own network access)
+ */
+export type EgressPolicy = "allowlist" | "unrestricted";
+
+/**
+ * Configuration for network_exec
+ */
+export interface ExecConfig {
+  /** Record and verify the SHA-256 of approved binaries, not just their path */
+  pinBinaryHashes: boolean;
+  /** Commands that may run at once (foreground and background); others wait in a FIFO queue */
+  maxConcurrent: number;
+  /** How long a call waits in the queue for a slot before giving up */
+  queueTimeoutMs: number;
+  /** Limits for every command */
+  limits: ResourceLimits;
+  /** Per-command limits, keyed by command name (merged over limits) */
+  commandLimits: Record<string, ResourceLimits>;
+  /** Egress policy for commands without their own (commandPolicies[...].egress) */
+  egress: EgressPolicy;
+}
+
+/**
+ * Environment passed to network_exec commands
+ * Variable patterns support wildcards and are case-insensitive.
+ */
+export interface EnvPolicy {
+  /** Host variables every command inherits */
+  allowedVars: string[];
+  /** Host variables never inherited, even if allowed (secret-looking names) */
+  deniedVars: string[];
+  /** Extra host variables inherited by specific commands (overrides deniedVars) */
+  passthrough: Record<string, string[]>;
+  /** Variables the caller may not set through the env parameter */
+  blockedInputVars: string[];
+}
+
+/**
+ * The binary an allowlisted command was approved as
+ */
+export interface CommandPin {
+  /** Command name as allowlisted (e.g. "yt-dlp") */
+  command: string;
+  /** Absolute path of the binary, with symlinks resolved */
+  path: string;
+  /** SHA-256 of the binary when it was approved */
+  sha256?: string;
+}
+
+/**
+ * Argument rules for an allowlisted command
+ * Flag patterns support wildcards ("-o*" also matches "-o/tmp/file").
+ */
+export interface CommandPolicy {
+  /** If set, every flag must match one of these patterns */
+  allowedFlags?: string[];
+  /** Flags that are always rejected */
+  deniedFlags?: string[];
+  /** Flags that must be present on every call */
+  requiredFlags?: string[];
+  /** Flags whose value is a path (e.g. "-o", "--output") */
+  pathFlags?: string[];
+  /** Directories that pathFlags values must stay under ("~" is expanded) */
+  allowedPaths?: string[];
+  /** Require URL arguments to be http(s) URLs on an allowed domain */
+  checkUrls?: boolean;
+  /**
+   * With checkUrls, also check arguments that look like a host ("example.com/path")
+   * Defaults to true for commands that fetch bare hosts (BARE_HOST_COMMANDS).
+   */
+  checkHosts?: boolean;
+  /** Overrides exec.egress for this command */
+  egress?: EgressPolicy;
+}
+
+/**
+ * A typed placeholder in a recipe's argument template
+ */
+export interface RecipeParam {
+  /** url: http(s) URL; path: relative path without ".."; enum: one of values */
+  type: "string" | "url" | "number" | "path" | "enum";
+  description?: string;
+  /** Defaults to true unless a default is given */
+  required?: boolean;
+  default?: string | number;
+  /** Allowed values (enum) */
+  values?: string[];
+  /** Regular expression the whole value must match (string) */
+  pattern?: string;
+  /** Bounds (number) */
+  min?: number;
+  max?: number;
+}
+
+/**
+ * A named network_exec preset
+ * Arguments may contain {{name}} placeholders; an argument that refers to an
+ * optional parameter without a value is left out.
+ */
+export interface Recipe {
+  description?: string;
+  command: string;
+  args: string[];
+  params?: Record<string, RecipeParam>;
+  /** Default timeout in milliseconds */
+  timeout?: number;
+  workspace?: boolean;
+  background?: boolean;
+}
+
+/**
+ * What an approval covers beyond its domain or command
+ */
+export interface ApprovalScope {
+  /** URL path prefix (domains) */
+  pathPrefix?: string;
+  /** HTTP methods, upper case (domains) */
+  methods?: string[];
+  /** Directory the command must run in or under (commands) */
+  cwd?: string;
+}
+
+/**
+ * A structured allowlist entry: an approval with an expiry and/or a scope
+ * (unscoped permanent approvals stay in allowedDomains/allowedCommands)
+ */
+export interface AllowEntry {
+  kind: "domain" | "command";
+  /** Domain or command name (wildcards as in the allowlists) */
+  target: string;
+  /** ISO timestamps; no expiresAt means the entry never expires */
+  createdAt: string;
+  expiresAt?: string;
+  scope?: ApprovalScope;
+  /** Why it was allowed (e.g. the request that was approved) */
+  reason?: string;
+}
+
+/**
+ * A domain or command the user refused
+ * Kept apart from the security blocklists so it can be listed and removed.
+ */
+export interface DenyEntry {
+  kind: "domain" | "command";
+  /** Domain or command name (wildcards as in the allowlists) */
+  target: string;
+  /** ISO timestamp */
+  createdAt: string;
+  /** The user's note on why it was denied */
+  reason?: string;
+  /** The request that was refused (URL or command line) */
+  request?: string;
+}
+
+/**
+ * Version of the config file format (see schema.ts for migrations)
+ */
+export const CONFIG_VERSION = 3;
+
 /**
  * Configuration structure for the MCP proxy server
  */
 export interface ProxyConfig {
+  /** Config file format version; files without one are version 1 */
+  version?: number;
   /** Domains explicitly allowed (user-approved) */
   allowedDomains: string[];
   /** Domains that are always blocked (security) */
@@ -35,85 +248,107 @@ export interface ProxyConfig {
   allowedCommands: string[];
   /** Commands that are always blocked (security) */
   blockedCommands: string[];
+  /** Time-limited and scoped approvals */
+  allowEntries?: AllowEntry[];
+  /** Domains and commands the user denied */
+  denyEntries?: DenyEntry[];
+  /** Binaries that allowlisted commands were approved as */
+  pinnedCommands?: CommandPin[];
   /** File server configuration */
   fileServer?: FileServerConfig;
+  /** Human approval configuration */
+  approval?: ApprovalConfig;
+  /** proxy_fetch configuration */
+  fetch?: FetchConfig;
+  /** network_exec configuration */
+  exec?: ExecConfig;
+  /** Scratch workspace configuration */
+  workspace?: WorkspaceConfig;
+  /** Environment variables passed to network_exec commands */
+  envPolicy?: EnvPolicy;
+  /** Argument rules keyed by command name (e.g. "curl") */
+  commandPolicies?: Record<string, CommandPolicy>;
+  /** Named network_exec presets, each also listed as its own tool */
+  recipes?: Record<string, Recipe>;
 }
 
 /**
  * Approval status for a resource request
  */
-export type ApprovalStatus = "ALLOWED" | "BLOCKED" | "NEEDS_APPROVAL";
+export type ApprovalStatus = "ALLOWED" | "BLOCKED" | "DENIED" | "NEEDS_APPROVAL";
 
 /**
  * Approval action from user
+ * "deny_once" refuses just this request; "deny" also adds it to the denylist.
+ */
+export type ApprovalAction = "always" | "once" | "deny_once" | "deny";
+
+/**
+ * How long an "always" approval lasts
  */
-export type ApprovalAction = "always" | "once" | "deny";
+export type ApprovalDuration = "1h" | "1d" | "7d" | "forever";
 
 /**
  * Default blocked domains for security
- * Includes localhost, loopback, link-local, and private IP ranges
+ * Includes localhost, loopback, link-local, and private IP ranges (as CIDRs)
  * These prevent SSRF attacks against internal infrastructure
  */
 export const DEFAULT_BLOCKED_DOMAINS: string[] = [
   // Localhost variants
   "localhost",
   "127.0.0.1",
+  "127.0.0.0/8",
   "::1",
-  "[::1]",
+
+  // "This" network (0.0.0.0 reaches localhost on many systems)
+  "0.0.0.0/8",
 
   // AWS metadata endpoint (critical SSRF target)
   "169.254.169.254",
 
   // Link-local addresses
-  "169.254.*",
-
-  // Private IP ranges (Class A)
-  "10.*",
-
-  // Private IP ranges (Class B) - 172.16.0.0 to 172.31.255.255
-  "172.16.*",
-  "172.17.*",
-  "172.18.*",
-  "172.19.*",
-  "172.20.*",
-  "172.21.*",
-  "172.22.*",
-  "172.23.*",
-  "172.24.*",
-  "172.25.*",
-  "172.26.*",
-  "172.27.*",
-  "172.28.*",
-  "172.29.*",
-  "172.30.*",
-  "172.31.*",
+  "169.254.0.0/16",
 
-  // Private IP ranges (Class C)
-  "192.168.*",
+  // Private IP ranges (Class A, incl. Kubernetes service networks)
+  "10.0.0.0/8",
 
-  // Docker bridge network
-  "172.17.0.*",
+  // Private IP ranges (Class B, incl. Docker bridge networks)
+  "172.16.0.0/12",
 
-  // Kubernetes internal
-  "10.0.0.*",
-  "10.96.*",
+  // Private IP ranges (Class C)
+  "192.168.0.0/16",
+
+  // Carrier-grade NAT
+  "100.64.0.0/10",
 
-  // IPv6 loopback (already have ::1 and [::1] above)
   // IPv6 link-local addresses
-  "fe80:*",
-  "[fe80:*",
+  "fe80::/10",
 
   // IPv6 unique local addresses (private IPv6)
-  "fc00:*",
-  "[fc00:*",
-  "fd00:*",
-  "[fd00:*",
+  "fc00::/7",
 
   // IPv6-mapped IPv4 addresses (can be used to bypass IPv4 blocks)
-  "::ffff:*",
-  "[::ffff:*",
+  "::ffff:0:0/96",
 ];
 
+/**
+ * Flags that point a command at another proxy, switch the proxy off or load
+ * a config file that could do either, keyed by command ("*" applies to all)
+ * Denied for commands with the allowlist egress policy.
+ */
+export const EGRESS_OVERRIDE_FLAGS: Record<string, string[]> = {
+  "*": ["--proxy*", "--noproxy", "--no-proxy"],
+  curl: ["-x", "--preproxy", "--socks*", "-K", "--config"],
+  wget: ["-Y", "-e", "--execute", "--config"],
+  "yt-dlp": ["--config-location*"],
+  git: ["-c", "--config-env"],
+};
+
+/**
+ * Commands that fetch a scheme-less host argument ("example.com") over http
+ */
+export const BARE_HOST_COMMANDS: string[] = ["curl", "wget"];
+
 /**
  * Default blocked commands for security
  * These commands could cause data loss or privilege escalation
@@ -201,6 +436,138 @@ export const DEFAULT_FILE_SERVER_CONFIG: FileServerConfig = {
   ],
 };
 
+/**
+ * Default workspace configuration
+ */
+export const DEFAULT_WORKSPACE_CONFIG: WorkspaceConfig = {
+  root: "/tmp/mcp-proxy-workspaces",
+  expiryMinutes: 60,
+};
+
+/**
+ * Default approval configuration
+ */
+export const DEFAULT_APPROVAL_CONFIG: ApprovalConfig = {
+  timeoutSeconds: 120,
+  openBrowser: true,
+};
+
+/**
+ * Default proxy_fetch configuration
+ */
+export const DEFAULT_FETCH_CONFIG: FetchConfig = {
+  maxRedirects: 5,
+  maxDownloadSize: 2147483648, // 2GB
+  downloadDirectory: "/tmp/mcp-proxy-downloads",
+};
+
+/**
+ * Default network_exec configuration
+ */
+export const DEFAULT_EXEC_CONFIG: ExecConfig = {
+  pinBinaryHashes: true,
+  maxConcurrent: 4,
+  queueTimeoutMs: 60000,
+  limits: {
+    maxTimeoutMs: 600000, // 10 minutes
+    maxBackgroundTimeoutMs: 21600000, // 6 hours
+  },
+  commandLimits: {},
+  egress: "unrestricted",
+};
+
+/**
+ * Input variables that redirect where tools read config, credentials,
+ * CA certificates and proxies from (added in config version 3)
+ */
+export const BLOCKED_CONFIG_VARS: string[] = [
+  "HOME",
+  "XDG_CONFIG_HOME",
+  "CURL_HOME",
+  "WGETRC",
+  "GIT_CONFIG*",
+  "SSL_CERT_FILE",
+  "SSL_CERT_DIR",
+  "CURL_CA_BUNDLE",
+  "REQUESTS_CA_BUNDLE",
+  // HTTP_PROXY, ALL_PROXY, NO_PROXY, ... (names are case-insensitive)
+  "*_PROXY",
+];
+
+/**
+ * Default environment policy
+ * Commands get a minimal environment; secrets in the host environment stay there.
+ */
+export const DEFAULT_ENV_POLICY: EnvPolicy = {
+  allowedVars: [
+    "PATH",
+    "HOME",
+    "USER",
+    "LOGNAME",
+    "LANG",
+    "LANGUAGE",
+    "LC_*",
+    "TZ",
+    "TERM",
+    "TMPDIR",
+    "TEMP",
+    "TMP",
+    "XDG_CACHE_HOME",
+    "XDG_CONFIG_HOME",
+    "XDG_DATA_HOME",
+    "XDG_RUNTIME_DIR",
+    // Windows essentials
+    "SYSTEMROOT",
+    "WINDIR",
+    "COMSPEC",
+    "PATHEXT",
+    "USERPROFILE",
+    "APPDATA",
+    "LOCALAPPDATA",
+  ],
+  deniedVars: [
+    "*TOKEN*",
+    "*SECRET*",
+    "*PASSWORD*",
+    "*PASSWD*",
+    "*CREDENTIAL*",
+    "*APIKEY*",
+    "*API_KEY*",
+    "*_KEY",
+    "*PRIVATE*",
+    "*SESSION*",
+    "*COOKIE*",
+    "AWS_*",
+    "AZURE_*",
+    "SSH_AUTH_SOCK",
+  ],
+  passthrough: {},
+  blockedInputVars: [
+    // Dynamic linker injection
+    "LD_*",
+    "DYLD_*",
+    // Interpreter startup hooks
+    "NODE_OPTIONS",
+    "NODE_PATH",
+    "PYTHONPATH",
+    "PYTHONSTARTUP",
+    "PYTHONHOME",
+    "PERL5OPT",
+    "PERL5LIB",
+    "RUBYOPT",
+    "RUBYLIB",
+    "JAVA_TOOL_OPTIONS",
+    "_JAVA_OPTIONS",
+    "BASH_ENV",
+    "ENV",
+    // Changes which binaries child processes run
+    "PATH",
+    "GIT_SSH_COMMAND",
+    "GIT_EXEC_PATH",
+    ...BLOCKED_CONFIG_VARS,
+  ],
+};
+
 /**
  * Default configuration with empty allowlists and security blocklists
  */
@@ -216,10 +583,21 @@ export const defaultConfig: ProxyConfig = {
  */
 export function createDefaultConfig(): ProxyConfig {
   return {
+    version: CONFIG_VERSION,
     allowedDomains: [],
     blockedDomains: [...DEFAULT_BLOCKED_DOMAINS],
     allowedCommands: [],
     blockedCommands: [...DEFAULT_BLOCKED_COMMANDS],
+    allowEntries: [],
+    denyEntries: [],
+    pinnedCommands: [],
     fileServer: { ...DEFAULT_FILE_SERVER_CONFIG },
+    approval: { ...DEFAULT_APPROVAL_CONFIG },
+    fetch: { ...DEFAULT_FETCH_CONFIG },
+    exec: { ...DEFAULT_EXEC_CONFIG, limits: { ...DEFAULT_EXEC_CONFIG.limits } },
+    workspace: { ...DEFAULT_WORKSPACE_CONFIG },
+    envPolicy: { ...DEFAULT_ENV_POLICY },
+    commandPolicies: {},
+    recipes: {},
   };
 }
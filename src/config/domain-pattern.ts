@@ -0,0 +1,351 @@
+/**
+ * Domain Patterns
+ *
+ * Grammar for entries in the domain allow and block lists:
+ *
+ *   [scheme://]host[:port]
+ *
+ * where host is one of
+ *   example.com        exactly this host
+ *   *.example.com      subdomains of example.com (not example.com itself)
+ *   **.example.com     example.com and its subdomains
+ *   10.0.0.0/8         a CIDR range (or a single IP literal)
+ *
+ * The scheme (http or https) and port only narrow an entry. Older entries
+ * with "*" elsewhere still work: "*" matches exactly one label, and a
+ * numeric prefix such as "10.*" or "fe80:*" matches addresses starting with it.
+ * In the blocklist those entries keep their original meaning instead ("*"
+ * matches any text, dots included), and an entry that does not parse is
+ * matched the same way, so a mistyped block entry still blocks.
+ */
+
+import * as net from "node:net";
+import {
+  canonicalizeHost,
+  isAddressPattern,
+  matchesAddressPattern,
+} from "../utils/host.js";
+
+export type DomainPatternKind = "exact" | "subdomains" | "apex_and_subdomains" | "address" | "wildcard";
+
+export interface DomainPattern {
+  kind: DomainPatternKind;
+  /** Canonical host, suffix (without "*." / "**."), address range or legacy wildcard */
+  host: string;
+  scheme?: "http" | "https";
+  port?: number;
+}
+
+/**
+ * What a domain list entry is matched against
+ */
+export interface DomainRequest {
+  /** Canonical host */
+  host: string;
+  /** Unknown for bare hosts; tunnels take it from the port (443 or 80) */
+  scheme?: string;
+  /** Explicit or default port, when known */
+  port?: number;
+}
+
+export type DomainPatternParse =
+  | { valid: true; pattern: DomainPattern }
+  | { valid: false; error: string };
+
+const DEFAULT_PORTS: Record<string, number> = { http: 80, https: 443 };
+const SCHEME_REGEX = /^([a-z][a-z0-9+.-]*):\/\//;
+const LABEL_REGEX = /^[a-z0-9_]([a-z0-9_-]*[a-z0-9_])?$/;
+const WILDCARD_LABEL_REGEX = /^[a-z0-9_*-]+$/;
+// Narrowest allowed CIDR prefixes for allowlist entries
+const MIN_ALLOWED_PREFIX = { ipv4: 8, ipv6: 16 };
+
+// Parsed entries, keyed by the entry text
+const parseCache = new Map<string, DomainPatternParse>();
+
+function isHostname(host: string): boolean {
+  return host.split(".").every((label) => LABEL_REGEX.test(label));
+}
+
+/**
+ * Splits "host:port" (or "[v6]:port"); IPv6 literals and CIDRs have no port
+ */
+function splitPort(value: string): { host: string; port?: string } {
+  const bracketed = value.match(/^\[([^\]]+)\](?::(\d*))?$/);
+  if (bracketed) {
+    return { host: bracketed[1], port: bracketed[2] };
+  }
+  const colons = value.split(":").length - 1;
+  if (colons === 1) {
+    const [host, port] = value.split(":");
+    return { host, port };
+  }
+  return { host: value };
+}
+
+/**
+ * Parses a domain list entry
+ * A URL path after the host is ignored (use an approval scope for paths).
+ */
+export function parseDomainPattern(entry: string): DomainPatternParse {
+  const cached = parseCache.get(entry);
+  if (cached) {
+    return cached;
+  }
+  const result = parseUncached(entry);
+  parseCache.set(entry, result);
+  return result;
+}
+
+function parseUncached(entry: string): DomainPatternParse {
+  let rest = entry.trim().toLowerCase();
+  if (!rest) {
+    return { valid: false, error: "Pattern is empty" };
+  }
+
+  let scheme: DomainPattern["scheme"];
+  const schemeMatch = rest.match(SCHEME_REGEX);
+  if (schemeMatch) {
+    if (schemeMatch[1] !== "http" && schemeMatch[1] !== "https") {
+      return { valid: false, error: `Scheme "${schemeMatch[1]}" is not supported (only http and https)` };
+    }
+    scheme = schemeMatch[1];
+    rest = rest.slice(schemeMatch[0].length);
+  }
+
+  if (isAddressPattern(rest)) {
+    const host = rest.includes("/") ? rest.replace(/[[\]]/g, "") : canonicalizeHost(rest);
+    return { valid: true, pattern: { kind: "address", host, scheme } };
+  }
+
+  // Legacy IPv6 prefixes ("fe80:*", "[fe80:*") look like host:port
+  const ipv6Prefix = rest.match(/^\[?([0-9a-f:]*:\*)$/);
+  if (ipv6Prefix) {
+    return { valid: true, pattern: { kind: "wildcard", host: ipv6Prefix[1], scheme } };
+  }
+
+  // Drop a URL path; CIDRs were handled above
+  rest = rest.replace(/\/.*$/, "");
+
+  const { host: rawHost, port: rawPort } = splitPort(rest);
+  let port: number | undefined;
+  if (rawPort !== undefined) {
+    port = Number(rawPort);
+    if (!/^\d+$/.test(rawPort) || port < 1 || port > 65535) {
+      return { valid: false, error: `Port "${rawPort}" must be between 1 and 65535` };
+    }
+  }
+
+  const host = rawHost.replace(/^\[/, "").replace(/\.+$/, "");
+  if (!host) {
+    return { valid: false, error: "Pattern has no host" };
+  }
+
+  if (net.isIP(canonicalizeHost(host))) {
+    return { valid: true, pattern: { kind: "address", host: canonicalizeHost(host), scheme, port } };
+  }
+
+  for (const [prefix, kind] of [["**.", "apex_and_subdomains"], ["*.", "subdomains"]] as const) {
+    if (host.startsWith(prefix)) {
+      const suffix = canonicalizeHost(host.slice(prefix.length));
+      if (suffix.includes("*")) {
+        return { valid: false, error: `"${prefix}" must be followed by a domain without wildcards` };
+      }
+      if (!isHostname(suffix)) {
+        return { valid: false, error: `"${suffix}" is not a valid domain` };
+      }
+      return { valid: true, pattern: { kind, host: suffix, scheme, port } };
+    }
+  }
+
+  if (host.includes("*")) {
+    const labels = host.split(".");
+    if (host.includes("**") || !labels.every((label) => WILDCARD_LABEL_REGEX.test(label))) {
+      return { valid: false, error: `"${host}" is not a valid wildcard pattern` };
+    }
+    return { valid: true, pattern: { kind: "wildcard", host, scheme, port } };
+  }
+
+  const canonical = canonicalizeHost(host);
+  if (!isHostname(canonical)) {
+    return { valid: false, error: `"${host}" is not a valid domain` };
+  }
+  return { valid: true, pattern: { kind: "exact", host: canonical, scheme, port } };
+}
+
+/**
+ * Checks an entry before it is added to the allowlist
+ * On top of the grammar this refuses entries that would allow too much:
+ * wildcards over a bare TLD (*.com), over every label ("*", "*.*") or in the
+ * top-level label ("example.*"), and CIDR ranges wider than /8 (IPv4) or /16 (IPv6).
+ */
+export function validateAllowPattern(entry: string): DomainPatternParse {
+  const result = parseDomainPattern(entry);
+  if (!result.valid) {
+    return result;
+  }
+  const { pattern } = result;
+
+  if ((pattern.kind === "subdomains" || pattern.kind === "apex_and_subdomains") && !pattern.host.includes(".")) {
+    return { valid: false, error: `"${entry}" would match every domain under ".${pattern.host}"` };
+  }
+
+  // Numeric prefixes ("203.0.113.*", "2001:db8:*") only match addresses
+  if (pattern.kind === "wildcard" && !/^(?:(?:\d+\.)+|[0-9a-f]*:[0-9a-f:]*)\*$/.test(pattern.host)) {
+    const labels = pattern.host.split(".");
+    if (labels.every((label) => label.includes("*"))) {
+      return { valid: false, error: `"${entry}" would match any host` };
+    }
+    if (labels[labels.length - 1].includes("*")) {
+      return { valid: false, error: `"${entry}" would match the name under every top-level domain` };
+    }
+  }
+
+  if (pattern.kind === "address") {
+    const cidr = pattern.host.match(/^(.+)\/(\d+)$/);
+    if (cidr) {
+      const family = net.isIPv6(cidr[1]) ? "ipv6" : "ipv4";
+      if (Number(cidr[2]) < MIN_ALLOWED_PREFIX[family]) {
+        return {
+          valid: false,
+          error: `"${entry}" is too wide; allowlisted ${family === "ipv6" ? "IPv6" : "IPv4"} ranges must be /${MIN_ALLOWED_PREFIX[family]} or narrower`,
+        };
+      }
+    }
+  }
+
+  return result;
+}
+
+/**
+ * Formats a parsed entry back into its canonical text
+ */
+export function formatDomainPattern(pattern: DomainPattern): string {
+  const host =
+    pattern.kind === "subdomains"
+      ? `*.${pattern.host}`
+      : pattern.kind === "apex_and_subdomains"
+        ? `**.${pattern.host}`
+        : pattern.port !== undefined && net.isIPv6(pattern.host)
+          ? `[${pattern.host}]`
+          : pattern.host;
+  return `${pattern.scheme ? `${pattern.scheme}://` : ""}${host}${pattern.port !== undefined ? `:${pattern.port}` : ""}`;
+}
+
+/**
+ * Canonical text of a domain list entry (unparsable entries are only trimmed
+ * and lowercased, so they can still be found and removed)
+ */
+export function normalizeDomainEntry(entry: string): string {
+  const result = parseDomainPattern(entry);
+  return result.valid ? formatDomainPattern(result.pattern) : entry.trim().toLowerCase();
+}
+
+/**
+ * Legacy "*" patterns: one label per "*", or an address prefix ("10.*", "fe80:*")
+ */
+function matchesWildcard(host: string, wildcard: string): boolean {
+  const ipv4Prefix = wildcard.match(/^((?:\d+\.)+)\*$/);
+  if (ipv4Prefix) {
+    return net.isIPv4(host) && host.startsWith(ipv4Prefix[1]);
+  }
+  const ipv6Prefix = wildcard.match(/^([0-9a-f:]+)\*$/);
+  if (ipv6Prefix) {
+    return net.isIPv6(host) && host.startsWith(ipv6Prefix[1]);
+  }
+
+  const labels = wildcard.split(".");
+  const hostLabels = host.split(".");
+  if (labels.length !== hostLabels.length) {
+    return false;
+  }
+  return labels.every((label, i) => {
+    const regex = label === "*"
+      ? "[^.]+"
+      : label.replace(/[.+?^${}()|[\]\\-]/g, "\\$&").replace(/\*/g, "[^.]*");
+    return new RegExp(`^${regex}$`).test(hostLabels[i]);
+  });
+}
+
+/**
+ * Checks a request against a domain list entry (invalid entries never match)
+ */
+export function matchesDomainPattern(request: DomainRequest, entry: string): boolean {
+  const result = parseDomainPattern(entry);
+  if (!result.valid) {
+    return false;
+  }
+  const { pattern } = result;
+
+  if (pattern.scheme && request.scheme !== pattern.scheme) {
+    return false;
+  }
+  if (pattern.port !== undefined && request.port !== pattern.port) {
+    return false;
+  }
+
+  const host = request.host;
+  switch (pattern.kind) {
+    case "exact":
+      return host === pattern.host;
+    case "subdomains":
+      return host.endsWith(`.${pattern.host}`);
+    case "apex_and_subdomains":
+      return host === pattern.host || host.endsWith(`.${pattern.host}`);
+    case "address":
+      return matchesAddressPattern(host, pattern.host) === true;
+    case "wildcard":
+      return matchesWildcard(host, pattern.host);
+  }
+}
+
+/**
+ * Legacy glob: "*" matches any text, dots included
+ */
+function matchesGlob(host: string, glob: string): boolean {
+  const regex = glob
+    .toLowerCase()
+    .replace(/[.+?^${}()|[\]\\]/g, "\\$&")
+    .replace(/\*/g, ".*");
+  return new RegExp(`^${regex}$`).test(host);
+}
+
+/**
+ * Checks a request against a blocklist entry
+ * Legacy wildcards and unparsable entries use the glob semantics they had
+ * before the grammar existed, so they block at least as much as they used to.
+ */
+export function matchesBlockPattern(request: DomainRequest, entry: string): boolean {
+  const result = parseDomainPattern(entry);
+  if (!result.valid) {
+    return matchesGlob(request.host, entry.trim());
+  }
+  const { pattern } = result;
+  if (pattern.kind !== "wildcard") {
+    return matchesDomainPattern(request, entry);
+  }
+  if (pattern.scheme && request.scheme !== pattern.scheme) {
+    return false;
+  }
+  if (pattern.port !== undefined && request.port !== pattern.port) {
+    return false;
+  }
+  return matchesGlob(request.host, pattern.host);
+}
+
+/**
+ * Describes a URL or bare host for matching
+ * Bare hosts carry no scheme; the port and scheme can be given separately (e.g. for CONNECT).
+ */
+export function toDomainRequest(urlOrDomain: string, port?: number, scheme?: string): DomainRequest {
+  try {
+    const url = new URL(urlOrDomain);
+    const scheme = url.protocol.slice(0, -1);
+    return {
+      host: canonicalizeHost(url.hostname),
+      scheme,
+      port: url.port ? Number(url.port) : (DEFAULT_PORTS[scheme] ?? port),
+    };
+  } catch {
+    return { host: canonicalizeHost(urlOrDomain), scheme, port };
+  }
+}
@@ -8,10 +8,31 @@ export {
   type ProxyConfig,
   type ApprovalStatus,
   type ApprovalAction,
+  type ApprovalDuration,
+  type ApprovalScope,
+  type AllowEntry,
+  type DenyEntry,
   type FileServerConfig,
+  type ApprovalConfig,
+  type FetchConfig,
+  type CommandPolicy,
+  type CommandPin,
+  type ExecConfig,
+  type EgressPolicy,
+  type EnvPolicy,
+  type ResourceLimits,
+  type WorkspaceConfig,
+  type Recipe,
+  type RecipeParam,
+  CONFIG_VERSION,
   DEFAULT_BLOCKED_DOMAINS,
   DEFAULT_BLOCKED_COMMANDS,
   DEFAULT_FILE_SERVER_CONFIG,
+  DEFAULT_APPROVAL_CONFIG,
+  DEFAULT_FETCH_CONFIG,
+  DEFAULT_EXEC_CONFIG,
+  DEFAULT_ENV_POLICY,
+  DEFAULT_WORKSPACE_CONFIG,
   defaultConfig,
   createDefaultConfig,
 } from "./defaults.js";
@@ -23,13 +44,46 @@ export {
   resetConfig,
   isDomainAllowed,
   isCommandAllowed,
+  explainDomain,
+  explainCommand,
   addDomainToAllowlist,
   addCommandToAllowlist,
   removeDomainFromAllowlist,
   removeCommandFromAllowlist,
+  addDomainToDenylist,
+  addCommandToDenylist,
+  removeDomainFromDenylist,
+  removeCommandFromDenylist,
+  getDenyEntries,
+  findDenyEntry,
   extractDomain,
   extractCommand,
   getConfigPath,
+  getConfigDiagnostics,
   clearConfigCache,
   getFileServerConfig,
+  getApprovalConfig,
+  getFetchConfig,
+  getCommandPolicy,
+  getExecConfig,
+  getEnvPolicy,
+  getCommandLimits,
+  getEgressPolicy,
+  getWorkspaceConfig,
+  getRecipes,
+  checkCommandPin,
+  type ResolvedBinary,
+  type AllowOptions,
+  type DenyOptions,
+  type CommandPinState,
+  type PolicyRule,
+  type PolicyDecision,
+  type ConfigDiagnostics,
 } from "./manager.js";
+
+export {
+  validateConfig,
+  migrateConfig,
+  formatConfigIssue,
+  type ConfigIssue,
+} from "./schema.js";
@@ -9,14 +9,52 @@ import * as fs from "node:fs/promises";
 import * as path from "node:path";
 import * as os from "node:os";
 import {
+  BARE_HOST_COMMANDS,
+  CONFIG_VERSION,
   createDefaultConfig,
   DEFAULT_BLOCKED_COMMANDS,
   DEFAULT_BLOCKED_DOMAINS,
   DEFAULT_FILE_SERVER_CONFIG,
+  DEFAULT_APPROVAL_CONFIG,
+  DEFAULT_FETCH_CONFIG,
+  DEFAULT_EXEC_CONFIG,
+  DEFAULT_ENV_POLICY,
+  DEFAULT_WORKSPACE_CONFIG,
+  type AllowEntry,
+  type ApprovalConfig,
+  type ApprovalDuration,
+  type ApprovalScope,
   type ApprovalStatus,
+  type CommandPin,
+  type CommandPolicy,
+  type DenyEntry,
+  type EgressPolicy,
+  type EnvPolicy,
+  type ExecConfig,
+  type FetchConfig,
   type FileServerConfig,
   type ProxyConfig,
+  type Recipe,
+  type ResourceLimits,
+  type WorkspaceConfig,
 } from "./defaults.js";
+import {
+  formatDomainPattern,
+  matchesBlockPattern,
+  matchesDomainPattern,
+  normalizeDomainEntry,
+  toDomainRequest,
+  validateAllowPattern,
+  type DomainRequest,
+} from "./domain-pattern.js";
+import {
+  formatConfigIssue,
+  migrateConfig,
+  validateConfig,
+  type ConfigIssue,
+} from "./schema.js";
+import { canonicalizeHost } from "../utils/host.js";
+import { resolveCommand } from "../utils/binary.js";
 
 /**
  * Path to the configuration file
@@ -29,6 +67,46 @@ const CONFIG_FILE = path.join(CONFIG_DIR, "config.json");
  */
 let currentConfig: ProxyConfig | null = null;
 
+/**
+ * Problems found the last time the config file was loaded
+ */
+let configIssues: ConfigIssue[] = [];
+
+/**
+ * Set while the file on disk is broken or an older version: it is backed up
+ * before the next save overwrites it
+ */
+let backupPending = false;
+
+/**
+ * Where the config file was last backed up to
+ */
+let lastBackupPath: string | null = null;
+
+/**
+ * Lifetime of time-limited approvals
+ */
+const APPROVAL_DURATION_MS: Record<Exclude<ApprovalDuration, "forever">, number> = {
+  "1h": 60 * 60 * 1000,
+  "1d": 24 * 60 * 60 * 1000,
+  "7d": 7 * 24 * 60 * 60 * 1000,
+};
+
+/**
+ * How long and how narrowly a domain or command is allowed
+ * Without a duration or scope the approval goes in the plain allowlist.
+ */
+export interface AllowOptions {
+  duration?: ApprovalDuration;
+  scope?: ApprovalScope;
+  reason?: string;
+}
+
+/**
+ * What is recorded with a denial
+ */
+export type DenyOptions = Pick<DenyEntry, "reason" | "request">;
+
 /**
  * Ensures the config directory exists
  */
@@ -43,35 +121,33 @@ async function ensureConfigDir(): Promise<void> {
   }
 }
 
+/**
+ * Records a config file that can't be used at all and falls back to defaults
+ */
+function useDefaults(issue: ConfigIssue): ProxyConfig {
+  console.error(
+    `[config] ${formatConfigIssue(issue)} in ${CONFIG_FILE}; using defaults. The file is backed up before it is next saved.`
+  );
+  configIssues = [issue];
+  backupPending = true;
+  currentConfig = createDefaultConfig();
+  return { ...currentConfig };
+}
+
 /**
  * Loads configuration from disk
  * Creates default config if file doesn't exist
+ *
+ * Older file versions are migrated, and fields that fail validation fall
+ * back to their defaults; the problems are kept for getConfigDiagnostics.
  */
 export async function loadConfig(): Promise<ProxyConfig> {
+  configIssues = [];
+  backupPending = false;
+
+  let data: string;
   try {
-    const data = await fs.readFile(CONFIG_FILE, "utf-8");
-    const parsed = JSON.parse(data) as Partial<ProxyConfig>;
-
-    // Merge with defaults to ensure all fields exist
-    // User's allowed lists are preserved, blocked lists are merged with defaults
-    currentConfig = {
-      allowedDomains: parsed.allowedDomains ?? [],
-      blockedDomains: mergeUnique(
-        DEFAULT_BLOCKED_DOMAINS,
-        parsed.blockedDomains ?? []
-      ),
-      allowedCommands: parsed.allowedCommands ?? [],
-      blockedCommands: mergeUnique(
-        DEFAULT_BLOCKED_COMMANDS,
-        parsed.blockedCommands ?? []
-      ),
-      fileServer: parsed.fileServer
-        ? { ...DEFAULT_FILE_SERVER_CONFIG, ...parsed.fileServer }
-        : { ...DEFAULT_FILE_SERVER_CONFIG },
-    };
-
-    console.error(`[config] Loaded configuration from ${CONFIG_FILE}`);
-    return { ...currentConfig };
+    data = await fs.readFile(CONFIG_FILE, "utf-8");
   } catch (error) {
     if ((error as NodeJS.ErrnoException).code === "ENOENT") {
       // Config file doesn't exist, create with defaults
@@ -82,12 +158,114 @@ export async function loadConfig(): Promise<ProxyConfig> {
       await saveConfig(currentConfig);
       return { ...currentConfig };
     }
+    return useDefaults({ path: "", message: `Cannot read the file: ${(error as Error).message}` });
+  }
 
-    // Other error (permission denied, invalid JSON, etc.)
-    console.error("[config] Error loading config:", error);
-    currentConfig = createDefaultConfig();
-    return { ...currentConfig };
+  let raw: unknown;
+  try {
+    raw = JSON.parse(data);
+  } catch (error) {
+    return useDefaults({ path: "", message: `Invalid JSON: ${(error as Error).message}` });
   }
+
+  const { config: migrated, fromVersion } = migrateConfig(raw);
+  const { config: validated, issues } = validateConfig(migrated);
+  const parsed = validated as Partial<ProxyConfig>;
+
+  // Merge with defaults to ensure all fields exist
+  // User's allowed lists are preserved, blocked lists are merged with defaults
+  currentConfig = {
+    version: CONFIG_VERSION,
+    allowedDomains: parsed.allowedDomains ?? [],
+    blockedDomains: mergeUnique(
+      DEFAULT_BLOCKED_DOMAINS,
+      parsed.blockedDomains ?? []
+    ),
+    allowedCommands: parsed.allowedCommands ?? [],
+    blockedCommands: mergeUnique(
+      DEFAULT_BLOCKED_COMMANDS,
+      parsed.blockedCommands ?? []
+    ),
+    allowEntries: (parsed.allowEntries ?? []).filter((entry) => isEntryActive(entry)),
+    denyEntries: parsed.denyEntries ?? [],
+    pinnedCommands: parsed.pinnedCommands ?? [],
+    fileServer: parsed.fileServer
+      ? { ...DEFAULT_FILE_SERVER_CONFIG, ...parsed.fileServer }
+      : { ...DEFAULT_FILE_SERVER_CONFIG },
+    approval: parsed.approval
+      ? { ...DEFAULT_APPROVAL_CONFIG, ...parsed.approval }
+      : { ...DEFAULT_APPROVAL_CONFIG },
+    fetch: parsed.fetch
+      ? { ...DEFAULT_FETCH_CONFIG, ...parsed.fetch }
+      : { ...DEFAULT_FETCH_CONFIG },
+    exec: parsed.exec
+      ? {
+          ...DEFAULT_EXEC_CONFIG,
+          ...parsed.exec,
+          limits: { ...DEFAULT_EXEC_CONFIG.limits, ...parsed.exec.limits },
+        }
+      : { ...DEFAULT_EXEC_CONFIG, limits: { ...DEFAULT_EXEC_CONFIG.limits } },
+    workspace: parsed.workspace
+      ? { ...DEFAULT_WORKSPACE_CONFIG, ...parsed.workspace }
+      : { ...DEFAULT_WORKSPACE_CONFIG },
+    envPolicy: parsed.envPolicy
+      ? { ...DEFAULT_ENV_POLICY, ...parsed.envPolicy }
+      : { ...DEFAULT_ENV_POLICY },
+    commandPolicies: parsed.commandPolicies ?? {},
+    recipes: parsed.recipes ?? {},
+  };
+
+  console.error(`[config] Loaded configuration from ${CONFIG_FILE}`);
+
+  // The file is copied aside before it is overwritten with a cleaned or migrated version
+  configIssues = issues;
+  backupPending = issues.length > 0 || fromVersion !== null;
+  for (const issue of issues) {
+    console.error(`[config] Invalid config: ${formatConfigIssue(issue)}`);
+  }
+  if (issues.length > 0) {
+    console.error(
+      `[config] ${issues.length} problem(s) in ${CONFIG_FILE}; affected fields use their defaults until it is fixed`
+    );
+  }
+
+  // Expired approvals are pruned from the file on load, and older versions
+  // are rewritten, unless the file needs fixing by hand first
+  const pruned = (parsed.allowEntries ?? []).length - currentConfig.allowEntries!.length;
+  if (pruned > 0) {
+    console.error(`[config] Pruned ${pruned} expired allow entries`);
+  }
+  if (fromVersion !== null) {
+    console.error(`[config] Migrated configuration from version ${fromVersion} to ${CONFIG_VERSION}`);
+  }
+  if ((pruned > 0 || fromVersion !== null) && issues.length === 0) {
+    await saveConfig(currentConfig);
+  }
+  return { ...currentConfig };
+}
+
+/**
+ * Copies the config file aside before it is overwritten
+ * Saving is refused if the copy fails, so a broken file is never lost.
+ */
+async function backupConfigFile(): Promise<void> {
+  const stamp = new Date().toISOString().replace(/[:.]/g, "-");
+  const backupPath = `${CONFIG_FILE}.${stamp}.bak`;
+  try {
+    await fs.copyFile(CONFIG_FILE, backupPath, fs.constants.COPYFILE_EXCL);
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code !== "ENOENT") {
+      throw new Error(
+        `Not saving the configuration: could not back up ${CONFIG_FILE} (${(error as Error).message})`
+      );
+    }
+    // Nothing left to preserve
+    backupPending = false;
+    return;
+  }
+  backupPending = false;
+  lastBackupPath = backupPath;
+  console.error(`[config] Backed up ${CONFIG_FILE} to ${backupPath}`);
 }
 
 /**
@@ -95,6 +273,9 @@ export async function loadConfig(): Promise<ProxyConfig> {
  */
 export async function saveConfig(config: ProxyConfig): Promise<void> {
   await ensureConfigDir();
+  if (backupPending) {
+    await backupConfigFile();
+  }
 
   const data = JSON.stringify(config, null, 2);
   await fs.writeFile(CONFIG_FILE, data, "utf-8");
@@ -119,6 +300,7 @@ export async function getConfig(): Promise<ProxyConfig> {
 export async function resetConfig(): Promise<void> {
   currentConfig = createDefaultConfig();
   await saveConfig(currentConfig);
+  configIssues = [];
   console.error("[config] Configuration reset to defaults");
 }
 
@@ -143,17 +325,133 @@ function matchesAnyPattern(value: string, patterns: string[]): boolean {
   return patterns.some((pattern) => matchesPattern(value, pattern));
 }
 
+/**
+ * Checks if a request matches any blocklist entry (see domain-pattern.ts)
+ */
+function matchesAnyBlockPattern(request: DomainRequest, patterns: string[]): boolean {
+  return patterns.some((pattern) => matchesBlockPattern(request, pattern));
+}
+
+/**
+ * Matches a request against an allow or deny entry's target
+ * Domains use the domain pattern grammar, commands the wildcard syntax.
+ */
+function matchesTarget(
+  kind: AllowEntry["kind"],
+  request: { name: string; domain?: DomainRequest },
+  target: string
+): boolean {
+  return kind === "domain"
+    ? matchesDomainPattern(request.domain ?? { host: request.name }, target)
+    : matchesPattern(request.name, target);
+}
+
+function isEntryActive(entry: AllowEntry, now: number = Date.now()): boolean {
+  return !entry.expiresAt || new Date(entry.expiresAt).getTime() > now;
+}
+
+function isUnderDirectory(dir: string, parent: string): boolean {
+  const relative = path.relative(path.resolve(parent), path.resolve(dir));
+  return relative === "" || (!relative.startsWith("..") && !path.isAbsolute(relative));
+}
+
+/**
+ * Finds an active allow entry for a domain or command whose scope covers the request
+ * Scoped entries only match when the request carries what the scope checks.
+ */
+function findAllowEntry(
+  config: ProxyConfig,
+  kind: AllowEntry["kind"],
+  request: { name: string; domain?: DomainRequest; path?: string; method?: string; cwd?: string }
+): AllowEntry | undefined {
+  return (config.allowEntries ?? []).find((entry) => {
+    if (entry.kind !== kind || !isEntryActive(entry) || !matchesTarget(kind, request, entry.target)) {
+      return false;
+    }
+    const scope = entry.scope ?? {};
+    if (scope.pathPrefix && !request.path?.startsWith(scope.pathPrefix)) {
+      return false;
+    }
+    if (scope.methods && !(request.method && scope.methods.includes(request.method.toUpperCase()))) {
+      return false;
+    }
+    if (scope.cwd && !(request.cwd && isUnderDirectory(request.cwd, scope.cwd))) {
+      return false;
+    }
+    return true;
+  });
+}
+
+/**
+ * Records an approval with an expiry and/or scope
+ */
+async function addAllowEntry(
+  kind: AllowEntry["kind"],
+  target: string,
+  options: AllowOptions
+): Promise<void> {
+  const config = await getConfig();
+  const now = new Date();
+  const entry: AllowEntry = {
+    kind,
+    target,
+    createdAt: now.toISOString(),
+    expiresAt:
+      options.duration && options.duration !== "forever"
+        ? new Date(now.getTime() + APPROVAL_DURATION_MS[options.duration]).toISOString()
+        : undefined,
+    scope: options.scope,
+    reason: options.reason,
+  };
+  config.allowEntries = [...(config.allowEntries ?? []).filter((e) => isEntryActive(e)), entry];
+  // Approving overrides an earlier denial
+  config.denyEntries = withoutEntry(config.denyEntries, kind, target);
+  await saveConfig(config);
+  console.error(
+    `[config] Added ${kind} allow entry: ${target}${entry.expiresAt ? ` (expires ${entry.expiresAt})` : ""}${entry.scope ? ` ${JSON.stringify(entry.scope)}` : ""}`
+  );
+}
+
+/**
+ * Drops the entries recorded for one domain or command
+ */
+function withoutEntry<T extends AllowEntry | DenyEntry>(
+  entries: T[] | undefined,
+  kind: T["kind"],
+  target: string
+): T[] {
+  return (entries ?? []).filter((e) => !(e.kind === kind && e.target === target));
+}
+
+/**
+ * Finds the denial covering a domain or command, if the user refused it
+ */
+function findDenial(
+  config: ProxyConfig,
+  kind: DenyEntry["kind"],
+  request: { name: string; domain?: DomainRequest }
+): DenyEntry | undefined {
+  return (config.denyEntries ?? []).find(
+    (entry) => entry.kind === kind && matchesTarget(kind, request, entry.target)
+  );
+}
+
+function needsAllowEntry(options: AllowOptions): boolean {
+  return Boolean((options.duration && options.duration !== "forever") || options.scope);
+}
+
 /**
  * Extracts the hostname from a URL or returns the string if already a hostname
+ * The result is canonical (see canonicalizeHost), so "http://0x7f.1/" gives "127.0.0.1".
  */
 export function extractDomain(urlOrDomain: string): string {
   try {
     // Try to parse as URL
     const url = new URL(urlOrDomain);
-    return url.hostname;
+    return canonicalizeHost(url.hostname);
   } catch {
     // Not a URL, assume it's already a domain/hostname
-    return urlOrDomain.toLowerCase();
+    return canonicalizeHost(urlOrDomain);
   }
 }
 
@@ -173,70 +471,242 @@ export function extractCommand(commandString: string): string {
 }
 
 /**
- * Checks if a domain is allowed
- * Returns approval status based on allowlist/blocklist
+ * The list entry that decided a policy check
  */
-export async function isDomainAllowed(
-  urlOrDomain: string
-): Promise<ApprovalStatus> {
+export interface PolicyRule {
+  list: "blockedDomains" | "blockedCommands" | "denyEntries" | "allowedDomains" | "allowedCommands" | "allowEntries";
+  /** The matching pattern or entry target */
+  pattern: string;
+  /** The full entry, for denials and time-limited or scoped approvals */
+  entry?: AllowEntry | DenyEntry;
+}
+
+/**
+ * Outcome of a policy check and the rule behind it (none when it needs approval)
+ */
+export interface PolicyDecision {
+  status: ApprovalStatus;
+  rule?: PolicyRule;
+  /** For commands resolved to a binary: how it compares with its pin */
+  pin?: CommandPinState;
+}
+
+/**
+ * Explains how a domain would be treated, without logging or side effects
+ *
+ * Entries with a scheme or port only match URLs (or bare hosts given a
+ * scheme or port) that carry them.
+ */
+export async function explainDomain(
+  urlOrDomain: string,
+  options: { method?: string; port?: number; scheme?: string } = {}
+): Promise<PolicyDecision> {
   const config = await getConfig();
-  const domain = extractDomain(urlOrDomain);
+  const request = toDomainRequest(urlOrDomain, options.port, options.scheme);
+  const domain = request.host;
+  const firstMatch = (patterns: string[]) =>
+    patterns.find((pattern) => matchesDomainPattern(request, pattern));
 
   // Check blocklist first (security takes priority)
-  if (matchesAnyPattern(domain, config.blockedDomains)) {
-    console.error(`[config] Domain BLOCKED: ${domain}`);
-    return "BLOCKED";
+  const blocked = config.blockedDomains.find((pattern) => matchesBlockPattern(request, pattern));
+  if (blocked) {
+    return { status: "BLOCKED", rule: { list: "blockedDomains", pattern: blocked } };
+  }
+
+  // Then the user's own denials
+  const denial = findDenial(config, "domain", { name: domain, domain: request });
+  if (denial) {
+    return { status: "DENIED", rule: { list: "denyEntries", pattern: denial.target, entry: denial } };
   }
 
   // Check allowlist
-  if (matchesAnyPattern(domain, config.allowedDomains)) {
-    console.error(`[config] Domain ALLOWED: ${domain}`);
-    return "ALLOWED";
+  const allowed = firstMatch(config.allowedDomains);
+  if (allowed) {
+    return { status: "ALLOWED", rule: { list: "allowedDomains", pattern: allowed } };
+  }
+
+  // Check time-limited and scoped approvals
+  let urlPath: string | undefined;
+  try {
+    urlPath = new URL(urlOrDomain).pathname;
+  } catch {
+    // A bare domain only matches entries without a path scope
+  }
+  const entry = findAllowEntry(config, "domain", {
+    name: domain,
+    domain: request,
+    path: urlPath,
+    method: options.method,
+  });
+  if (entry) {
+    return { status: "ALLOWED", rule: { list: "allowEntries", pattern: entry.target, entry } };
   }
 
   // Not in either list, needs approval
-  console.error(`[config] Domain NEEDS_APPROVAL: ${domain}`);
-  return "NEEDS_APPROVAL";
+  return { status: "NEEDS_APPROVAL" };
 }
 
 /**
- * Checks if a command is allowed
- * Returns approval status based on allowlist/blocklist
+ * Checks if a domain is allowed
+ * Returns approval status based on allowlist/blocklist (see explainDomain)
  */
-export async function isCommandAllowed(
-  commandString: string
+export async function isDomainAllowed(
+  urlOrDomain: string,
+  options: { method?: string; port?: number } = {}
 ): Promise<ApprovalStatus> {
+  const { status, rule } = await explainDomain(urlOrDomain, options);
+  const domain = extractDomain(urlOrDomain);
+  console.error(
+    `[config] Domain ${status}: ${domain}${rule?.list === "allowEntries" ? ` (allow entry for ${rule.pattern})` : ""}`
+  );
+  return status;
+}
+
+/**
+ * The binary a command resolved to, as passed to the pin checks
+ */
+export type ResolvedBinary = Omit<CommandPin, "command">;
+
+/**
+ * How a resolved binary compares with the pin recorded for its command
+ */
+export type CommandPinState = "match" | "unpinned" | "path_changed" | "hash_changed";
+
+/**
+ * Compares a resolved binary against the pin recorded when the command was approved
+ */
+export async function checkCommandPin(
+  commandString: string,
+  binary: ResolvedBinary
+): Promise<CommandPinState> {
   const config = await getConfig();
   const command = extractCommand(commandString);
+  const pin = (config.pinnedCommands ?? []).find((p) => p.command === command);
+
+  if (!pin) {
+    return "unpinned";
+  }
+  if (pin.path !== binary.path) {
+    return "path_changed";
+  }
+  // Only compare hashes when both sides have one (hash pinning may be off)
+  if (pin.sha256 && binary.sha256 && pin.sha256 !== binary.sha256) {
+    return "hash_changed";
+  }
+  return "match";
+}
+
+/**
+ * Explains how a command would be treated, without logging or side effects
+ *
+ * When the resolved binary is given, an allowlisted command is only ALLOWED
+ * if it still matches its pinned path (and hash), or has no pin yet and is
+ * the binary found on the server's PATH.
+ */
+export async function explainCommand(
+  commandString: string,
+  binary?: ResolvedBinary,
+  options: { cwd?: string } = {}
+): Promise<PolicyDecision> {
+  const config = await getConfig();
+  const command = extractCommand(commandString);
+  const firstMatch = (value: string, patterns: string[]) =>
+    patterns.find((pattern) => matchesPattern(value, pattern));
 
   // Check blocklist first (security takes priority)
-  if (matchesAnyPattern(command, config.blockedCommands)) {
-    console.error(`[config] Command BLOCKED: ${command}`);
-    return "BLOCKED";
+  // A harmless name can be a symlink to a blocked binary
+  const blocked =
+    firstMatch(command, config.blockedCommands) ??
+    (binary ? firstMatch(path.basename(binary.path), config.blockedCommands) : undefined);
+  if (blocked) {
+    return { status: "BLOCKED", rule: { list: "blockedCommands", pattern: blocked } };
   }
 
-  // Check allowlist
-  if (matchesAnyPattern(command, config.allowedCommands)) {
-    console.error(`[config] Command ALLOWED: ${command}`);
-    return "ALLOWED";
+  // Then the user's own denials
+  const denial = findDenial(config, "command", { name: command });
+  if (denial) {
+    return { status: "DENIED", rule: { list: "denyEntries", pattern: denial.target, entry: denial } };
   }
 
-  // Not in either list, needs approval
-  console.error(`[config] Command NEEDS_APPROVAL: ${command}`);
-  return "NEEDS_APPROVAL";
+  // Check allowlist (and time-limited or scoped approvals)
+  const allowed = firstMatch(command, config.allowedCommands);
+  const entry = allowed ? undefined : findAllowEntry(config, "command", { name: command, cwd: options.cwd });
+  if (!allowed && !entry) {
+    // Not in either list, needs approval
+    return { status: "NEEDS_APPROVAL" };
+  }
+
+  const rule: PolicyRule = allowed
+    ? { list: "allowedCommands", pattern: allowed }
+    : { list: "allowEntries", pattern: entry!.target, entry };
+  if (!binary) {
+    return { status: "ALLOWED", rule };
+  }
+  const pin = await checkCommandPin(command, binary);
+  if (pin === "unpinned") {
+    // Only pin without asking when the binary is the one the bare name finds
+    // on the server's PATH, not e.g. /tmp/evil/yt-dlp
+    const standard = await resolveCommand(command);
+    return { status: standard?.path === binary.path ? "ALLOWED" : "NEEDS_APPROVAL", rule, pin };
+  }
+  return { status: pin === "match" ? "ALLOWED" : "NEEDS_APPROVAL", rule, pin };
+}
+
+/**
+ * Checks if a command is allowed
+ * Returns approval status based on allowlist/blocklist (see explainCommand)
+ *
+ * Allowlist entries without a pin are pinned on first use, when the command
+ * resolves to the binary found on the server's PATH.
+ */
+export async function isCommandAllowed(
+  commandString: string,
+  binary?: ResolvedBinary,
+  options: { cwd?: string } = {}
+): Promise<ApprovalStatus> {
+  const { status, rule, pin } = await explainCommand(commandString, binary, options);
+  const command = extractCommand(commandString);
+
+  if (binary && status === "ALLOWED" && pin === "unpinned") {
+    await pinCommand(command, binary);
+  }
+
+  if (binary && status === "NEEDS_APPROVAL" && pin) {
+    console.error(
+      `[config] Command NEEDS_APPROVAL: ${command} (${pin.replace("_", " ")}: ${binary.path})`
+    );
+  } else if (status === "BLOCKED") {
+    console.error(
+      `[config] Command BLOCKED: ${command} (matches ${rule!.pattern}${binary ? `, resolves to ${binary.path}` : ""})`
+    );
+  } else {
+    console.error(`[config] Command ${status}: ${command}`);
+  }
+  return status;
 }
 
 /**
- * Adds a domain to the allowlist and persists
+ * Adds a domain pattern to the allowlist and persists
+ * The pattern is validated (see domain-pattern.ts) and stored in canonical
+ * form; a URL is reduced to its scheme, host and port.
+ * With a duration or scope, a structured allow entry is recorded instead.
  */
 export async function addDomainToAllowlist(
-  urlOrDomain: string
+  pattern: string,
+  options: AllowOptions = {}
 ): Promise<void> {
   const config = await getConfig();
-  const domain = extractDomain(urlOrDomain);
+
+  const validation = validateAllowPattern(pattern);
+  if (!validation.valid) {
+    console.error(`[config] Invalid domain pattern: ${pattern} (${validation.error})`);
+    throw new Error(`Invalid domain pattern "${pattern}": ${validation.error}`);
+  }
+  const domain = formatDomainPattern(validation.pattern);
 
   // Check if already in blocklist (cannot override security blocks)
-  if (matchesAnyPattern(domain, config.blockedDomains)) {
+  const { host, scheme, port } = validation.pattern;
+  if (matchesAnyBlockPattern({ host: host.replace(/\/\d+$/, ""), scheme, port }, config.blockedDomains)) {
     console.error(
       `[config] Cannot add blocked domain to allowlist: ${domain}`
     );
@@ -245,9 +715,16 @@ export async function addDomainToAllowlist(
     );
   }
 
+  if (needsAllowEntry(options)) {
+    await addAllowEntry("domain", domain, options);
+    return;
+  }
+
   // Check if already in allowlist
   if (!config.allowedDomains.includes(domain)) {
     config.allowedDomains.push(domain);
+    // Approving overrides an earlier denial
+    config.denyEntries = withoutEntry(config.denyEntries, "domain", domain);
     await saveConfig(config);
     console.error(`[config] Added domain to allowlist: ${domain}`);
   } else {
@@ -255,11 +732,28 @@ export async function addDomainToAllowlist(
   }
 }
 
+/**
+ * Records the binary a command is approved as (one pin per command)
+ */
+async function pinCommand(command: string, binary: ResolvedBinary): Promise<void> {
+  const config = await getConfig();
+  config.pinnedCommands = [
+    ...(config.pinnedCommands ?? []).filter((p) => p.command !== command),
+    { command, path: binary.path, sha256: binary.sha256 },
+  ];
+  await saveConfig(config);
+  console.error(`[config] Pinned command: ${command} -> ${binary.path}`);
+}
+
 /**
  * Adds a command to the allowlist and persists
+ * With a resolved binary, the command is also pinned to that path and hash.
+ * With a duration or scope, a structured allow entry is recorded instead.
  */
 export async function addCommandToAllowlist(
-  commandString: string
+  commandString: string,
+  binary?: ResolvedBinary,
+  options: AllowOptions = {}
 ): Promise<void> {
   const config = await getConfig();
   const command = extractCommand(commandString);
@@ -274,48 +768,173 @@ export async function addCommandToAllowlist(
     );
   }
 
-  // Check if already in allowlist
-  if (!config.allowedCommands.includes(command)) {
+  if (needsAllowEntry(options)) {
+    await addAllowEntry("command", command, options);
+  } else if (!config.allowedCommands.includes(command)) {
     config.allowedCommands.push(command);
+    // Approving overrides an earlier denial
+    config.denyEntries = withoutEntry(config.denyEntries, "command", command);
     await saveConfig(config);
     console.error(`[config] Added command to allowlist: ${command}`);
   } else {
     console.error(`[config] Command already in allowlist: ${command}`);
   }
+
+  if (binary) {
+    await pinCommand(command, binary);
+  }
 }
 
 /**
- * Removes a domain from the allowlist
+ * Removes a domain from the allowlist (and its time-limited or scoped approvals)
+ * Returns false if it wasn't there.
  */
 export async function removeDomainFromAllowlist(
-  urlOrDomain: string
-): Promise<void> {
+  pattern: string
+): Promise<boolean> {
   const config = await getConfig();
-  const domain = extractDomain(urlOrDomain);
+  const domain = normalizeDomainEntry(pattern);
 
   const index = config.allowedDomains.indexOf(domain);
-  if (index !== -1) {
-    config.allowedDomains.splice(index, 1);
+  const entries = (config.allowEntries ?? []).filter(
+    (e) => !(e.kind === "domain" && e.target === domain)
+  );
+  if (index !== -1 || entries.length !== (config.allowEntries ?? []).length) {
+    if (index !== -1) {
+      config.allowedDomains.splice(index, 1);
+    }
+    config.allowEntries = entries;
     await saveConfig(config);
     console.error(`[config] Removed domain from allowlist: ${domain}`);
+    return true;
   }
+  return false;
 }
 
 /**
- * Removes a command from the allowlist
+ * Removes a command from the allowlist (and its approvals and pin)
+ * Returns false if it wasn't there.
  */
 export async function removeCommandFromAllowlist(
   commandString: string
-): Promise<void> {
+): Promise<boolean> {
   const config = await getConfig();
   const command = extractCommand(commandString);
 
   const index = config.allowedCommands.indexOf(command);
-  if (index !== -1) {
-    config.allowedCommands.splice(index, 1);
+  const entries = (config.allowEntries ?? []).filter(
+    (e) => !(e.kind === "command" && e.target === command)
+  );
+  if (index !== -1 || entries.length !== (config.allowEntries ?? []).length) {
+    if (index !== -1) {
+      config.allowedCommands.splice(index, 1);
+    }
+    config.allowEntries = entries;
+    config.pinnedCommands = (config.pinnedCommands ?? []).filter(
+      (p) => p.command !== command
+    );
     await saveConfig(config);
     console.error(`[config] Removed command from allowlist: ${command}`);
+    return true;
+  }
+  return false;
+}
+
+/**
+ * Records a denial, replacing any approval of the same target
+ */
+async function addDenyEntry(
+  kind: DenyEntry["kind"],
+  target: string,
+  options: DenyOptions
+): Promise<void> {
+  const config = await getConfig();
+  config.denyEntries = [
+    ...withoutEntry(config.denyEntries, kind, target),
+    { kind, target, createdAt: new Date().toISOString(), ...options },
+  ];
+  config.allowEntries = withoutEntry(config.allowEntries, kind, target);
+  if (kind === "domain") {
+    config.allowedDomains = config.allowedDomains.filter((d) => d !== target);
+  } else {
+    config.allowedCommands = config.allowedCommands.filter((c) => c !== target);
+    config.pinnedCommands = (config.pinnedCommands ?? []).filter((p) => p.command !== target);
   }
+  await saveConfig(config);
+  console.error(`[config] Added ${kind} to denylist: ${target}`);
+}
+
+/**
+ * Removes a denial; returns false if there was none
+ */
+async function removeDenyEntry(kind: DenyEntry["kind"], target: string): Promise<boolean> {
+  const config = await getConfig();
+  const entries = withoutEntry(config.denyEntries, kind, target);
+  if (entries.length === (config.denyEntries ?? []).length) {
+    return false;
+  }
+  config.denyEntries = entries;
+  await saveConfig(config);
+  console.error(`[config] Removed ${kind} from denylist: ${target}`);
+  return true;
+}
+
+/**
+ * Adds a domain to the user's denylist and persists
+ * Denied domains return "DENIED" until removed (the blocklist still comes first).
+ */
+export async function addDomainToDenylist(
+  urlOrDomain: string,
+  options: DenyOptions = {}
+): Promise<void> {
+  await addDenyEntry("domain", extractDomain(urlOrDomain), options);
+}
+
+/**
+ * Adds a command to the user's denylist and persists
+ */
+export async function addCommandToDenylist(
+  commandString: string,
+  options: DenyOptions = {}
+): Promise<void> {
+  await addDenyEntry("command", extractCommand(commandString), options);
+}
+
+/**
+ * Removes a domain from the user's denylist
+ */
+export async function removeDomainFromDenylist(urlOrDomain: string): Promise<boolean> {
+  return removeDenyEntry("domain", extractDomain(urlOrDomain));
+}
+
+/**
+ * Removes a command from the user's denylist
+ */
+export async function removeCommandFromDenylist(commandString: string): Promise<boolean> {
+  return removeDenyEntry("command", extractCommand(commandString));
+}
+
+/**
+ * Lists the user's denials
+ */
+export async function getDenyEntries(): Promise<DenyEntry[]> {
+  const config = await getConfig();
+  return [...(config.denyEntries ?? [])];
+}
+
+/**
+ * Returns the denial covering a domain (kind "domain") or command, for its reason
+ */
+export async function findDenyEntry(
+  kind: DenyEntry["kind"],
+  value: string
+): Promise<DenyEntry | undefined> {
+  const config = await getConfig();
+  if (kind === "domain") {
+    const request = toDomainRequest(value);
+    return findDenial(config, kind, { name: request.host, domain: request });
+  }
+  return findDenial(config, kind, { name: extractCommand(value) });
 }
 
 /**
@@ -337,6 +956,31 @@ function mergeUnique<T>(arr1: T[], arr2: T[]): T[] {
  */
 export function clearConfigCache(): void {
   currentConfig = null;
+  configIssues = [];
+  backupPending = false;
+}
+
+/**
+ * What is wrong with the config file, if anything
+ */
+export interface ConfigDiagnostics {
+  path: string;
+  /** Problems found when the file was loaded (empty if it is valid) */
+  issues: ConfigIssue[];
+  /** Where the file was copied before it was last overwritten */
+  backupPath?: string;
+}
+
+/**
+ * Reports the problems found in the config file (loads it if needed)
+ */
+export async function getConfigDiagnostics(): Promise<ConfigDiagnostics> {
+  await getConfig();
+  return {
+    path: CONFIG_FILE,
+    issues: [...configIssues],
+    backupPath: lastBackupPath ?? undefined,
+  };
 }
 
 /**
@@ -347,3 +991,99 @@ export async function getFileServerConfig(): Promise<FileServerConfig> {
   const config = await getConfig();
   return config.fileServer ?? DEFAULT_FILE_SERVER_CONFIG;
 }
+
+/**
+ * Gets the human approval configuration
+ * Returns defaults if not configured
+ */
+export async function getApprovalConfig(): Promise<ApprovalConfig> {
+  const config = await getConfig();
+  return config.approval ?? DEFAULT_APPROVAL_CONFIG;
+}
+
+/**
+ * Gets the proxy_fetch configuration
+ * Returns defaults if not configured
+ */
+export async function getFetchConfig(): Promise<FetchConfig> {
+  const config = await getConfig();
+  return config.fetch ?? DEFAULT_FETCH_CONFIG;
+}
+
+/**
+ * Gets the argument policy for a command, if one is configured
+ * Command names are matched case-insensitively; checkHosts defaults to on for
+ * BARE_HOST_COMMANDS.
+ */
+export async function getCommandPolicy(
+  command: string
+): Promise<CommandPolicy | undefined> {
+  const config = await getConfig();
+  const name = extractCommand(command);
+  const policies = config.commandPolicies ?? {};
+  const key = Object.keys(policies).find((k) => k.toLowerCase() === name);
+  if (!key) {
+    return undefined;
+  }
+  const policy = policies[key];
+  return { ...policy, checkHosts: policy.checkHosts ?? BARE_HOST_COMMANDS.includes(name) };
+}
+
+/**
+ * Gets the network_exec configuration
+ * Returns defaults if not configured
+ */
+export async function getExecConfig(): Promise<ExecConfig> {
+  const config = await getConfig();
+  return config.exec ?? DEFAULT_EXEC_CONFIG;
+}
+
+/**
+ * Gets the environment policy for network_exec
+ * Returns defaults if not configured
+ */
+export async function getEnvPolicy(): Promise<EnvPolicy> {
+  const config = await getConfig();
+  return config.envPolicy ?? DEFAULT_ENV_POLICY;
+}
+
+/**
+ * Gets the resource limits for a command (per-command limits over the defaults)
+ */
+export async function getCommandLimits(command: string): Promise<ResourceLimits> {
+  const execConfig = await getExecConfig();
+  const name = extractCommand(command);
+  const key = Object.keys(execConfig.commandLimits ?? {}).find(
+    (k) => k.toLowerCase() === name
+  );
+  return {
+    ...execConfig.limits,
+    ...(key ? execConfig.commandLimits[key] : {}),
+  };
+}
+
+/**
+ * Gets the egress policy for a command (its command policy over exec.egress)
+ */
+export async function getEgressPolicy(command: string): Promise<EgressPolicy> {
+  const policy = await getCommandPolicy(command);
+  const execConfig = await getExecConfig();
+  return policy?.egress ?? execConfig.egress ?? "unrestricted";
+}
+
+/**
+ * Gets the scratch workspace configuration
+ * Returns defaults if not configured
+ */
+export async function getWorkspaceConfig(): Promise<WorkspaceConfig> {
+  const config = await getConfig();
+  return config.workspace ?? DEFAULT_WORKSPACE_CONFIG;
+}
+
+/**
+ * Gets the configured network_exec recipes, keyed by name
+ */
+export async function getRecipes(): Promise<Record<string, Recipe>> {
+  const config = await getConfig();
+  return config.recipes ?? {};
+}
@@ -0,0 +1,519 @@
+/**
+ * Config Schema
+ *
+ * Validates config.json field by field and migrates older file versions.
+ * Invalid values are dropped (their defaults apply) and reported as issues
+ * with the path of the offending field, instead of discarding the whole file.
+ */
+
+import { BLOCKED_CONFIG_VARS, CONFIG_VERSION } from "./defaults.js";
+import {
+  normalizeDomainEntry,
+  validateAllowPattern,
+} from "./domain-pattern.js";
+
+/**
+ * A problem found in the config file
+ */
+export interface ConfigIssue {
+  /** Path of the field ("exec.limits.cpuSeconds", "allowedDomains[2]"); empty for the whole file */
+  path: string;
+  message: string;
+}
+
+type FieldSchema =
+  | { type: "string"; check?: (value: string) => string | null }
+  | { type: "number"; integer?: boolean; min?: number; max?: number; check?: (value: number) => string | null }
+  | { type: "boolean" }
+  /** A string or a number (recipe parameter defaults) */
+  | { type: "scalar" }
+  /** fallback replaces an invalid value instead of dropping it */
+  | { type: "enum"; values: readonly string[]; fallback?: string }
+  | { type: "array"; items: FieldSchema }
+  | { type: "record"; values: FieldSchema }
+  | {
+      type: "object";
+      fields: Record<string, FieldSchema>;
+      required?: string[];
+      /** Any problem inside (an invalid or unknown field, a dropped item) invalidates the whole object */
+      strict?: boolean;
+      /** Used in place of an invalid strict object, instead of dropping it */
+      fallback?: { value: Record<string, unknown>; description: string };
+    };
+
+type RawConfig = Record<string, unknown>;
+
+// Returned for a value that failed validation
+const INVALID = Symbol("invalid");
+
+const str = (check?: (value: string) => string | null): FieldSchema => ({ type: "string", check });
+const bool: FieldSchema = { type: "boolean" };
+const positive: FieldSchema = { type: "number", min: 1 };
+const count: FieldSchema = { type: "number", integer: true, min: 0 };
+const strings: FieldSchema = { type: "array", items: str() };
+
+const nonEmpty = (value: string) => (value.trim() ? null : "Must not be empty");
+const isoDate = (value: string) => (Number.isNaN(Date.parse(value)) ? "Must be an ISO date" : null);
+// Allowlist entries are held to the rules for adding them (no "*.com")
+const allowPattern = (value: string) => {
+  const result = validateAllowPattern(value);
+  return result.valid ? null : result.error;
+};
+const regex = (value: string) => {
+  try {
+    new RegExp(value);
+    return null;
+  } catch {
+    return "Must be a valid regular expression";
+  }
+};
+
+const LIMITS: FieldSchema = {
+  type: "object",
+  fields: {
+    maxTimeoutMs: positive,
+    maxBackgroundTimeoutMs: positive,
+    cpuSeconds: positive,
+    memoryBytes: positive,
+    fileSizeBytes: positive,
+  },
+};
+
+// A mistyped egress policy falls back to the stricter one
+const EGRESS: FieldSchema = { type: "enum", values: ["allowlist", "unrestricted"], fallback: "allowlist" };
+
+const CONFIG_SCHEMA: FieldSchema = {
+  type: "object",
+  fields: {
+    version: { type: "number", integer: true, min: 1 },
+    allowedDomains: { type: "array", items: str(allowPattern) },
+    // Kept even when they do not parse: unparsable block entries still block
+    blockedDomains: { type: "array", items: str(nonEmpty) },
+    allowedCommands: { type: "array", items: str(nonEmpty) },
+    blockedCommands: { type: "array", items: str(nonEmpty) },
+    // An approval with an invalid expiry or scope must not become a permanent,
+    // unscoped one, so a bad field drops the whole entry
+    allowEntries: {
+      type: "array",
+      items: {
+        type: "object",
+        strict: true,
+        fields: {
+          kind: { type: "enum", values: ["domain", "command"] },
+          target: str(nonEmpty),
+          createdAt: str(isoDate),
+          expiresAt: str(isoDate),
+          scope: {
+            type: "object",
+            fields: { pathPrefix: str(), methods: strings, cwd: str() },
+          },
+          reason: str(),
+        },
+        required: ["kind", "target", "createdAt"],
+      },
+    },
+    // Only reason and request are optional here; dropping them keeps the denial
+    denyEntries: {
+      type: "array",
+      items: {
+        type: "object",
+        fields: {
+          kind: { type: "enum", values: ["domain", "command"] },
+          target: str(nonEmpty),
+          createdAt: str(isoDate),
+          reason: str(),
+          request: str(),
+        },
+        required: ["kind", "target", "createdAt"],
+      },
+    },
+    pinnedCommands: {
+      type: "array",
+      items: {
+        type: "object",
+        strict: true,
+        fields: {
+          command: str(nonEmpty),
+          path: str(nonEmpty),
+          sha256: str((value) => (/^[0-9a-f]{64}$/i.test(value) ? null : "Must be a SHA-256 hex digest")),
+        },
+        required: ["command", "path"],
+      },
+    },
+    fileServer: {
+      type: "object",
+      fields: {
+        enabled: bool,
+        port: { type: "number", integer: true, min: 1, max: 65535 },
+        serveDirectory: str(nonEmpty),
+        maxFileSize: positive,
+        defaultExpiryMinutes: positive,
+        allowedExtensions: strings,
+      },
+    },
+    approval: {
+      type: "object",
+      fields: { timeoutSeconds: positive, openBrowser: bool },
+    },
+    fetch: {
+      type: "object",
+      fields: { maxRedirects: count, maxDownloadSize: positive, downloadDirectory: str(nonEmpty) },
+    },
+    exec: {
+      type: "object",
+      fields: {
+        pinBinaryHashes: bool,
+        maxConcurrent: { type: "number", integer: true, min: 1 },
+        queueTimeoutMs: positive,
+        limits: LIMITS,
+        commandLimits: { type: "record", values: LIMITS },
+        egress: EGRESS,
+      },
+    },
+    workspace: {
+      type: "object",
+      fields: { root: str(nonEmpty), expiryMinutes: positive },
+    },
+    envPolicy: {
+      type: "object",
+      fields: {
+        allowedVars: strings,
+        deniedVars: strings,
+        passthrough: { type: "record", values: strings },
+        blockedInputVars: strings,
+      },
+    },
+    // Dropping a bad policy would lift its restrictions, so it is replaced by
+    // one that refuses every flag
+    commandPolicies: {
+      type: "record",
+      values: {
+        type: "object",
+        strict: true,
+        fallback: {
+          value: { allowedFlags: [], checkUrls: true, egress: "allowlist" },
+          description: "a policy that allows no flags",
+        },
+        fields: {
+          allowedFlags: strings,
+          deniedFlags: strings,
+          requiredFlags: strings,
+          pathFlags: strings,
+          allowedPaths: strings,
+          checkUrls: bool,
+          checkHosts: bool,
+          egress: EGRESS,
+        },
+      },
+    },
+    recipes: {
+      type: "record",
+      values: {
+        type: "object",
+        fields: {
+          description: str(),
+          command: str(nonEmpty),
+          args: strings,
+          params: {
+            type: "record",
+            values: {
+              type: "object",
+              fields: {
+                type: { type: "enum", values: ["string", "url", "number", "path", "enum"] },
+                description: str(),
+                required: bool,
+                default: { type: "scalar" },
+                values: strings,
+                pattern: str(regex),
+                min: { type: "number" },
+                max: { type: "number" },
+              },
+              required: ["type"],
+            },
+          },
+          timeout: positive,
+          workspace: bool,
+          background: bool,
+        },
+        required: ["command", "args"],
+      },
+    },
+  },
+};
+
+function isPlainObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === "object" && value !== null && !Array.isArray(value);
+}
+
+function describeType(value: unknown): string {
+  if (value === null || value === undefined) {
+    return String(value);
+  }
+  return Array.isArray(value) ? "an array" : typeof value === "object" ? "an object" : `a ${typeof value}`;
+}
+
+/**
+ * Edit distance, to suggest the intended name for a misspelled field
+ */
+function editDistance(a: string, b: string): number {
+  let previous = Array.from({ length: b.length + 1 }, (_, i) => i);
+  for (let i = 1; i <= a.length; i++) {
+    const current = [i];
+    for (let j = 1; j <= b.length; j++) {
+      current[j] = Math.min(
+        previous[j] + 1,
+        current[j - 1] + 1,
+        previous[j - 1] + (a[i - 1].toLowerCase() === b[j - 1].toLowerCase() ? 0 : 1)
+      );
+    }
+    previous = current;
+  }
+  return previous[b.length];
+}
+
+function unknownFieldMessage(key: string, known: string[]): string {
+  const suggestion = known.find((name) => editDistance(key, name) <= 2);
+  return `Unknown field (ignored)${suggestion ? `; did you mean "${suggestion}"?` : ""}`;
+}
+
+/**
+ * Checks a value against a schema
+ * Returns the value with invalid parts removed, or INVALID; every problem is
+ * added to issues.
+ */
+function clean(
+  value: unknown,
+  schema: FieldSchema,
+  path: string,
+  issues: ConfigIssue[]
+): unknown {
+  const fail = (message: string) => {
+    issues.push({ path, message });
+    return INVALID;
+  };
+
+  switch (schema.type) {
+    case "string": {
+      if (typeof value !== "string") {
+        return fail(`Expected a string, got ${describeType(value)}`);
+      }
+      const problem = schema.check?.(value);
+      return problem ? fail(problem) : value;
+    }
+
+    case "number": {
+      if (typeof value !== "number" || !Number.isFinite(value)) {
+        return fail(`Expected a number, got ${describeType(value)}`);
+      }
+      if (schema.integer && !Number.isInteger(value)) {
+        return fail("Must be a whole number");
+      }
+      if (schema.min !== undefined && value < schema.min) {
+        return fail(`Must be at least ${schema.min}`);
+      }
+      if (schema.max !== undefined && value > schema.max) {
+        return fail(`Must be at most ${schema.max}`);
+      }
+      const problem = schema.check?.(value);
+      return problem ? fail(problem) : value;
+    }
+
+    case "boolean":
+      return typeof value === "boolean" ? value : fail(`Expected true or false, got ${describeType(value)}`);
+
+    case "scalar":
+      return typeof value === "string" || typeof value === "number"
+        ? value
+        : fail(`Expected a string or number, got ${describeType(value)}`);
+
+    case "enum": {
+      if (typeof value === "string" && schema.values.includes(value)) {
+        return value;
+      }
+      const expected = `Must be one of ${schema.values.map((v) => `"${v}"`).join(", ")}`;
+      if (schema.fallback === undefined) {
+        return fail(expected);
+      }
+      issues.push({ path, message: `${expected}; using "${schema.fallback}"` });
+      return schema.fallback;
+    }
+
+    case "array": {
+      if (!Array.isArray(value)) {
+        return fail(`Expected an array, got ${describeType(value)}`);
+      }
+      return value
+        .map((item, i) => clean(item, schema.items, `${path}[${i}]`, issues))
+        .filter((item) => item !== INVALID);
+    }
+
+    case "record": {
+      if (!isPlainObject(value)) {
+        return fail(`Expected an object, got ${describeType(value)}`);
+      }
+      const result: Record<string, unknown> = {};
+      for (const [key, item] of Object.entries(value)) {
+        const cleaned = clean(item, schema.values, path ? `${path}.${key}` : key, issues);
+        if (cleaned !== INVALID) {
+          result[key] = cleaned;
+        }
+      }
+      return result;
+    }
+
+    case "object": {
+      const reject = (reason: string) => {
+        if (!schema.fallback) {
+          return fail(`Ignored because ${reason}`);
+        }
+        issues.push({ path, message: `Replaced by ${schema.fallback.description} because ${reason}` });
+        return structuredClone(schema.fallback.value);
+      };
+      if (!isPlainObject(value)) {
+        if (!schema.fallback) {
+          return fail(`Expected an object, got ${describeType(value)}`);
+        }
+        return reject(`it is ${describeType(value)}, not an object`);
+      }
+      const issueCount = issues.length;
+      const known = Object.keys(schema.fields);
+      const result: Record<string, unknown> = {};
+      let complete = true;
+      for (const [key, item] of Object.entries(value)) {
+        const fieldPath = path ? `${path}.${key}` : key;
+        const fieldSchema = Object.hasOwn(schema.fields, key) ? schema.fields[key] : undefined;
+        if (!fieldSchema) {
+          issues.push({ path: fieldPath, message: unknownFieldMessage(key, known) });
+          continue;
+        }
+        const cleaned = clean(item, fieldSchema, fieldPath, issues);
+        if (cleaned !== INVALID) {
+          result[key] = cleaned;
+        }
+      }
+      for (const key of schema.required ?? []) {
+        if (!(key in result)) {
+          complete = false;
+          if (!(key in value)) {
+            issues.push({ path: path ? `${path}.${key}` : key, message: "Missing required field" });
+          }
+        }
+      }
+      if (!complete) {
+        return reject("a required field is missing or invalid");
+      }
+      if (schema.strict && issues.length > issueCount) {
+        return reject("a field is invalid or unknown");
+      }
+      return result;
+    }
+  }
+}
+
+/**
+ * Validates a parsed config file
+ * Returns the config without its invalid fields, and what was wrong.
+ */
+export function validateConfig(raw: unknown): { config: RawConfig; issues: ConfigIssue[] } {
+  const issues: ConfigIssue[] = [];
+  const cleaned = clean(raw, CONFIG_SCHEMA, "", issues);
+  const config = cleaned === INVALID ? {} : (cleaned as RawConfig);
+
+  if (typeof config.version === "number" && config.version > CONFIG_VERSION) {
+    issues.push({
+      path: "version",
+      message: `Version ${config.version} is newer than this proxy supports (${CONFIG_VERSION}); fields it doesn't know are ignored`,
+    });
+  }
+  return { config, issues };
+}
+
+// Default blocklist entries written by version 1, now covered by CIDR defaults
+const LEGACY_BLOCKED_DOMAINS = [
+  "[::1]",
+  "169.254.*",
+  "10.*",
+  ...Array.from({ length: 16 }, (_, i) => `172.${16 + i}.*`),
+  "192.168.*",
+  "172.17.0.*",
+  "10.0.0.*",
+  "10.96.*",
+  "fe80:*",
+  "[fe80:*",
+  "fc00:*",
+  "[fc00:*",
+  "fd00:*",
+  "[fd00:*",
+  "::ffff:*",
+  "[::ffff:*",
+];
+
+/**
+ * Migrations between config versions; MIGRATIONS[n - 1] upgrades version n to n + 1
+ */
+const MIGRATIONS: Array<(config: RawConfig) => RawConfig> = [
+  // 1 → 2: drop the wildcard default blocklist entries older versions copied
+  // into the file, and store allowlisted domains in canonical pattern form
+  (config) => {
+    const migrated = { ...config };
+    if (Array.isArray(config.blockedDomains)) {
+      migrated.blockedDomains = config.blockedDomains.filter(
+        (entry) => !LEGACY_BLOCKED_DOMAINS.includes(entry)
+      );
+    }
+    if (Array.isArray(config.allowedDomains)) {
+      migrated.allowedDomains = [
+        ...new Set(
+          config.allowedDomains.map((entry) =>
+            typeof entry === "string" ? normalizeDomainEntry(entry) : entry
+          )
+        ),
+      ];
+    }
+    return migrated;
+  },
+  // 2 → 3: block the new config and proxy redirection variables in files
+  // that store their own envPolicy.blockedInputVars
+  (config) => {
+    const envPolicy = config.envPolicy;
+    if (!isPlainObject(envPolicy) || !Array.isArray(envPolicy.blockedInputVars)) {
+      return config;
+    }
+    const blocked = envPolicy.blockedInputVars;
+    return {
+      ...config,
+      envPolicy: {
+        ...envPolicy,
+        blockedInputVars: [...blocked, ...BLOCKED_CONFIG_VARS.filter((name) => !blocked.includes(name))],
+      },
+    };
+  },
+];
+
+/**
+ * Brings a parsed config file up to CONFIG_VERSION
+ * Files without a version are version 1. Versions that aren't a whole number,
+ * or are newer than this proxy, are left for validation to report.
+ */
+export function migrateConfig(raw: unknown): { config: unknown; fromVersion: number | null } {
+  if (!isPlainObject(raw)) {
+    return { config: raw, fromVersion: null };
+  }
+  const version = raw.version ?? 1;
+  if (typeof version !== "number" || !Number.isInteger(version) || version < 1 || version >= CONFIG_VERSION) {
+    return { config: raw, fromVersion: null };
+  }
+
+  let config: RawConfig = raw;
+  for (let v = version; v < CONFIG_VERSION; v++) {
+    config = { ...MIGRATIONS[v - 1](config), version: v + 1 };
+  }
+  return { config, fromVersion: version };
+}
+
+/**
+ * One line per issue, for logs and tool responses
+ */
+export function formatConfigIssue(issue: ConfigIssue): string {
+  return issue.path ? `${issue.path}: ${issue.message}` : issue.message;
+}
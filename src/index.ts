@@ -3,11 +3,14 @@ import { Server } from "@modelcontextprotocol/sdk/server/index.js";
 import { StdioServerTransport } from "@modelcontextprotocol/sdk/server/stdio.js";
 import {
   CallToolRequestSchema,
+  ErrorCode,
   ListToolsRequestSchema,
+  McpError,
 } from "@modelcontextprotocol/sdk/types.js";
 import {
   proxyFetch,
   proxyFetchToolDefinition,
+  toImageContent,
   type ProxyFetchInput,
 } from "./tools/proxy-fetch.js";
 import {
@@ -31,6 +34,50 @@ import {
   type FileServeCleanupInput,
   shutdownFileServer,
 } from "./tools/file-server.js";
+import {
+  execJobStatus,
+  execJobStatusToolDefinition,
+  type ExecJobStatusInput,
+  execJobOutput,
+  execJobOutputToolDefinition,
+  type ExecJobOutputInput,
+  execJobCancel,
+  execJobCancelToolDefinition,
+  type ExecJobCancelInput,
+  execOutput,
+  execOutputToolDefinition,
+  type ExecOutputInput,
+  shutdownExecJobs,
+} from "./tools/exec-jobs.js";
+import {
+  runRecipe,
+  runRecipeToolDefinition,
+  type RunRecipeInput,
+  getRecipeToolDefinitions,
+  recipeNameFromTool,
+} from "./tools/recipes.js";
+import {
+  configShow,
+  configShowToolDefinition,
+  configRemove,
+  configRemoveToolDefinition,
+  type ConfigRemoveInput,
+  configReset,
+  configResetToolDefinition,
+} from "./tools/config-tools.js";
+import { runCli } from "./cli.js";
+import { setApprovalElicitor } from "./utils/approval.js";
+import {
+  APPROVAL_DURATION_LABELS,
+  describeApprovalScope,
+  type ApprovalOutcome,
+  type ApprovalRequest,
+} from "./server/approval-queue.js";
+import type { ApprovalDuration } from "./config/index.js";
+import {
+  createProgressReporter,
+  type ProgressCallback,
+} from "./utils/progress.js";
 
 const server = new Server(
   {
@@ -44,28 +91,196 @@ const server = new Server(
   }
 );
 
+/**
+ * Asks the user to apply or reject a config change through the client
+ */
+async function elicitConfigApproval(
+  request: ApprovalRequest,
+  timeoutMs: number,
+  signal?: AbortSignal
+): Promise<ApprovalOutcome> {
+  try {
+    const result = await server.elicitInput(
+      {
+        message: `Apply this change to the proxy configuration?\n\n${request.target}\n\n${request.detail}`,
+        requestedSchema: {
+          type: "object",
+          properties: {
+            decision: {
+              type: "string",
+              title: "Decision",
+              oneOf: [
+                { const: "once", title: "Apply" },
+                { const: "deny", title: "Reject" },
+              ],
+            },
+          },
+          required: ["decision"],
+        },
+      },
+      { timeout: timeoutMs, signal }
+    );
+    return {
+      decision: result.action === "accept" && result.content?.decision === "once" ? "once" : "deny",
+    };
+  } catch (error) {
+    if (error instanceof McpError && error.code === ErrorCode.RequestTimeout) {
+      return { decision: "timeout" };
+    }
+    throw error;
+  }
+}
+
+// Ask the user for approvals through the client when it supports elicitation
+setApprovalElicitor(async (request, timeoutMs, signal) => {
+  if (!server.getClientCapabilities()?.elicitation?.form) {
+    return null;
+  }
+
+  if (request.kind === "config") {
+    return elicitConfigApproval(request, timeoutMs, signal);
+  }
+
+  const label = request.kind === "domain" ? "domain" : "command";
+  try {
+    const result = await server.elicitInput(
+      {
+        message: `Allow the ${label} "${request.target}"?\n\nRequest: ${request.detail}`,
+        requestedSchema: {
+          type: "object",
+          properties: {
+            decision: {
+              type: "string",
+              title: "Decision",
+              oneOf: [
+                { const: "once", title: "Allow once" },
+                { const: "always", title: "Allow always" },
+                { const: "deny_once", title: "Deny once" },
+                { const: "deny", title: "Deny (remembered until removed)" },
+              ],
+            },
+            duration: {
+              type: "string",
+              title: "\"Allow always\" lasts",
+              oneOf: Object.entries(APPROVAL_DURATION_LABELS).map(([value, title]) => ({
+                const: value,
+                title,
+              })),
+              default: "forever",
+            },
+            ...(request.scope
+              ? {
+                  scoped: {
+                    type: "boolean" as const,
+                    title: `Only ${describeApprovalScope(request.scope)}`,
+                    default: true,
+                  },
+                }
+              : {}),
+            reason: {
+              type: "string",
+              title: "Reason for denying (optional)",
+              maxLength: 200,
+            },
+          },
+          required: ["decision"],
+        },
+      },
+      { timeout: timeoutMs, signal }
+    );
+
+    // Declining or dismissing the prompt refuses this request only;
+    // only an explicit "Deny" is remembered
+    if (result.action !== "accept") {
+      return { decision: "deny_once" };
+    }
+
+    const decision = result.content?.decision;
+    if (decision !== "once" && decision !== "always") {
+      const reason = result.content?.reason;
+      return {
+        decision: decision === "deny" ? "deny" : "deny_once",
+        reason: typeof reason === "string" && reason.trim() ? reason.trim().slice(0, 200) : undefined,
+      };
+    }
+    const duration = result.content?.duration;
+    return {
+      decision,
+      duration:
+        typeof duration === "string" && Object.hasOwn(APPROVAL_DURATION_LABELS, duration)
+          ? (duration as ApprovalDuration)
+          : "forever",
+      scoped: request.scope !== undefined && result.content?.scoped !== false,
+    };
+  } catch (error) {
+    if (error instanceof McpError && error.code === ErrorCode.RequestTimeout) {
+      return { decision: "timeout" };
+    }
+    throw error;
+  }
+});
+
 // List available tools
 server.setRequestHandler(ListToolsRequestSchema, async () => {
   return {
     tools: [
       proxyFetchToolDefinition,
       networkExecToolDefinition,
+      execJobStatusToolDefinition,
+      execJobOutputToolDefinition,
+      execJobCancelToolDefinition,
+      execOutputToolDefinition,
       readFileToolDefinition,
       fileServeToolDefinition,
       fileServerStatusToolDefinition,
       fileServeCleanupToolDefinition,
+      runRecipeToolDefinition,
+      configShowToolDefinition,
+      configRemoveToolDefinition,
+      configResetToolDefinition,
+      ...(await getRecipeToolDefinitions()),
     ],
   };
 });
 
 // Handle tool calls
-server.setRequestHandler(CallToolRequestSchema, async (request) => {
+server.setRequestHandler(CallToolRequestSchema, async (request, extra) => {
   const { name, arguments: args } = request.params;
 
+  // Send notifications/progress when the client asked for them
+  const progressToken = request.params._meta?.progressToken;
+  const onProgress: ProgressCallback | undefined =
+    progressToken !== undefined
+      ? createProgressReporter((update) => {
+          extra
+            .sendNotification({
+              method: "notifications/progress",
+              params: { progressToken, ...update },
+            })
+            .catch((error) => {
+              console.error("[progress] Failed to send notification:", error);
+            });
+        })
+      : undefined;
+
   switch (name) {
     case "proxy_fetch": {
       const input = args as unknown as ProxyFetchInput;
-      const result = await proxyFetch(input);
+      const result = await proxyFetch(input, { onProgress, signal: extra.signal });
+
+      // Images are returned as image content, with the metadata alongside
+      const image = toImageContent(result);
+      if (image) {
+        return {
+          content: [
+            image,
+            {
+              type: "text",
+              text: JSON.stringify({ ...result, body: undefined }, null, 2),
+            },
+          ],
+        };
+      }
 
       // Format response as MCP tool result
       return {
@@ -80,7 +295,7 @@ server.setRequestHandler(CallToolRequestSchema, async (request) => {
 
     case "network_exec": {
       const input = args as unknown as NetworkExecInput;
-      const result = await networkExec(input);
+      const result = await networkExec(input, { onProgress, signal: extra.signal });
 
       // Format response as MCP tool result
       return {
@@ -93,9 +308,41 @@ server.setRequestHandler(CallToolRequestSchema, async (request) => {
       };
     }
 
+    case "exec_job_status": {
+      const input = args as unknown as ExecJobStatusInput;
+      const result = await execJobStatus(input);
+      return {
+        content: [{ type: "text", text: JSON.stringify(result, null, 2) }],
+      };
+    }
+
+    case "exec_job_output": {
+      const input = args as unknown as ExecJobOutputInput;
+      const result = await execJobOutput(input);
+      return {
+        content: [{ type: "text", text: JSON.stringify(result, null, 2) }],
+      };
+    }
+
+    case "exec_job_cancel": {
+      const input = args as unknown as ExecJobCancelInput;
+      const result = await execJobCancel(input);
+      return {
+        content: [{ type: "text", text: JSON.stringify(result, null, 2) }],
+      };
+    }
+
+    case "exec_output": {
+      const input = args as unknown as ExecOutputInput;
+      const result = await execOutput(input);
+      return {
+        content: [{ type: "text", text: JSON.stringify(result, null, 2) }],
+      };
+    }
+
     case "read_file": {
       const input = args as unknown as ReadFileInput;
-      const result = await readFile(input);
+      const result = await readFile(input, { signal: extra.signal });
 
       // Format response as MCP tool result
       return {
@@ -110,7 +357,7 @@ server.setRequestHandler(CallToolRequestSchema, async (request) => {
 
     case "file_serve": {
       const input = args as unknown as FileServeInput;
-      const result = await fileServe(input);
+      const result = await fileServe(input, { signal: extra.signal });
       return {
         content: [{ type: "text", text: JSON.stringify(result, null, 2) }],
       };
@@ -131,23 +378,77 @@ server.setRequestHandler(CallToolRequestSchema, async (request) => {
       };
     }
 
-    default:
+    case "run_recipe": {
+      const input = args as unknown as RunRecipeInput;
+      const result = await runRecipe(input, { onProgress, signal: extra.signal });
+      return {
+        content: [{ type: "text", text: JSON.stringify(result, null, 2) }],
+      };
+    }
+
+    case "config_show": {
+      const result = await configShow();
+      return {
+        content: [{ type: "text", text: JSON.stringify(result, null, 2) }],
+      };
+    }
+
+    case "config_remove": {
+      const input = args as unknown as ConfigRemoveInput;
+      const result = await configRemove(input, { signal: extra.signal });
+      return {
+        content: [{ type: "text", text: JSON.stringify(result, null, 2) }],
+      };
+    }
+
+    case "config_reset": {
+      const result = await configReset({ signal: extra.signal });
+      return {
+        content: [{ type: "text", text: JSON.stringify(result, null, 2) }],
+      };
+    }
+
+    default: {
+      // Per-recipe tools take the recipe's parameters directly
+      const recipe = recipeNameFromTool(name);
+      if (recipe) {
+        const result = await runRecipe(
+          { recipe, params: args },
+          { onProgress, signal: extra.signal }
+        );
+        return {
+          content: [{ type: "text", text: JSON.stringify(result, null, 2) }],
+        };
+      }
       throw new Error(`Unknown tool: ${name}`);
+    }
   }
 });
 
 // Shutdown handlers for clean exit
-process.on("SIGINT", () => {
-  shutdownFileServer();
-  process.exit(0);
-});
+let shuttingDown = false;
 
-process.on("SIGTERM", () => {
+async function shutdown(): Promise<void> {
+  // A second signal exits without waiting for jobs
+  if (shuttingDown) {
+    process.exit(1);
+  }
+  shuttingDown = true;
   shutdownFileServer();
+  await shutdownExecJobs().catch((error) => console.error("[shutdown] Error stopping jobs:", error));
   process.exit(0);
-});
+}
+
+process.on("SIGINT", () => void shutdown());
+process.on("SIGTERM", () => void shutdown());
 
 async function main() {
+  // Administrative subcommands run instead of the server
+  const exitCode = await runCli(process.argv.slice(2));
+  if (exitCode !== null) {
+    process.exit(exitCode);
+  }
+
   const transport = new StdioServerTransport();
   await server.connect(transport);
   console.error("mcp-proxy server running on stdio");
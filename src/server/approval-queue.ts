@@ -0,0 +1,180 @@
+/**
+ * Approval Queue
+ * Tracks pending human approvals for new domains and commands
+ */
+import * as crypto from "node:crypto";
+import type {
+  ApprovalAction,
+  ApprovalDuration,
+  ApprovalScope,
+} from "../config/defaults.js";
+
+/**
+ * "config" approvals are changes to the proxy's own configuration; they are
+ * applied or rejected as a whole ("once" or "deny")
+ */
+export type ApprovalKind = "domain" | "command" | "config";
+
+/**
+ * Outcome of a pending approval: a human decision, or a timeout
+ */
+export type ApprovalDecision = ApprovalAction | "timeout";
+
+/**
+ * A decision plus, for "always", how long and how narrowly it applies
+ */
+export interface ApprovalOutcome {
+  decision: ApprovalDecision;
+  duration?: ApprovalDuration;
+  /** Limit the approval to the scope offered in the request */
+  scoped?: boolean;
+  /** The user's note on a denial */
+  reason?: string;
+  /** Page listing pending approvals, when the local approval page was used */
+  approvalUrl?: string;
+}
+
+/**
+ * Choices offered for how long an "always" approval lasts
+ */
+export const APPROVAL_DURATION_LABELS: Record<ApprovalDuration, string> = {
+  forever: "Until removed",
+  "1h": "For 1 hour",
+  "1d": "For 1 day",
+  "7d": "For 7 days",
+};
+
+export interface ApprovalRequest {
+  kind: ApprovalKind;
+  /** Domain or command name being approved (for "config", the change) */
+  target: string;
+  /** Human-readable description of the request (URL, full command line) */
+  detail: string;
+  /** Narrower scope the user can limit an "always" approval to */
+  scope?: ApprovalScope;
+}
+
+export interface PendingApproval extends ApprovalRequest {
+  id: string;
+  createdAt: Date;
+  expiresAt: Date;
+}
+
+interface PendingEntry {
+  approval: PendingApproval;
+  resolve: (outcome: ApprovalOutcome) => void;
+  timeoutId: NodeJS.Timeout;
+}
+
+/**
+ * Describes a scope for the approval prompts ("GET requests under /repos/")
+ */
+export function describeApprovalScope(scope: ApprovalScope): string {
+  const parts: string[] = [];
+  if (scope.methods || scope.pathPrefix) {
+    parts.push(
+      `${scope.methods ? scope.methods.join("/") : "all"} requests${scope.pathPrefix ? ` under ${scope.pathPrefix}` : ""}`
+    );
+  }
+  if (scope.cwd) {
+    parts.push(`runs in ${scope.cwd}`);
+  }
+  return parts.join(", ");
+}
+
+class ApprovalQueue {
+  private pending = new Map<string, PendingEntry>();
+
+  /**
+   * Registers a pending approval and returns a promise for its decision.
+   * The promise resolves with "timeout" if nobody decides within timeoutMs.
+   */
+  create(
+    request: ApprovalRequest,
+    timeoutMs: number
+  ): { approval: PendingApproval; decision: Promise<ApprovalOutcome> } {
+    const id = crypto.randomUUID();
+    const approval: PendingApproval = {
+      ...request,
+      id,
+      createdAt: new Date(),
+      expiresAt: new Date(Date.now() + timeoutMs),
+    };
+
+    const decision = new Promise<ApprovalOutcome>((resolve) => {
+      const timeoutId = setTimeout(() => {
+        console.error(`[approval] Timed out: ${id} (${request.kind} ${request.target})`);
+        this.settle(id, { decision: "timeout" });
+      }, timeoutMs);
+
+      this.pending.set(id, { approval, resolve, timeoutId });
+    });
+
+    console.error(
+      `[approval] Pending: ${id} (${request.kind} ${request.target}, expires: ${approval.expiresAt.toISOString()})`
+    );
+
+    return { approval, decision };
+  }
+
+  get(id: string): PendingApproval | undefined {
+    return this.pending.get(id)?.approval;
+  }
+
+  /**
+   * Records a human decision for a pending approval
+   * Returns false if the approval no longer exists (decided or timed out)
+   */
+  decide(
+    id: string,
+    action: ApprovalAction,
+    options: { duration?: ApprovalDuration; scoped?: boolean; reason?: string } = {}
+  ): boolean {
+    if (!this.pending.has(id)) {
+      return false;
+    }
+    console.error(
+      `[approval] Decided: ${id} -> ${action}${action === "always" ? ` (${options.duration ?? "forever"}${options.scoped ? ", scoped" : ""})` : ""}`
+    );
+    this.settle(id, { decision: action, ...options });
+    return true;
+  }
+
+  /**
+   * Cancels a pending approval without a decision (e.g. another channel answered first)
+   */
+  cancel(id: string): void {
+    this.settle(id, { decision: "timeout" });
+  }
+
+  list(): PendingApproval[] {
+    return [...this.pending.values()].map((entry) => entry.approval);
+  }
+
+  shutdown(): void {
+    for (const id of [...this.pending.keys()]) {
+      this.settle(id, { decision: "timeout" });
+    }
+    console.error("[approval] Shutdown");
+  }
+
+  private settle(id: string, outcome: ApprovalOutcome): void {
+    const entry = this.pending.get(id);
+    if (!entry) {
+      return;
+    }
+    clearTimeout(entry.timeoutId);
+    this.pending.delete(id);
+    entry.resolve(outcome);
+  }
+}
+
+// Singleton instance
+let queueInstance: ApprovalQueue | null = null;
+
+export function getApprovalQueue(): ApprovalQueue {
+  if (!queueInstance) {
+    queueInstance = new ApprovalQueue();
+  }
+  return queueInstance;
+}
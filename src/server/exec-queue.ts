@@ -0,0 +1,103 @@
+/**
+ * Exec Queue
+ * Caps how many network_exec commands run at once; the rest wait in FIFO order
+ */
+import { CANCELLED_MESSAGE, onAbort } from "../utils/cancellation.js";
+
+/**
+ * Frees the slot (safe to call more than once)
+ */
+export type ReleaseSlot = () => void;
+
+interface Waiter {
+  grant: () => void;
+}
+
+class ExecQueue {
+  private running = 0;
+  private waiters: Waiter[] = [];
+
+  /**
+   * Waits for a free slot
+   * Rejects if the signal aborts, or no slot frees up within waitTimeoutMs
+   * (background jobs can hold theirs for hours).
+   */
+  async acquire(
+    maxConcurrent: number,
+    signal?: AbortSignal,
+    waitTimeoutMs?: number
+  ): Promise<ReleaseSlot> {
+    if (signal?.aborted) {
+      throw new Error(CANCELLED_MESSAGE);
+    }
+
+    if (this.running < maxConcurrent && this.waiters.length === 0) {
+      this.running++;
+      return this.createRelease(maxConcurrent);
+    }
+
+    console.error(
+      `[exec-queue] Waiting for a slot (${this.running} running, ${this.waiters.length} queued)`
+    );
+
+    return new Promise<ReleaseSlot>((resolve, reject) => {
+      const waiter: Waiter = {
+        grant: () => {
+          removeListener();
+          clearTimeout(waitTimer);
+          this.running++;
+          resolve(this.createRelease(maxConcurrent));
+        },
+      };
+      const removeListener = onAbort(signal, () => {
+        clearTimeout(waitTimer);
+        this.waiters = this.waiters.filter((w) => w !== waiter);
+        reject(new Error(CANCELLED_MESSAGE));
+      });
+      const waitTimer = waitTimeoutMs === undefined
+        ? undefined
+        : setTimeout(() => {
+            removeListener();
+            this.waiters = this.waiters.filter((w) => w !== waiter);
+            reject(
+              new Error(
+                `No execution slot became free within ${waitTimeoutMs}ms (${this.running} commands running). Background jobs keep their slot until they exit: cancel one with exec_job_cancel, or retry later.`
+              )
+            );
+          }, waitTimeoutMs);
+      this.waiters.push(waiter);
+    });
+  }
+
+  getStats(): { running: number; queued: number } {
+    return { running: this.running, queued: this.waiters.length };
+  }
+
+  private createRelease(maxConcurrent: number): ReleaseSlot {
+    let released = false;
+    return () => {
+      if (released) {
+        return;
+      }
+      released = true;
+      this.running--;
+      this.drain(maxConcurrent);
+    };
+  }
+
+  private drain(maxConcurrent: number): void {
+    while (this.running < maxConcurrent && this.waiters.length > 0) {
+      this.waiters.shift()!.grant();
+    }
+  }
+}
+
+// Singleton instance
+let queueInstance: ExecQueue | null = null;
+
+export function getExecQueue(): ExecQueue {
+  if (!queueInstance) {
+    queueInstance = new ExecQueue();
+  }
+  return queueInstance;
+}
@@ -7,6 +7,7 @@ import * as fs from "node:fs";
 import * as fsPromises from "node:fs/promises";
 import * as path from "node:path";
 import * as os from "node:os";
+import { pipeline } from "node:stream/promises";
 
 export interface FileRegistration {
   id: string;
@@ -23,6 +24,8 @@ export interface RegisterOptions {
   filename?: string;
   contentType?: string;
   expiryMinutes?: number;
+  /** Aborts the copy into the serve directory */
+  signal?: AbortSignal;
 }
 
 // Default serve directory
@@ -39,8 +42,13 @@ const MIME_TYPES: Record<string, string> = {
   ".svg": "image/svg+xml",
   ".mp4": "video/mp4",
   ".webm": "video/webm",
+  ".mkv": "video/x-matroska",
   ".mp3": "audio/mpeg",
+  ".m4a": "audio/mp4",
+  ".opus": "audio/opus",
   ".wav": "audio/wav",
+  ".vtt": "text/vtt",
+  ".srt": "application/x-subrip",
   ".pdf": "application/pdf",
   ".json": "application/json",
   ".txt": "text/plain",
@@ -49,7 +57,7 @@ const MIME_TYPES: Record<string, string> = {
   ".js": "application/javascript",
 };
 
-function getMimeType(filePath: string): string {
+export function getMimeType(filePath: string): string {
   const ext = path.extname(filePath).toLowerCase();
   return MIME_TYPES[ext] || "application/octet-stream";
 }
@@ -89,8 +97,17 @@ class FileRegistry {
     const ext = path.extname(originalPath);
     const servePath = path.join(this.serveDirectory, `${id}${ext}`);
 
-    // Copy file to serve directory
-    await fsPromises.copyFile(originalPath, servePath);
+    // Copy file to serve directory (streamed so it can be aborted)
+    try {
+      await pipeline(
+        fs.createReadStream(originalPath),
+        fs.createWriteStream(servePath),
+        { signal: options.signal }
+      );
+    } catch (error) {
+      await fsPromises.unlink(servePath).catch(() => {});
+      throw error;
+    }
 
     const registration: FileRegistration = {
       id,
@@ -1,13 +1,135 @@
 /**
  * HTTP File Server
- * Serves registered files via streaming
+ * Serves registered files via streaming, plus the local approval pages
  */
 import * as http from "node:http";
 import * as fs from "node:fs";
+import type { ApprovalAction, ApprovalDuration } from "../config/defaults.js";
+import {
+  APPROVAL_DURATION_LABELS,
+  describeApprovalScope,
+  getApprovalQueue,
+  type PendingApproval,
+} from "./approval-queue.js";
 import { getFileRegistry } from "./file-registry.js";
 
 const DEFAULT_PORT = 9765;
 
+// Maximum size of an approval form submission
+const MAX_FORM_BODY = 1024;
+
+const APPROVAL_ACTIONS: ApprovalAction[] = ["once", "always", "deny_once", "deny"];
+
+function escapeHtml(value: string): string {
+  return value
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;")
+    .replace(/'/g, "&#39;");
+}
+
+function renderPage(title: string, body: string): string {
+  return `<!DOCTYPE html>
+<html>
+<head>
+<meta charset="utf-8">
+<title>${escapeHtml(title)}</title>
+<style>
+body { font-family: system-ui, sans-serif; max-width: 40rem; margin: 3rem auto; padding: 0 1rem; }
+code { background: #f2f2f2; padding: 0.1rem 0.3rem; word-break: break-all; }
+button { font-size: 1rem; padding: 0.5rem 1rem; margin-right: 0.5rem; }
+</style>
+</head>
+<body>
+<h1>${escapeHtml(title)}</h1>
+${body}
+</body>
+</html>`;
+}
+
+function renderConfigApprovalPage(approval: PendingApproval): string {
+  return renderPage(
+    "Approve config change?",
+    `<p>A tool call wants to change the proxy configuration.</p>
+<p>Change: <code>${escapeHtml(approval.target)}</code></p>
+<p>Details: <code>${escapeHtml(approval.detail)}</code></p>
+<p>Expires: ${escapeHtml(approval.expiresAt.toISOString())}</p>
+<form method="POST">
+<button type="submit" name="decision" value="once">Apply</button>
+<button type="submit" name="decision" value="deny">Reject</button>
+</form>`
+  );
+}
+
+/**
+ * Lists pending approvals, for when the browser did not open on its own
+ */
+function renderApprovalIndex(approvals: PendingApproval[]): string {
+  if (approvals.length === 0) {
+    return renderPage("Pending approvals", "<p>Nothing is waiting for your approval.</p>");
+  }
+  const items = approvals
+    .map(
+      (approval) =>
+        `<li><a href="/approvals/${escapeHtml(approval.id)}">${escapeHtml(approval.kind)} <code>${escapeHtml(approval.target)}</code></a> - ${escapeHtml(approval.detail)} (expires ${escapeHtml(approval.expiresAt.toISOString())})</li>`
+    )
+    .join("\n");
+  return renderPage("Pending approvals", `<ul>\n${items}\n</ul>`);
+}
+
+/**
+ * Checks if a socket peer is this machine (127.0.0.0/8, ::1, or IPv4-mapped loopback)
+ */
+function isLoopbackAddress(address: string | undefined): boolean {
+  if (!address) {
+    return false;
+  }
+  return address === "::1" || address.replace(/^::ffff:/i, "").startsWith("127.");
+}
+
+function renderApprovalPage(approval: PendingApproval): string {
+  if (approval.kind === "config") {
+    return renderConfigApprovalPage(approval);
+  }
+  const label = approval.kind === "domain" ? "Domain" : "Command";
+  return renderPage(
+    `Approve ${approval.kind}?`,
+    `<p>A tool call is waiting for your approval.</p>
+<p>${label}: <code>${escapeHtml(approval.target)}</code></p>
+<p>Request: <code>${escapeHtml(approval.detail)}</code></p>
+<p>Expires: ${escapeHtml(approval.expiresAt.toISOString())}</p>
+<form method="POST">
+<p><label>"Allow always" lasts: <select name="duration">
+${Object.entries(APPROVAL_DURATION_LABELS)
+  .map(([value, label]) => `<option value="${value}">${escapeHtml(label)}</option>`)
+  .join("\n")}
+</select></label></p>
+${approval.scope ? `<p><label><input type="checkbox" name="scoped" value="1" checked> Only ${escapeHtml(describeApprovalScope(approval.scope))}</label></p>` : ""}
+<p><label>Reason for denying (optional): <input type="text" name="reason" maxlength="200"></label></p>
+<button type="submit" name="decision" value="once">Allow once</button>
+<button type="submit" name="decision" value="always">Allow always</button>
+<button type="submit" name="decision" value="deny_once">Deny once</button>
+<button type="submit" name="decision" value="deny">Deny (remembered until removed)</button>
+</form>`
+  );
+}
+
+function readFormBody(req: http.IncomingMessage): Promise<URLSearchParams> {
+  return new Promise((resolve, reject) => {
+    let body = "";
+    req.on("data", (chunk: Buffer) => {
+      body += chunk.toString();
+      if (body.length > MAX_FORM_BODY) {
+        reject(new Error("Form body too large"));
+        req.destroy();
+      }
+    });
+    req.on("end", () => resolve(new URLSearchParams(body)));
+    req.on("error", reject);
+  });
+}
+
 class HttpFileServer {
   private server: http.Server | null = null;
   private port: number = DEFAULT_PORT;
@@ -55,6 +177,13 @@ class HttpFileServer {
     req: http.IncomingMessage,
     res: http.ServerResponse
   ): Promise<void> {
+    const url = new URL(req.url || "/", `http://localhost:${this.port}`);
+
+    // Approval pages are local-only and never get CORS headers
+    if (url.pathname === "/approvals" || url.pathname.startsWith("/approvals/")) {
+      return this.handleApprovalRequest(req, res, url);
+    }
+
     // CORS headers for browser access
     res.setHeader("Access-Control-Allow-Origin", "*");
     res.setHeader("Access-Control-Allow-Methods", "GET, HEAD, OPTIONS");
@@ -74,7 +203,6 @@ class HttpFileServer {
 
     // Parse URL to get file ID
     // Expected format: /files/{uuid}.{ext} or /{uuid}.{ext}
-    const url = new URL(req.url || "/", `http://localhost:${this.port}`);
     const pathParts = url.pathname.split("/").filter(Boolean);
 
     // Handle /files/uuid.ext or /uuid.ext
@@ -131,6 +259,127 @@ class HttpFileServer {
     );
   }
 
+  /**
+   * Checks that a request came from this machine rather than through the tunnel
+   * or the LAN (the server listens on all interfaces for the file links).
+   * The Host check also defeats DNS rebinding from pages open in the browser.
+   */
+  private isLocalRequest(req: http.IncomingMessage): boolean {
+    if (!isLoopbackAddress(req.socket.remoteAddress)) {
+      return false;
+    }
+    if (req.headers["cf-connecting-ip"] || req.headers["x-forwarded-for"]) {
+      return false;
+    }
+
+    const localHosts = [`localhost:${this.port}`, `127.0.0.1:${this.port}`];
+    const host = (req.headers.host || "").toLowerCase();
+    if (!localHosts.includes(host)) {
+      return false;
+    }
+
+    const origin = req.headers.origin;
+    if (origin && !localHosts.some((h) => origin.toLowerCase() === `http://${h}`)) {
+      return false;
+    }
+
+    return true;
+  }
+
+  private async handleApprovalRequest(
+    req: http.IncomingMessage,
+    res: http.ServerResponse,
+    url: URL
+  ): Promise<void> {
+    res.setHeader("Cache-Control", "no-store");
+    res.setHeader("X-Frame-Options", "DENY");
+
+    if (!this.isLocalRequest(req)) {
+      console.error(`[http-server] Rejected non-local approval request: ${url.pathname}`);
+      res.writeHead(403);
+      res.end("Forbidden");
+      return;
+    }
+
+    const id = url.pathname.slice("/approvals/".length);
+    const queue = getApprovalQueue();
+    if (!id) {
+      if (req.method !== "GET") {
+        res.writeHead(405);
+        res.end("Method Not Allowed");
+        return;
+      }
+      res.writeHead(200, { "Content-Type": "text/html; charset=utf-8" });
+      res.end(renderApprovalIndex(queue.list()));
+      return;
+    }
+    const approval = queue.get(id);
+
+    if (!approval) {
+      res.writeHead(404, { "Content-Type": "text/html; charset=utf-8" });
+      res.end(
+        renderPage(
+          "Approval not found",
+          "<p>This approval was already decided or has expired.</p>"
+        )
+      );
+      return;
+    }
+
+    if (req.method === "GET") {
+      res.writeHead(200, { "Content-Type": "text/html; charset=utf-8" });
+      res.end(renderApprovalPage(approval));
+      return;
+    }
+
+    if (req.method !== "POST") {
+      res.writeHead(405);
+      res.end("Method Not Allowed");
+      return;
+    }
+
+    const form = await readFormBody(req);
+    const decision = form.get("decision") as ApprovalAction | null;
+    if (
+      !decision ||
+      !APPROVAL_ACTIONS.includes(decision) ||
+      (approval.kind === "config" && decision !== "once" && decision !== "deny")
+    ) {
+      res.writeHead(400);
+      res.end("Invalid decision");
+      return;
+    }
+
+    const duration = form.get("duration") as ApprovalDuration | null;
+    const scoped = form.get("scoped") === "1" && approval.scope !== undefined;
+    const reason = form.get("reason")?.trim().slice(0, 200) || undefined;
+    queue.decide(id, decision, {
+      duration: duration && Object.hasOwn(APPROVAL_DURATION_LABELS, duration) ? duration : "forever",
+      scoped,
+      reason,
+    });
+
+    const outcome =
+      approval.kind === "config"
+        ? decision === "deny"
+          ? "rejected"
+          : "applied"
+        : decision === "deny"
+          ? "denied and added to the denylist"
+          : decision === "deny_once"
+            ? "denied for this request"
+            : decision === "always"
+              ? "allowed and added to the allowlist"
+              : "allowed for this request";
+    res.writeHead(200, { "Content-Type": "text/html; charset=utf-8" });
+    res.end(
+      renderPage(
+        "Decision recorded",
+        `<p><code>${escapeHtml(approval.target)}</code> was ${outcome}. You can close this page.</p>`
+      )
+    );
+  }
+
   stop(): Promise<void> {
     return new Promise((resolve) => {
       if (!this.server) {
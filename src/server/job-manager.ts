@@ -0,0 +1,420 @@
+/**
+ * Job Manager
+ * Runs network_exec commands in the background and keeps their output for polling
+ */
+import { spawn, type ChildProcess } from "node:child_process";
+import * as crypto from "node:crypto";
+import type { ResourceLimits } from "../config/defaults.js";
+import {
+  detectLimitExceeded,
+  terminateProcess,
+  watchCpuTime,
+  type ResourceLimitName,
+} from "../utils/process.js";
+import { AnsiStripper } from "../utils/pty.js";
+import { getOutputSpool } from "./output-spool.js";
+
+export type JobState =
+  | "running"
+  | "exited"
+  | "failed"
+  | "timed_out"
+  | "limit_exceeded"
+  | "cancelled";
+
+export interface JobInfo {
+  id: string;
+  command: string;
+  args: string[];
+  cwd?: string;
+  state: JobState;
+  pid?: number;
+  exitCode: number | null;
+  signal: string | null;
+  error?: string;
+  /** Resource limit that stopped the job */
+  limit?: ResourceLimitName;
+  /** Scratch workspace the job runs in */
+  workspaceId?: string;
+  /** Full output on disk, readable with exec_output */
+  outputId?: string;
+  startedAt: Date;
+  endedAt?: Date;
+  durationMs: number;
+  stdoutBytes: number;
+  stderrBytes: number;
+}
+
+export interface StartJobOptions {
+  cwd?: string;
+  env?: NodeJS.ProcessEnv;
+  timeout: number;
+  /** Limits the command runs under, used to report which one stopped it */
+  limits?: ResourceLimits;
+  /** Called once the process has exited */
+  onExit?: () => void;
+  /** Process to actually spawn when the command is wrapped (e.g. in prlimit) */
+  spawnAs?: { command: string; args: string[] };
+  /** Scratch workspace the job runs in */
+  workspaceId?: string;
+  /** Written to the job's stdin, which is then closed */
+  stdin?: Buffer;
+  /** Runs under a pseudo-terminal (stdout carries stderr too; signals arrive as 128+N exit codes) */
+  pty?: boolean;
+  /** Remove ANSI escape codes from stdout */
+  stripAnsi?: boolean;
+  /** Sample the command's CPU time, so a SIGKILL can be tied to the CPU limit */
+  watchCpu?: boolean;
+  /** Output spool that also gets all output; the job closes it on exit */
+  outputId?: string;
+}
+
+export interface JobOutputChunk {
+  /** Decoded output starting at the requested offset */
+  data: string;
+  /** Offset to pass to the next read */
+  nextOffset: number;
+  /** Total bytes the process has written to this stream */
+  totalBytes: number;
+  /** Bytes before this offset were dropped by the retention limit */
+  droppedBytes: number;
+}
+
+// Output retained in memory per stream per job for exec_job_output (older
+// output is dropped first; the spool keeps all of it)
+const MAX_JOB_OUTPUT = 10 * 1024 * 1024;
+// Finished jobs are forgotten after this long
+const JOB_RETENTION_MS = 60 * 60 * 1000;
+// At most this many finished jobs are kept
+const MAX_FINISHED_JOBS = 50;
+// Trailing stderr inspected to tell which resource limit stopped a job
+const LIMIT_STDERR_TAIL = 4096;
+
+/**
+ * Append-only output buffer addressed by absolute byte offsets
+ */
+class OutputBuffer {
+  private chunks: Buffer[] = [];
+  private retained = 0;
+  dropped = 0;
+
+  get total(): number {
+    return this.dropped + this.retained;
+  }
+
+  append(data: Buffer): void {
+    this.chunks.push(data);
+    this.retained += data.length;
+
+    // Drop the oldest chunks once over the retention limit
+    while (this.retained > MAX_JOB_OUTPUT && this.chunks.length > 1) {
+      const oldest = this.chunks.shift()!;
+      this.retained -= oldest.length;
+      this.dropped += oldest.length;
+    }
+  }
+
+  read(offset: number, maxBytes: number): JobOutputChunk {
+    const start = Math.max(offset, this.dropped);
+    const retained = Buffer.concat(this.chunks);
+    let slice: Buffer = retained.subarray(
+      start - this.dropped,
+      Math.min(start - this.dropped + maxBytes, retained.length)
+    );
+
+    // Don't split a multi-byte UTF-8 character at the end of the slice
+    if (start - this.dropped + slice.length < retained.length) {
+      slice = trimPartialUtf8(slice);
+    }
+
+    return {
+      data: slice.toString("utf8"),
+      nextOffset: start + slice.length,
+      totalBytes: this.total,
+      droppedBytes: this.dropped,
+    };
+  }
+}
+
+/**
+ * Removes an incomplete UTF-8 sequence from the end of a buffer
+ */
+function trimPartialUtf8(buffer: Buffer): Buffer {
+  // Walk back over continuation bytes to the last lead byte
+  let i = buffer.length - 1;
+  while (i >= 0 && i >= buffer.length - 4 && (buffer[i] & 0xc0) === 0x80) {
+    i--;
+  }
+  if (i < 0) {
+    return buffer;
+  }
+
+  const lead = buffer[i];
+  const expected =
+    lead >= 0xf0 ? 4 : lead >= 0xe0 ? 3 : lead >= 0xc0 ? 2 : 1;
+  return buffer.length - i < expected ? buffer.subarray(0, i) : buffer;
+}
+
+interface Job {
+  info: JobInfo;
+  child: ChildProcess;
+  stdout: OutputBuffer;
+  stderr: OutputBuffer;
+  timeoutId: NodeJS.Timeout;
+}
+
+class JobManager {
+  private jobs = new Map<string, Job>();
+  private cleanupInterval: NodeJS.Timeout | null = null;
+
+  /**
+   * Spawns a command as a background job
+   * Resolves once the process has started; rejects if it cannot be spawned.
+   * NOTE: Uses spawn() NOT exec() for security - prevents shell injection
+   */
+  async start(
+    command: string,
+    args: string[],
+    options: StartJobOptions
+  ): Promise<JobInfo> {
+    const child = spawn(options.spawnAs?.command ?? command, options.spawnAs?.args ?? args, {
+      cwd: options.cwd,
+      env: options.env,
+      // Don't use shell - this is intentional for security
+      shell: false,
+    });
+
+    await new Promise<void>((resolve, reject) => {
+      child.once("spawn", resolve);
+      child.once("error", reject);
+    });
+    const cpuSeconds = options.watchCpu ? watchCpuTime(child) : () => undefined;
+
+    const id = crypto.randomUUID();
+    const job: Job = {
+      info: {
+        id,
+        command,
+        args,
+        cwd: options.cwd,
+        workspaceId: options.workspaceId,
+        outputId: options.outputId,
+        state: "running",
+        pid: child.pid,
+        exitCode: null,
+        signal: null,
+        startedAt: new Date(),
+        durationMs: 0,
+        stdoutBytes: 0,
+        stderrBytes: 0,
+      },
+      child,
+      stdout: new OutputBuffer(),
+      stderr: new OutputBuffer(),
+      timeoutId: setTimeout(() => {
+        console.error(`[jobs] Timed out after ${options.timeout}ms: ${id}`);
+        job.info.state = "timed_out";
+        job.info.limit = "timeout";
+        terminateProcess(child);
+      }, options.timeout),
+    };
+
+    // Close stdin so commands waiting for input see EOF
+    child.stdin.on("error", () => {});
+    child.stdin.end(options.stdin);
+
+    const spool = getOutputSpool();
+    const appendStdout = (data: Buffer) => {
+      job.stdout.append(data);
+      if (options.outputId) {
+        spool.write(options.outputId, "stdout", data);
+      }
+    };
+    const stripper = options.stripAnsi ? new AnsiStripper() : null;
+    child.stdout.on("data", (data: Buffer) => {
+      appendStdout(stripper ? Buffer.from(stripper.write(data)) : data);
+    });
+    child.stderr.on("data", (data: Buffer) => {
+      job.stderr.append(data);
+      if (options.outputId) {
+        spool.write(options.outputId, "stderr", data);
+      }
+    });
+
+    child.on("error", (error: Error) => {
+      job.info.error = error.message;
+      if (job.info.state === "running") {
+        job.info.state = "failed";
+      }
+    });
+
+    child.on("close", (code: number | null, signal: NodeJS.Signals | null) => {
+      clearTimeout(job.timeoutId);
+      if (stripper) {
+        appendStdout(Buffer.from(stripper.end()));
+      }
+      if (options.outputId) {
+        spool.close(options.outputId).catch((error) => {
+          console.error(`[jobs] Closing output spool failed: ${error}`);
+        });
+      }
+      job.info.exitCode = code;
+      job.info.signal = signal;
+      job.info.endedAt = new Date();
+      if (job.info.state === "running") {
+        // Under a PTY, error messages arrive on stdout
+        const output = options.pty ? job.stdout : job.stderr;
+        const outputTail = output.read(
+          Math.max(0, output.total - LIMIT_STDERR_TAIL),
+          LIMIT_STDERR_TAIL
+        ).data;
+        const limit = options.limits
+          ? detectLimitExceeded(
+              { signal, exitCode: code, output: outputTail, cpuSeconds: cpuSeconds(), pty: options.pty },
+              options.limits
+            )
+          : undefined;
+        job.info.state = limit ? "limit_exceeded" : "exited";
+        job.info.limit = limit;
+      }
+      options.onExit?.();
+      console.error(
+        `[jobs] Finished: ${id} (${job.info.state}, exit code ${code}, signal ${signal})`
+      );
+    });
+
+    this.jobs.set(id, job);
+    this.ensureCleanupInterval();
+    this.pruneFinished();
+
+    console.error(`[jobs] Started: ${id} (pid ${child.pid}) ${command} ${args.join(" ")}`);
+    return this.snapshot(job);
+  }
+
+  get(id: string): JobInfo | undefined {
+    const job = this.jobs.get(id);
+    return job ? this.snapshot(job) : undefined;
+  }
+
+  list(): JobInfo[] {
+    return [...this.jobs.values()].map((job) => this.snapshot(job));
+  }
+
+  /**
+   * Reads stdout/stderr from the given byte offsets
+   */
+  readOutput(
+    id: string,
+    stdoutOffset: number,
+    stderrOffset: number,
+    maxBytes: number
+  ): { stdout: JobOutputChunk; stderr: JobOutputChunk } | undefined {
+    const job = this.jobs.get(id);
+    if (!job) {
+      return undefined;
+    }
+    return {
+      stdout: job.stdout.read(stdoutOffset, maxBytes),
+      stderr: job.stderr.read(stderrOffset, maxBytes),
+    };
+  }
+
+  /**
+   * Cancels a running job (SIGTERM, then SIGKILL)
+   * Returns false if the job doesn't exist or has already finished
+   */
+  cancel(id: string): boolean {
+    const job = this.jobs.get(id);
+    if (!job || job.info.state !== "running") {
+      return false;
+    }
+    job.info.state = "cancelled";
+    terminateProcess(job.child);
+    console.error(`[jobs] Cancelled: ${id}`);
+    return true;
+  }
+
+  /**
+   * Forgets finished jobs past the retention period
+   */
+  cleanup(): number {
+    const cutoff = Date.now() - JOB_RETENTION_MS;
+    let cleaned = 0;
+
+    for (const [id, job] of this.jobs) {
+      if (job.info.endedAt && job.info.endedAt.getTime() < cutoff) {
+        this.jobs.delete(id);
+        cleaned++;
+      }
+    }
+
+    if (cleaned > 0) {
+      console.error(`[jobs] Cleaned up ${cleaned} finished jobs`);
+    }
+    return cleaned;
+  }
+
+  /**
+   * Stops every running job (used on server shutdown)
+   * Resolves once they have exited, escalating to SIGKILL after the grace period.
+   */
+  async shutdown(): Promise<void> {
+    if (this.cleanupInterval) {
+      clearInterval(this.cleanupInterval);
+      this.cleanupInterval = null;
+    }
+
+    const stopping: Promise<void>[] = [];
+    for (const job of this.jobs.values()) {
+      if (job.info.state === "running") {
+        job.info.state = "cancelled";
+        clearTimeout(job.timeoutId);
+        stopping.push(terminateProcess(job.child));
+      }
+    }
+    await Promise.all(stopping);
+    console.error("[jobs] Shutdown");
+  }
+
+  private ensureCleanupInterval(): void {
+    if (this.cleanupInterval) {
+      return;
+    }
+    // Cleanup every 5 minutes
+    this.cleanupInterval = setInterval(() => this.cleanup(), 5 * 60 * 1000);
+  }
+
+  /**
+   * Keeps at most MAX_FINISHED_JOBS finished jobs, dropping the oldest
+   */
+  private pruneFinished(): void {
+    const finished = [...this.jobs.values()]
+      .filter((job) => job.info.endedAt)
+      .sort((a, b) => a.info.endedAt!.getTime() - b.info.endedAt!.getTime());
+
+    for (const job of finished.slice(0, Math.max(0, finished.length - MAX_FINISHED_JOBS))) {
+      this.jobs.delete(job.info.id);
+    }
+  }
+
+  private snapshot(job: Job): JobInfo {
+    const end = job.info.endedAt?.getTime() ?? Date.now();
+    return {
+      ...job.info,
+      args: [...job.info.args],
+      durationMs: end - job.info.startedAt.getTime(),
+      stdoutBytes: job.stdout.total,
+      stderrBytes: job.stderr.total,
+    };
+  }
+}
+
+// Singleton instance
+let managerInstance: JobManager | null = null;
+
+export function getJobManager(): JobManager {
+  if (!managerInstance) {
+    managerInstance = new JobManager();
+  }
+  return managerInstance;
+}
@@ -0,0 +1,205 @@
+/**
+ * Output Spool
+ * Keeps the full stdout/stderr of network_exec commands on disk for exec_output
+ */
+import * as crypto from "node:crypto";
+import * as fs from "node:fs";
+import * as os from "node:os";
+import * as path from "node:path";
+import { finished } from "node:stream/promises";
+
+export type OutputStream = "stdout" | "stderr";
+
+export interface SpooledOutput {
+  id: string;
+  command: string;
+  createdAt: Date;
+  /** Unset while the command is still running */
+  completedAt?: Date;
+  stdoutBytes: number;
+  stderrBytes: number;
+  /** Streams that stopped being spooled at the size limit */
+  truncated: OutputStream[];
+}
+
+interface Spool {
+  info: SpooledOutput;
+  dir: string;
+  files: Partial<Record<OutputStream, fs.WriteStream>>;
+}
+
+// Per-process directory, removed on shutdown
+const SPOOL_ROOT = path.join(os.tmpdir(), "mcp-proxy-output", String(process.pid));
+// Output kept per stream per command
+const MAX_SPOOL_BYTES = 100 * 1024 * 1024;
+// Finished output is deleted after this long
+const SPOOL_RETENTION_MS = 60 * 60 * 1000;
+// At most this many finished commands are kept
+const MAX_FINISHED_SPOOLS = 50;
+
+class OutputSpoolManager {
+  private spools = new Map<string, Spool>();
+  private cleanupInterval: NodeJS.Timeout | null = null;
+
+  /**
+   * Starts spooling a command's output
+   * Only the given streams are written (stdout is skipped when it goes to a file).
+   */
+  async create(command: string, streams: OutputStream[]): Promise<SpooledOutput> {
+    const id = crypto.randomUUID();
+    const dir = path.join(SPOOL_ROOT, id);
+    await fs.promises.mkdir(dir, { recursive: true, mode: 0o700 });
+
+    const files: Spool["files"] = {};
+    for (const stream of streams) {
+      files[stream] = fs.createWriteStream(path.join(dir, stream), { mode: 0o600 });
+    }
+
+    const spool: Spool = {
+      info: {
+        id,
+        command,
+        createdAt: new Date(),
+        stdoutBytes: 0,
+        stderrBytes: 0,
+        truncated: [],
+      },
+      dir,
+      files,
+    };
+    this.spools.set(id, spool);
+    this.ensureCleanupInterval();
+    await this.evictFinished();
+
+    return { ...spool.info };
+  }
+
+  write(id: string, stream: OutputStream, data: Buffer): void {
+    const spool = this.spools.get(id);
+    const file = spool?.files[stream];
+    if (!spool || !file || spool.info.truncated.includes(stream)) {
+      return;
+    }
+
+    const key = stream === "stdout" ? "stdoutBytes" : "stderrBytes";
+    const room = MAX_SPOOL_BYTES - spool.info[key];
+    if (data.length > room) {
+      data = data.subarray(0, room);
+      spool.info.truncated.push(stream);
+    }
+    spool.info[key] += data.length;
+    file.write(data);
+  }
+
+  /**
+   * Flushes and closes the files once the command has exited
+   */
+  async close(id: string): Promise<SpooledOutput | undefined> {
+    const spool = this.spools.get(id);
+    if (!spool) {
+      return undefined;
+    }
+    if (!spool.info.completedAt) {
+      spool.info.completedAt = new Date();
+      await Promise.all(
+        Object.values(spool.files).map((file) => {
+          file.end();
+          return finished(file).catch(() => undefined);
+        })
+      );
+    }
+    return { ...spool.info };
+  }
+
+  get(id: string): SpooledOutput | undefined {
+    const spool = this.spools.get(id);
+    return spool ? { ...spool.info } : undefined;
+  }
+
+  /**
+   * Path of a spooled stream (undefined if that stream wasn't spooled)
+   */
+  getPath(id: string, stream: OutputStream): string | undefined {
+    const spool = this.spools.get(id);
+    return spool?.files[stream] ? path.join(spool.dir, stream) : undefined;
+  }
+
+  async remove(id: string): Promise<boolean> {
+    const spool = this.spools.get(id);
+    if (!spool) {
+      return false;
+    }
+    await this.close(id);
+    await fs.promises.rm(spool.dir, { recursive: true, force: true });
+    this.spools.delete(id);
+    return true;
+  }
+
+  /**
+   * Removes expired output (never output of a command that is still running)
+   */
+  async cleanup(): Promise<number> {
+    const cutoff = Date.now() - SPOOL_RETENTION_MS;
+    let cleaned = 0;
+    for (const [id, spool] of this.spools) {
+      if (spool.info.completedAt && spool.info.completedAt.getTime() < cutoff) {
+        await this.remove(id);
+        cleaned++;
+      }
+    }
+    if (cleaned > 0) {
+      console.error(`[output-spool] Cleaned up ${cleaned} expired outputs`);
+    }
+    return cleaned;
+  }
+
+  shutdown(): void {
+    if (this.cleanupInterval) {
+      clearInterval(this.cleanupInterval);
+      this.cleanupInterval = null;
+    }
+    for (const spool of this.spools.values()) {
+      for (const file of Object.values(spool.files)) {
+        file.destroy();
+      }
+    }
+    this.spools.clear();
+    fs.rmSync(SPOOL_ROOT, { recursive: true, force: true });
+    console.error("[output-spool] Shutdown");
+  }
+
+  /**
+   * Drops the oldest finished output beyond MAX_FINISHED_SPOOLS
+   */
+  private async evictFinished(): Promise<void> {
+    const finishedSpools = [...this.spools.values()]
+      .filter((spool) => spool.info.completedAt)
+      .sort((a, b) => a.info.completedAt!.getTime() - b.info.completedAt!.getTime());
+
+    for (const spool of finishedSpools.slice(0, -MAX_FINISHED_SPOOLS)) {
+      await this.remove(spool.info.id);
+    }
+  }
+
+  private ensureCleanupInterval(): void {
+    if (this.cleanupInterval) {
+      return;
+    }
+    // Cleanup every 5 minutes
+    this.cleanupInterval = setInterval(() => {
+      this.cleanup().catch((err) => {
+        console.error("[output-spool] Cleanup error:", err);
+      });
+    }, 5 * 60 * 1000);
+  }
+}
+
+// Singleton instance
+let spoolInstance: OutputSpoolManager | null = null;
+
+export function getOutputSpool(): OutputSpoolManager {
+  if (!spoolInstance) {
+    spoolInstance = new OutputSpoolManager();
+  }
+  return spoolInstance;
+}
@@ -0,0 +1,241 @@
+/**
+ * Workspace Manager
+ * Scratch directories for network_exec runs, with manifests of the files they produce
+ */
+import * as crypto from "node:crypto";
+import * as fs from "node:fs/promises";
+import * as path from "node:path";
+import { getWorkspaceConfig } from "../config/manager.js";
+import { hashFile } from "../utils/download.js";
+import { getMimeType } from "./file-registry.js";
+
+export interface Artifact {
+  /** Absolute path, ready for read_file or file_serve */
+  path: string;
+  /** Path relative to the workspace */
+  name: string;
+  size: number;
+  mimeType: string;
+  sha256: string;
+  change: "created" | "modified";
+}
+
+export interface WorkspaceInfo {
+  id: string;
+  path: string;
+  createdAt: Date;
+  /** Unset while the command is still running */
+  expiresAt?: Date;
+}
+
+export interface WorkspaceManifest extends WorkspaceInfo {
+  artifacts: Artifact[];
+  /** More files changed than are listed */
+  truncated?: boolean;
+}
+
+type Snapshot = Map<string, { size: number; mtimeMs: number }>;
+
+interface Workspace {
+  info: WorkspaceInfo;
+  before: Snapshot;
+  active: boolean;
+  manifest?: Promise<WorkspaceManifest>;
+}
+
+// At most this many artifacts are listed (and hashed) per run
+const MAX_ARTIFACTS = 200;
+// Workspace directory names (only these are ever swept from the root)
+const WORKSPACE_NAME_REGEX = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/;
+
+/**
+ * Lists regular files under a directory (symlinks are not followed)
+ */
+async function snapshotDirectory(dir: string): Promise<Snapshot> {
+  const snapshot: Snapshot = new Map();
+
+  async function walk(current: string): Promise<void> {
+    const entries = await fs.readdir(current, { withFileTypes: true });
+    for (const entry of entries) {
+      const fullPath = path.join(current, entry.name);
+      if (entry.isDirectory()) {
+        await walk(fullPath);
+      } else if (entry.isFile()) {
+        const stats = await fs.stat(fullPath);
+        snapshot.set(path.relative(dir, fullPath), {
+          size: stats.size,
+          mtimeMs: stats.mtimeMs,
+        });
+      }
+    }
+  }
+
+  await walk(dir);
+  return snapshot;
+}
+
+class WorkspaceManager {
+  private workspaces = new Map<string, Workspace>();
+  private cleanupInterval: NodeJS.Timeout | null = null;
+
+  /**
+   * Picks a workspace id and path without creating anything yet
+   * (so policy checks can see the path before approval)
+   */
+  async allocate(): Promise<{ id: string; path: string }> {
+    const config = await getWorkspaceConfig();
+    const id = crypto.randomUUID();
+    return { id, path: path.join(config.root, id) };
+  }
+
+  /**
+   * Creates an allocated workspace and snapshots it
+   */
+  async create(allocated: { id: string; path: string }): Promise<WorkspaceInfo> {
+    await fs.mkdir(allocated.path, { recursive: true });
+
+    const workspace: Workspace = {
+      info: { id: allocated.id, path: allocated.path, createdAt: new Date() },
+      before: await snapshotDirectory(allocated.path),
+      active: true,
+    };
+    this.workspaces.set(allocated.id, workspace);
+    this.ensureCleanupInterval();
+
+    console.error(`[workspace] Created: ${allocated.path}`);
+    return { ...workspace.info };
+  }
+
+  /**
+   * Marks the command as finished and lists the files it created or modified
+   * The expiry countdown starts here. Repeated calls return the same manifest.
+   */
+  async finish(id: string): Promise<WorkspaceManifest | undefined> {
+    const workspace = this.workspaces.get(id);
+    if (!workspace) {
+      return undefined;
+    }
+    if (!workspace.manifest) {
+      workspace.manifest = this.collectManifest(workspace);
+    }
+    return workspace.manifest;
+  }
+
+  get(id: string): WorkspaceInfo | undefined {
+    const workspace = this.workspaces.get(id);
+    return workspace ? { ...workspace.info } : undefined;
+  }
+
+  async remove(id: string): Promise<boolean> {
+    const workspace = this.workspaces.get(id);
+    if (!workspace) {
+      return false;
+    }
+    await fs.rm(workspace.info.path, { recursive: true, force: true });
+    this.workspaces.delete(id);
+    console.error(`[workspace] Removed: ${workspace.info.path}`);
+    return true;
+  }
+
+  /**
+   * Removes expired workspaces (never ones whose command is still running)
+   * Also sweeps workspaces left in the root by a previous server run.
+   */
+  async cleanup(): Promise<number> {
+    const now = new Date();
+    let cleaned = 0;
+
+    for (const [id, workspace] of this.workspaces) {
+      if (!workspace.active && workspace.info.expiresAt && workspace.info.expiresAt < now) {
+        await this.remove(id);
+        cleaned++;
+      }
+    }
+
+    const config = await getWorkspaceConfig();
+    const cutoff = now.getTime() - config.expiryMinutes * 60 * 1000;
+    const entries = await fs.readdir(config.root, { withFileTypes: true }).catch(() => []);
+    for (const entry of entries) {
+      if (
+        !entry.isDirectory() ||
+        !WORKSPACE_NAME_REGEX.test(entry.name) ||
+        this.workspaces.has(entry.name)
+      ) {
+        continue;
+      }
+      const dir = path.join(config.root, entry.name);
+      const stats = await fs.stat(dir);
+      if (stats.mtimeMs < cutoff) {
+        await fs.rm(dir, { recursive: true, force: true });
+        cleaned++;
+      }
+    }
+
+    if (cleaned > 0) {
+      console.error(`[workspace] Cleaned up ${cleaned} expired workspaces`);
+    }
+    return cleaned;
+  }
+
+  shutdown(): void {
+    if (this.cleanupInterval) {
+      clearInterval(this.cleanupInterval);
+      this.cleanupInterval = null;
+    }
+    console.error("[workspace] Shutdown");
+  }
+
+  private async collectManifest(workspace: Workspace): Promise<WorkspaceManifest> {
+    const config = await getWorkspaceConfig();
+    workspace.active = false;
+    workspace.info.expiresAt = new Date(Date.now() + config.expiryMinutes * 60 * 1000);
+
+    const after = await snapshotDirectory(workspace.info.path);
+    const changed = [...after].filter(([name, stats]) => {
+      const previous = workspace.before.get(name);
+      return !previous || previous.size !== stats.size || previous.mtimeMs !== stats.mtimeMs;
+    });
+
+    const artifacts: Artifact[] = [];
+    for (const [name, stats] of changed.slice(0, MAX_ARTIFACTS)) {
+      const fullPath = path.join(workspace.info.path, name);
+      artifacts.push({
+        path: fullPath,
+        name,
+        size: stats.size,
+        mimeType: getMimeType(fullPath),
+        sha256: await hashFile(fullPath),
+        change: workspace.before.has(name) ? "modified" : "created",
+      });
+    }
+
+    console.error(`[workspace] Finished: ${workspace.info.path} (${changed.length} files)`);
+    return {
+      ...workspace.info,
+      artifacts,
+      truncated: changed.length > MAX_ARTIFACTS ? true : undefined,
+    };
+  }
+
+  private ensureCleanupInterval(): void {
+    if (this.cleanupInterval) {
+      return;
+    }
+    // Cleanup every 5 minutes
+    this.cleanupInterval = setInterval(() => {
+      this.cleanup().catch((err) => {
+        console.error("[workspace] Cleanup error:", err);
+      });
+    }, 5 * 60 * 1000);
+  }
+}
+
+// Singleton instance
+let managerInstance: WorkspaceManager | null = null;
+
+export function getWorkspaceManager(): WorkspaceManager {
+  if (!managerInstance) {
+    managerInstance = new WorkspaceManager();
+  }
+  return managerInstance;
+}
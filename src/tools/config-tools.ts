@@ -0,0 +1,304 @@
+/**
+ * Config Tools
+ * MCP tools to inspect the proxy's policy and, with the user's approval, prune it
+ */
+import {
+  DEFAULT_BLOCKED_COMMANDS,
+  DEFAULT_BLOCKED_DOMAINS,
+  type AllowEntry,
+  type CommandPin,
+  type DenyEntry,
+  type ProxyConfig,
+} from "../config/defaults.js";
+import { normalizeDomainEntry } from "../config/domain-pattern.js";
+import { formatConfigIssue } from "../config/schema.js";
+import {
+  extractCommand,
+  extractDomain,
+  getConfig,
+  getConfigDiagnostics,
+  getConfigPath,
+  removeCommandFromAllowlist,
+  removeCommandFromDenylist,
+  removeDomainFromAllowlist,
+  removeDomainFromDenylist,
+  resetConfig,
+} from "../config/manager.js";
+import { approvalPageHint, requestApproval } from "../utils/approval.js";
+import { CANCELLED_MESSAGE } from "../utils/cancellation.js";
+
+export interface ConfigToolOptions {
+  /** Withdraws a pending approval when the client cancels */
+  signal?: AbortSignal;
+}
+
+export interface BlocklistEntry {
+  pattern: string;
+  /** Built into the proxy, or added by the user in config.json */
+  source: "default" | "user";
+}
+
+// ============================================================================
+// config_show Tool
+// ============================================================================
+
+export interface ConfigShowResponse {
+  status: "success" | "error";
+  config_path?: string;
+  /** Problems in config.json; the affected fields use their defaults */
+  config_issues?: string[];
+  /** Copy of config.json taken before it was last overwritten */
+  config_backup?: string;
+  domains?: {
+    allowed: string[];
+    /** Time-limited and scoped approvals */
+    approvals: AllowEntry[];
+    denied: DenyEntry[];
+    blocked: BlocklistEntry[];
+  };
+  commands?: {
+    allowed: string[];
+    approvals: AllowEntry[];
+    denied: DenyEntry[];
+    blocked: BlocklistEntry[];
+    pinned: CommandPin[];
+  };
+  settings?: Pick<
+    ProxyConfig,
+    "approval" | "fetch" | "exec" | "workspace" | "envPolicy" | "fileServer" | "commandPolicies"
+  >;
+  recipes?: string[];
+  error?: string;
+}
+
+function withSource(patterns: string[], defaults: string[]): BlocklistEntry[] {
+  return patterns.map((pattern) => ({
+    pattern,
+    source: defaults.includes(pattern) ? "default" : "user",
+  }));
+}
+
+/**
+ * Returns the effective policy: allow, deny and block lists plus settings
+ */
+export async function configShow(): Promise<ConfigShowResponse> {
+  try {
+    const config = await getConfig();
+    const diagnostics = await getConfigDiagnostics();
+    const ofKind = <T extends { kind: string }>(entries: T[] | undefined, kind: string) =>
+      (entries ?? []).filter((entry) => entry.kind === kind);
+
+    return {
+      status: "success",
+      config_path: getConfigPath(),
+      config_issues: diagnostics.issues.length > 0 ? diagnostics.issues.map(formatConfigIssue) : undefined,
+      config_backup: diagnostics.backupPath,
+      domains: {
+        allowed: config.allowedDomains,
+        approvals: ofKind(config.allowEntries, "domain"),
+        denied: ofKind(config.denyEntries, "domain"),
+        blocked: withSource(config.blockedDomains, DEFAULT_BLOCKED_DOMAINS),
+      },
+      commands: {
+        allowed: config.allowedCommands,
+        approvals: ofKind(config.allowEntries, "command"),
+        denied: ofKind(config.denyEntries, "command"),
+        blocked: withSource(config.blockedCommands, DEFAULT_BLOCKED_COMMANDS),
+        pinned: config.pinnedCommands ?? [],
+      },
+      settings: {
+        approval: config.approval,
+        fetch: config.fetch,
+        exec: config.exec,
+        workspace: config.workspace,
+        envPolicy: config.envPolicy,
+        fileServer: config.fileServer,
+        commandPolicies: config.commandPolicies,
+      },
+      recipes: Object.keys(config.recipes ?? {}),
+    };
+  } catch (error) {
+    const msg = error instanceof Error ? error.message : String(error);
+    return { status: "error", error: msg };
+  }
+}
+
+export const configShowToolDefinition = {
+  name: "config_show",
+  description:
+    "Show the proxy's effective policy: allowed, denied and blocked domains and commands (with whether each blocklist entry is a built-in default or added by the user), time-limited approvals, pinned binaries and settings, plus any problems found in the config file. Read-only.",
+  inputSchema: {
+    type: "object" as const,
+    properties: {},
+  },
+};
+
+// ============================================================================
+// Mutating tools (config_remove, config_reset)
+// ============================================================================
+
+export interface ConfigChangeResponse {
+  status: "success" | "needs_approval" | "cancelled" | "error";
+  message?: string;
+  /** Page listing pending approvals (needs_approval) */
+  approval_url?: string;
+  error?: string;
+}
+
+/**
+ * Asks the user to apply a config change
+ * Returns a response to send back when the change must not be applied, or null
+ */
+async function approveChange(
+  change: string,
+  detail: string,
+  signal?: AbortSignal
+): Promise<ConfigChangeResponse | null> {
+  console.error(`[config_tools] Change needs approval: ${change}`);
+  const { decision, approvalUrl } = await requestApproval({ kind: "config", target: change, detail }, signal);
+
+  if (signal?.aborted) {
+    return { status: "cancelled", error: CANCELLED_MESSAGE };
+  }
+  if (decision === "timeout") {
+    return {
+      status: "needs_approval",
+      message: `No decision was made in time. Ask the user to approve the change when prompted, then retry.${approvalPageHint(approvalUrl)}`,
+      approval_url: approvalUrl,
+    };
+  }
+  if (decision !== "once") {
+    console.error(`[config_tools] Change rejected by user: ${change}`);
+    return { status: "error", error: "The user rejected the change." };
+  }
+  return null;
+}
+
+export interface ConfigRemoveInput {
+  list: "allow" | "deny";
+  kind: "domain" | "command";
+  target: string;
+}
+
+/**
+ * Removes a domain or command from the allowlist or the user's denylist,
+ * after the user approves
+ */
+export async function configRemove(
+  input: ConfigRemoveInput,
+  options: ConfigToolOptions = {}
+): Promise<ConfigChangeResponse> {
+  if (input.list !== "allow" && input.list !== "deny") {
+    return { status: "error", error: "list must be \"allow\" or \"deny\"" };
+  }
+  if (input.kind !== "domain" && input.kind !== "command") {
+    return { status: "error", error: "kind must be \"domain\" or \"command\"" };
+  }
+  if (!input.target || typeof input.target !== "string") {
+    return { status: "error", error: "Missing or invalid 'target' parameter" };
+  }
+
+  try {
+    const config = await getConfig();
+    const listName = input.list === "allow" ? "allowlist" : "denylist";
+
+    // Only ask the user about entries that exist
+    let target: string;
+    let exists: boolean;
+    if (input.list === "allow") {
+      target = input.kind === "domain" ? normalizeDomainEntry(input.target) : extractCommand(input.target);
+      const allowed = input.kind === "domain" ? config.allowedDomains : config.allowedCommands;
+      exists =
+        allowed.includes(target) ||
+        (config.allowEntries ?? []).some((e) => e.kind === input.kind && e.target === target);
+    } else {
+      target = input.kind === "domain" ? extractDomain(input.target) : extractCommand(input.target);
+      exists = (config.denyEntries ?? []).some((e) => e.kind === input.kind && e.target === target);
+    }
+    if (!exists) {
+      return { status: "error", error: `${input.kind === "domain" ? "Domain" : "Command"} "${target}" is not in the ${listName}` };
+    }
+
+    const change = `Remove ${input.kind} "${target}" from the ${listName}`;
+    const rejected = await approveChange(
+      change,
+      input.list === "allow"
+        ? `Requests for "${target}" will need approval again.`
+        : `"${target}" will no longer be refused without asking.`,
+      options.signal
+    );
+    if (rejected) {
+      return rejected;
+    }
+
+    if (input.list === "allow") {
+      await (input.kind === "domain" ? removeDomainFromAllowlist(target) : removeCommandFromAllowlist(target));
+    } else {
+      await (input.kind === "domain" ? removeDomainFromDenylist(target) : removeCommandFromDenylist(target));
+    }
+    return { status: "success", message: `Removed ${input.kind} "${target}" from the ${listName}.` };
+  } catch (error) {
+    const msg = error instanceof Error ? error.message : String(error);
+    return { status: "error", error: msg };
+  }
+}
+
+export const configRemoveToolDefinition = {
+  name: "config_remove",
+  description:
+    "Remove a domain or command from the allowlist (including its time-limited approvals) or from the user's denylist. The user must approve the change; the model cannot change the policy on its own.",
+  inputSchema: {
+    type: "object" as const,
+    properties: {
+      list: {
+        type: "string",
+        enum: ["allow", "deny"],
+        description: "Which list to remove the entry from",
+      },
+      kind: {
+        type: "string",
+        enum: ["domain", "command"],
+        description: "Whether the entry is a domain pattern or a command",
+      },
+      target: {
+        type: "string",
+        description: "The domain pattern or command name, as shown by config_show",
+      },
+    },
+    required: ["list", "kind", "target"],
+  },
+};
+
+/**
+ * Resets the configuration to defaults, after the user approves
+ */
+export async function configReset(options: ConfigToolOptions = {}): Promise<ConfigChangeResponse> {
+  try {
+    const config = await getConfig();
+    const approvals = (config.allowEntries ?? []).length + (config.denyEntries ?? []).length;
+    const rejected = await approveChange(
+      "Reset the configuration to defaults",
+      `Clears ${config.allowedDomains.length} allowed domains, ${config.allowedCommands.length} allowed commands, ${approvals} time-limited approvals and denials, pins, recipes and custom settings in ${getConfigPath()}.`,
+      options.signal
+    );
+    if (rejected) {
+      return rejected;
+    }
+
+    await resetConfig();
+    return { status: "success", message: "Configuration reset to defaults." };
+  } catch (error) {
+    const msg = error instanceof Error ? error.message : String(error);
+    return { status: "error", error: msg };
+  }
+}
+
+export const configResetToolDefinition = {
+  name: "config_reset",
+  description:
+    "Reset the proxy configuration to its defaults, clearing all allowlists, denials, pins, recipes and custom settings. The user must approve the reset.",
+  inputSchema: {
+    type: "object" as const,
+    properties: {},
+  },
+};
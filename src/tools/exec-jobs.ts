@@ -0,0 +1,521 @@
+/**
+ * Exec Job Tools
+ * MCP tools for polling and cancelling background network_exec jobs,
+ * and for reading the spooled output of finished commands
+ */
+import * as fs from "node:fs";
+import * as readline from "node:readline";
+import { getEgressProxy } from "../server/egress-proxy.js";
+import { getJobManager, type JobInfo } from "../server/job-manager.js";
+import { getOutputSpool, type OutputStream } from "../server/output-spool.js";
+import {
+  getWorkspaceManager,
+  type WorkspaceManifest,
+} from "../server/workspace-manager.js";
+
+// Default bytes returned per stream by exec_job_output
+const DEFAULT_OUTPUT_BYTES = 64 * 1024;
+// Upper bound on bytes returned per stream by exec_job_output
+const MAX_OUTPUT_BYTES = 1024 * 1024;
+// Default and maximum lines returned by exec_output
+const DEFAULT_OUTPUT_LINES = 200;
+const MAX_OUTPUT_LINES = 5000;
+// Default and maximum matches returned by an exec_output search
+const DEFAULT_MAX_MATCHES = 50;
+const MAX_MATCHES = 500;
+// Matching lines longer than this are cut
+const MAX_MATCH_LINE_LENGTH = 1000;
+
+// ============================================================================
+// exec_job_status Tool
+// ============================================================================
+
+export interface ExecJobStatusInput {
+  job_id?: string;
+}
+
+export interface ExecJobStatusResponse {
+  status: "success" | "error";
+  job?: JobInfo;
+  jobs?: JobInfo[];
+  /** Files the job created or modified in its workspace (once it has finished) */
+  workspace?: WorkspaceManifest;
+  error?: string;
+}
+
+export async function execJobStatus(
+  input: ExecJobStatusInput
+): Promise<ExecJobStatusResponse> {
+  const manager = getJobManager();
+
+  if (!input.job_id) {
+    return {
+      status: "success",
+      jobs: manager.list(),
+    };
+  }
+
+  const job = manager.get(input.job_id);
+  if (!job) {
+    return {
+      status: "error",
+      error: `Job not found: ${input.job_id}`,
+    };
+  }
+
+  const workspace =
+    job.workspaceId && job.state !== "running"
+      ? await getWorkspaceManager().finish(job.workspaceId).catch(() => undefined)
+      : undefined;
+
+  return {
+    status: "success",
+    job,
+    workspace,
+  };
+}
+
+export const execJobStatusToolDefinition = {
+  name: "exec_job_status",
+  description:
+    "Check the status of a background network_exec job (state, exit code, duration, output sizes). Omit job_id to list all jobs.",
+  inputSchema: {
+    type: "object" as const,
+    properties: {
+      job_id: {
+        type: "string",
+        description: "ID of the job returned by network_exec with background: true",
+      },
+    },
+    required: [],
+  },
+};
+
+// ============================================================================
+// exec_job_output Tool
+// ============================================================================
+
+export interface ExecJobOutputInput {
+  job_id: string;
+  stdout_offset?: number;
+  stderr_offset?: number;
+  max_bytes?: number;
+}
+
+export interface ExecJobOutputResponse {
+  status: "success" | "error";
+  state?: JobInfo["state"];
+  exitCode?: number | null;
+  stdout?: string;
+  stderr?: string;
+  /** Pass these back to read the next chunk of output */
+  stdout_offset?: number;
+  stderr_offset?: number;
+  stdout_total_bytes?: number;
+  stderr_total_bytes?: number;
+  warning?: string;
+  error?: string;
+}
+
+export async function execJobOutput(
+  input: ExecJobOutputInput
+): Promise<ExecJobOutputResponse> {
+  const manager = getJobManager();
+  const job = manager.get(input.job_id);
+
+  if (!job) {
+    return {
+      status: "error",
+      error: `Job not found: ${input.job_id}`,
+    };
+  }
+
+  const maxBytes = Math.min(
+    input.max_bytes ?? DEFAULT_OUTPUT_BYTES,
+    MAX_OUTPUT_BYTES
+  );
+  const stdoutOffset = input.stdout_offset ?? 0;
+  const stderrOffset = input.stderr_offset ?? 0;
+  const output = manager.readOutput(
+    input.job_id,
+    stdoutOffset,
+    stderrOffset,
+    maxBytes
+  )!;
+
+  const dropped =
+    stdoutOffset < output.stdout.droppedBytes ||
+    stderrOffset < output.stderr.droppedBytes;
+
+  return {
+    status: "success",
+    state: job.state,
+    exitCode: job.exitCode,
+    stdout: output.stdout.data,
+    stderr: output.stderr.data,
+    stdout_offset: output.stdout.nextOffset,
+    stderr_offset: output.stderr.nextOffset,
+    stdout_total_bytes: output.stdout.totalBytes,
+    stderr_total_bytes: output.stderr.totalBytes,
+    warning: dropped
+      ? `Some earlier output was dropped by the retention limit; reading from the oldest retained byte.${job.outputId ? " exec_output with this job_id has the full output." : ""}`
+      : undefined,
+  };
+}
+
+export const execJobOutputToolDefinition = {
+  name: "exec_job_output",
+  description:
+    "Read stdout/stderr of a background network_exec job incrementally. Pass back the returned stdout_offset/stderr_offset to get only new output.",
+  inputSchema: {
+    type: "object" as const,
+    properties: {
+      job_id: {
+        type: "string",
+        description: "ID of the job",
+      },
+      stdout_offset: {
+        type: "number",
+        description: "Byte offset to read stdout from (default: 0)",
+      },
+      stderr_offset: {
+        type: "number",
+        description: "Byte offset to read stderr from (default: 0)",
+      },
+      max_bytes: {
+        type: "number",
+        description: "Maximum bytes to return per stream (default: 65536, max: 1048576)",
+      },
+    },
+    required: ["job_id"],
+  },
+};
+
+// ============================================================================
+// exec_job_cancel Tool
+// ============================================================================
+
+export interface ExecJobCancelInput {
+  job_id: string;
+}
+
+export interface ExecJobCancelResponse {
+  status: "success" | "error";
+  job?: JobInfo;
+  error?: string;
+}
+
+export async function execJobCancel(
+  input: ExecJobCancelInput
+): Promise<ExecJobCancelResponse> {
+  const manager = getJobManager();
+  const job = manager.get(input.job_id);
+
+  if (!job) {
+    return {
+      status: "error",
+      error: `Job not found: ${input.job_id}`,
+    };
+  }
+
+  if (!manager.cancel(input.job_id)) {
+    return {
+      status: "error",
+      job,
+      error: `Job ${input.job_id} is not running (state: ${job.state})`,
+    };
+  }
+
+  return {
+    status: "success",
+    job: manager.get(input.job_id),
+  };
+}
+
+export const execJobCancelToolDefinition = {
+  name: "exec_job_cancel",
+  description: "Cancel a running background network_exec job (SIGTERM, then SIGKILL after 5 seconds).",
+  inputSchema: {
+    type: "object" as const,
+    properties: {
+      job_id: {
+        type: "string",
+        description: "ID of the job to cancel",
+      },
+    },
+    required: ["job_id"],
+  },
+};
+
+// ============================================================================
+// exec_output Tool
+// ============================================================================
+
+export interface ExecOutputInput {
+  output_id: string;
+  stream?: OutputStream;
+  offset?: number;
+  length?: number;
+  start_line?: number;
+  end_line?: number;
+  tail?: number;
+  pattern?: string;
+  ignore_case?: boolean;
+  max_matches?: number;
+}
+
+export interface ExecOutputMatch {
+  line: number;
+  text: string;
+}
+
+export interface ExecOutputResponse {
+  status: "success" | "error";
+  stream?: OutputStream;
+  data?: string;
+  /** Byte range returned (byte reads) */
+  offset?: number;
+  next_offset?: number;
+  /** Line range returned, 1-based and inclusive (line reads and tail) */
+  start_line?: number;
+  end_line?: number;
+  matches?: ExecOutputMatch[];
+  /** All matches in the output, including ones beyond max_matches */
+  total_matches?: number;
+  total_bytes?: number;
+  /** Only set when the whole output was scanned */
+  total_lines?: number;
+  /** The command is still running, so more output may follow */
+  running?: boolean;
+  /** Output beyond the spool's size limit was not kept */
+  truncated?: boolean;
+  error?: string;
+}
+
+/**
+ * Calls back for every line of a file (1-based line numbers)
+ * Returns the number of lines.
+ */
+async function forEachLine(
+  filePath: string,
+  callback: (line: string, lineNumber: number) => void
+): Promise<number> {
+  const lines = readline.createInterface({
+    input: fs.createReadStream(filePath),
+    crlfDelay: Infinity,
+  });
+  let lineNumber = 0;
+  for await (const line of lines) {
+    lineNumber++;
+    callback(line, lineNumber);
+  }
+  return lineNumber;
+}
+
+async function readByteRange(
+  filePath: string,
+  offset: number,
+  length: number
+): Promise<Buffer> {
+  const handle = await fs.promises.open(filePath, "r");
+  try {
+    const buffer = Buffer.alloc(length);
+    const { bytesRead } = await handle.read(buffer, 0, length, offset);
+    return buffer.subarray(0, bytesRead);
+  } finally {
+    await handle.close();
+  }
+}
+
+export async function execOutput(
+  input: ExecOutputInput
+): Promise<ExecOutputResponse> {
+  const spool = getOutputSpool();
+  // A background job's id stands for its output
+  const outputId = getJobManager().get(input.output_id)?.outputId ?? input.output_id;
+  const info = spool.get(outputId);
+  if (!info) {
+    return {
+      status: "error",
+      error: `Output not found: ${input.output_id}. Output is kept for an hour after the command finishes.`,
+    };
+  }
+
+  const stream = input.stream ?? "stdout";
+  const filePath = spool.getPath(outputId, stream);
+  if (!filePath) {
+    return {
+      status: "error",
+      error: `${stream} was not spooled for this command (stdout_encoding "file" writes it to stdoutFile instead).`,
+    };
+  }
+
+  const modes = [
+    input.offset !== undefined || input.length !== undefined,
+    input.start_line !== undefined || input.end_line !== undefined,
+    input.tail !== undefined,
+    input.pattern !== undefined,
+  ].filter(Boolean).length;
+  if (modes > 1) {
+    return {
+      status: "error",
+      error: "Use only one of offset/length, start_line/end_line, tail or pattern.",
+    };
+  }
+
+  const common = {
+    status: "success" as const,
+    stream,
+    total_bytes: stream === "stdout" ? info.stdoutBytes : info.stderrBytes,
+    running: info.completedAt ? undefined : true,
+    truncated: info.truncated.includes(stream) || undefined,
+  };
+
+  if (input.pattern !== undefined) {
+    let regex: RegExp;
+    try {
+      regex = new RegExp(input.pattern, input.ignore_case ? "i" : "");
+    } catch (error) {
+      return {
+        status: "error",
+        error: `Invalid pattern: ${error instanceof Error ? error.message : String(error)}`,
+      };
+    }
+    const maxMatches = Math.min(input.max_matches ?? DEFAULT_MAX_MATCHES, MAX_MATCHES);
+    const matches: ExecOutputMatch[] = [];
+    let totalMatches = 0;
+    const totalLines = await forEachLine(filePath, (line, lineNumber) => {
+      if (!regex.test(line)) {
+        return;
+      }
+      totalMatches++;
+      if (matches.length < maxMatches) {
+        matches.push({ line: lineNumber, text: line.slice(0, MAX_MATCH_LINE_LENGTH) });
+      }
+    });
+    return { ...common, matches, total_matches: totalMatches, total_lines: totalLines };
+  }
+
+  if (input.tail !== undefined) {
+    const count = Math.max(0, Math.min(input.tail, MAX_OUTPUT_LINES));
+    const lastLines: string[] = [];
+    const totalLines = await forEachLine(filePath, (line) => {
+      lastLines.push(line);
+      if (lastLines.length > count) {
+        lastLines.shift();
+      }
+    });
+    return {
+      ...common,
+      data: lastLines.join("\n"),
+      start_line: totalLines - lastLines.length + 1,
+      end_line: totalLines,
+      total_lines: totalLines,
+    };
+  }
+
+  if (input.start_line !== undefined || input.end_line !== undefined) {
+    const startLine = Math.max(1, input.start_line ?? 1);
+    const endLine = Math.min(
+      input.end_line ?? startLine + DEFAULT_OUTPUT_LINES - 1,
+      startLine + MAX_OUTPUT_LINES - 1
+    );
+    const selected: string[] = [];
+    let bytes = 0;
+    let full = false;
+    const totalLines = await forEachLine(filePath, (line, lineNumber) => {
+      if (lineNumber < startLine || lineNumber > endLine || full) {
+        return;
+      }
+      bytes += Buffer.byteLength(line) + 1;
+      if (bytes > MAX_OUTPUT_BYTES && selected.length > 0) {
+        full = true;
+        return;
+      }
+      selected.push(line);
+    });
+    return {
+      ...common,
+      data: selected.join("\n"),
+      start_line: startLine,
+      end_line: startLine + selected.length - 1,
+      total_lines: totalLines,
+    };
+  }
+
+  const offset = Math.max(0, input.offset ?? 0);
+  const length = Math.max(0, Math.min(input.length ?? DEFAULT_OUTPUT_BYTES, MAX_OUTPUT_BYTES));
+  const data = await readByteRange(filePath, offset, length);
+  return {
+    ...common,
+    data: data.toString("utf8"),
+    offset,
+    next_offset: offset + data.length,
+  };
+}
+
+export const execOutputToolDefinition = {
+  name: "exec_output",
+  description:
+    "Read the full stdout/stderr of a network_exec command by its output_id, or of a background job by its job id (network_exec only returns the head and tail of long output, exec_job_output only the last 10 MB). Read a byte range, a line range, the last lines, or search with a regex. Output is kept for an hour after the command finishes.",
+  inputSchema: {
+    type: "object" as const,
+    properties: {
+      output_id: {
+        type: "string",
+        description: "outputId returned by network_exec, or the jobId of a background job",
+      },
+      stream: {
+        type: "string",
+        enum: ["stdout", "stderr"],
+        description: "Stream to read (default: stdout)",
+      },
+      offset: {
+        type: "number",
+        description: "Byte offset to read from (default: 0)",
+      },
+      length: {
+        type: "number",
+        description: "Bytes to read (default: 65536, max: 1048576)",
+      },
+      start_line: {
+        type: "number",
+        description: "First line to read, 1-based",
+      },
+      end_line: {
+        type: "number",
+        description: "Last line to read, inclusive (default: start_line + 199, max 5000 lines)",
+      },
+      tail: {
+        type: "number",
+        description: "Read the last N lines (max: 5000)",
+      },
+      pattern: {
+        type: "string",
+        description: "Regular expression; returns the matching lines with their line numbers",
+      },
+      ignore_case: {
+        type: "boolean",
+        description: "Case-insensitive pattern matching",
+      },
+      max_matches: {
+        type: "number",
+        description: "Maximum matches to return (default: 50, max: 500)",
+      },
+    },
+    required: ["output_id"],
+  },
+};
+
+// ============================================================================
+// Shutdown handler for clean exit
+// ============================================================================
+
+export async function shutdownExecJobs(): Promise<void> {
+  console.error("[exec_jobs] Shutting down...");
+  // Jobs may still be writing to their workspaces and spool files
+  await getJobManager().shutdown();
+  getWorkspaceManager().shutdown();
+  getOutputSpool().shutdown();
+  getEgressProxy().stop();
+}
@@ -4,12 +4,16 @@
  */
 import * as fs from "node:fs/promises";
 import * as path from "node:path";
+import { getConfigDiagnostics } from "../config/manager.js";
+import { formatConfigIssue } from "../config/schema.js";
+import { getApprovalQueue } from "../server/approval-queue.js";
 import {
   getFileRegistry,
   initializeFileRegistry,
 } from "../server/file-registry.js";
 import { getHttpServer, startHttpServer } from "../server/http-server.js";
 import { getTunnelManager, startTunnel, stopTunnel } from "../server/tunnel-manager.js";
+import { CANCELLED_MESSAGE } from "../utils/cancellation.js";
 import { isBlockedPath } from "../utils/file-blocklist.js";
 
 // ============================================================================
@@ -23,8 +27,13 @@ export interface FileServeInput {
   content_type?: string;
 }
 
+export interface FileServeOptions {
+  /** Aborts the copy and skips tunnel startup when the client cancels */
+  signal?: AbortSignal;
+}
+
 export interface FileServeResponse {
-  status: "success" | "error";
+  status: "success" | "cancelled" | "error";
   url?: string;
   local_url?: string;
   file_id?: string;
@@ -35,7 +44,10 @@ export interface FileServeResponse {
 
 const MAX_FILE_SIZE = 100 * 1024 * 1024; // 100MB
 
-export async function fileServe(input: FileServeInput): Promise<FileServeResponse> {
+export async function fileServe(
+  input: FileServeInput,
+  options: FileServeOptions = {}
+): Promise<FileServeResponse> {
   const filePath = input.path;
 
   // Validate input
@@ -80,6 +92,7 @@ export async function fileServe(input: FileServeInput): Promise<FileServeRespons
       filename: input.filename,
       contentType: input.content_type,
       expiryMinutes: input.expiry_minutes,
+      signal: options.signal,
     });
 
     // Start HTTP server if needed
@@ -112,6 +125,12 @@ export async function fileServe(input: FileServeInput): Promise<FileServeRespons
       warning = `Tunnel unavailable: ${msg}. Use local_url for testing.`;
     }
 
+    // Don't leave a served copy behind for a request nobody is waiting on
+    if (options.signal?.aborted) {
+      await registry.removeFile(registration.id);
+      throw options.signal.reason;
+    }
+
     console.error(
       `[file_serve] SUCCESS: ${registration.id} -> ${publicUrl || localUrl}`
     );
@@ -125,6 +144,14 @@ export async function fileServe(input: FileServeInput): Promise<FileServeRespons
       warning,
     };
   } catch (error) {
+    if (options.signal?.aborted) {
+      console.error(`[file_serve] Cancelled: ${filePath}`);
+      return {
+        status: "cancelled",
+        error: CANCELLED_MESSAGE,
+      };
+    }
+
     const err = error as NodeJS.ErrnoException;
 
     if (err.code === "ENOENT") {
@@ -190,6 +217,10 @@ export interface FileServerStatusResponse {
   tunnel_uptime_seconds?: number;
   files_served: number;
   total_size_bytes: number;
+  /** Problems in config.json; the affected fields use their defaults */
+  config_issues?: string[];
+  /** Copy of config.json taken before it was last overwritten */
+  config_backup?: string;
 }
 
 export async function fileServerStatus(): Promise<FileServerStatusResponse> {
@@ -197,6 +228,7 @@ export async function fileServerStatus(): Promise<FileServerStatusResponse> {
   const tunnelManager = getTunnelManager();
   const registry = getFileRegistry();
   const stats = registry.getStats();
+  const diagnostics = await getConfigDiagnostics();
 
   return {
     server_running: httpServer.isRunning(),
@@ -207,12 +239,14 @@ export async function fileServerStatus(): Promise<FileServerStatusResponse> {
     tunnel_uptime_seconds: tunnelManager.getUptime() ?? undefined,
     files_served: stats.filesServed,
     total_size_bytes: stats.totalSize,
+    config_issues: diagnostics.issues.length > 0 ? diagnostics.issues.map(formatConfigIssue) : undefined,
+    config_backup: diagnostics.backupPath,
   };
 }
 
 export const fileServerStatusToolDefinition = {
   name: "file_server_status",
-  description: "Check the status of the file server and tunnel",
+  description: "Check the status of the file server and tunnel, and report any problems in the proxy's config file",
   inputSchema: {
     type: "object" as const,
     properties: {},
@@ -307,5 +341,6 @@ export function shutdownFileServer(): void {
   console.error("[file_serve] Shutting down...");
   stopTunnel();
   getFileRegistry().shutdown();
+  getApprovalQueue().shutdown();
   // Note: HTTP server will be stopped when process exits
 }
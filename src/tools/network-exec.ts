@@ -9,23 +9,79 @@
  */
 
 import { spawn } from "node:child_process";
+import * as fs from "node:fs";
 import * as path from "node:path";
+import { finished } from "node:stream/promises";
 import {
   isCommandAllowed,
   addCommandToAllowlist,
+  addCommandToDenylist,
+  findDenyEntry,
+  explainCommand,
+  getCommandLimits,
+  getCommandPolicy,
+  getEgressPolicy,
+  getEnvPolicy,
+  getExecConfig,
 } from "../config/manager.js";
+import { getEgressProxy, type EgressSession } from "../server/egress-proxy.js";
+import { getExecQueue } from "../server/exec-queue.js";
+import { getJobManager } from "../server/job-manager.js";
+import { getOutputSpool } from "../server/output-spool.js";
+import {
+  getWorkspaceManager,
+  type WorkspaceInfo,
+  type WorkspaceManifest,
+} from "../server/workspace-manager.js";
+import { approvalPageHint, requestApproval } from "../utils/approval.js";
+import { resolveCommand } from "../utils/binary.js";
+import { CANCELLED_MESSAGE, onAbort } from "../utils/cancellation.js";
+import { egressOverrideFlags, evaluateCommandPolicy } from "../utils/command-policy.js";
+import { buildCommandEnv, validateInputEnv } from "../utils/env.js";
+import {
+  applyResourceLimits,
+  describeLimit,
+  detectLimitExceeded,
+  watchCpuTime,
+  terminateProcess,
+  type ResourceLimitName,
+} from "../utils/process.js";
+import {
+  OutputProgressParser,
+  type ProgressCallback,
+} from "../utils/progress.js";
+import {
+  AnsiStripper,
+  DEFAULT_TERMINAL_SIZE,
+  wrapInPty,
+} from "../utils/pty.js";
 import { checkRateLimit } from "../utils/rate-limiter.js";
 
 /**
- * Maximum output size (1MB each for stdout/stderr)
+ * Maximum output returned inline (1MB each for stdout/stderr, head and tail)
  */
 const MAX_OUTPUT_SIZE = 1 * 1024 * 1024;
 
+/**
+ * Maximum stdin size (10MB)
+ */
+const MAX_STDIN_SIZE = 10 * 1024 * 1024;
+
+/**
+ * Name of the file stdout is written to with stdout_encoding "file"
+ */
+const STDOUT_FILE_NAME = "stdout";
+
 /**
  * Default timeout in milliseconds
  */
 const DEFAULT_TIMEOUT = 60000;
 
+/**
+ * Default timeout for background jobs (1 hour)
+ */
+const DEFAULT_BACKGROUND_TIMEOUT = 60 * 60 * 1000;
+
 /**
  * Shell operators that are not allowed in arguments
  * These could be used for shell injection if we weren't using spawn()
@@ -68,23 +124,72 @@ export interface NetworkExecInput {
   cwd?: string;
   env?: Record<string, string>;
   timeout?: number;
-  approve?: "once" | "always";
+  background?: boolean;
+  workspace?: boolean;
+  stdin?: string;
+  stdin_encoding?: "utf8" | "base64";
+  stdout_encoding?: StdoutEncoding;
+  pty?: boolean;
+  pty_cols?: number;
+  pty_rows?: number;
+  preserve_ansi?: boolean;
+}
+
+/**
+ * How stdout is returned: text, base64 of the raw bytes, or a file path
+ */
+export type StdoutEncoding = "utf8" | "base64" | "file";
+
+/**
+ * Options passed by the server, not by the model
+ */
+export interface NetworkExecOptions {
+  /** Reports progress parsed from the command's output (yt-dlp, ffmpeg) */
+  onProgress?: ProgressCallback;
+  /** Aborts when the client cancels the request; the command is terminated */
+  signal?: AbortSignal;
 }
 
 /**
  * Response from the network_exec tool
  */
 export interface NetworkExecResponse {
-  status: "success" | "needs_approval" | "error";
-  // For needs_approval
+  status: "success" | "started" | "needs_approval" | "denied" | "cancelled" | "error";
+  // For needs_approval and denied
   command?: string;
   message?: string;
+  /** Page listing pending approvals (needs_approval) */
+  approvalUrl?: string;
+  /** Why the user denied the command */
+  reason?: string;
+  // For started (background jobs)
+  jobId?: string;
+  pid?: number;
   // For success
   exitCode?: number;
   stdout?: string;
+  stdoutEncoding?: StdoutEncoding;
+  /** Total bytes the command wrote to stdout */
+  stdoutBytes?: number;
+  /** stdout was longer than the returned data (utf8/base64 modes) */
+  stdoutTruncated?: boolean;
+  /** File holding stdout (file mode) */
+  stdoutFile?: string;
   stderr?: string;
+  stderrBytes?: number;
+  /** Full output, readable with exec_output */
+  outputId?: string;
+  /** Destinations the egress proxy refused ("host:port") */
+  egressDenied?: string[];
   // For error
   error?: string;
+  /** Command policy rule that rejected the arguments */
+  rule?: string;
+  /** Resource limit that stopped the command */
+  limit?: ResourceLimitName;
+  /** Scratch workspace (with the files the command produced, once it has finished) */
+  workspace?: WorkspaceInfo | WorkspaceManifest;
+  warning?: string;
 }
 
 /**
@@ -117,14 +222,63 @@ function validateArgs(args: string[]): { valid: boolean; error?: string } {
 }
 
 /**
- * Truncates a string to the maximum size, adding a message if truncated
+ * Keeps the head and tail of a stream for the response
+ * (the full output is spooled to disk for exec_output)
  */
-function truncateOutput(output: string, maxSize: number): string {
-  if (output.length <= maxSize) {
-    return output;
+class OutputPreview {
+  private head: Buffer[] = [];
+  private headBytes = 0;
+  private tail: Buffer[] = [];
+  private tailBytes = 0;
+  totalBytes = 0;
+
+  constructor(
+    private headSize: number,
+    private tailSize: number
+  ) {}
+
+  append(data: Buffer): void {
+    this.totalBytes += data.length;
+    if (this.headBytes < this.headSize) {
+      const taken = data.subarray(0, this.headSize - this.headBytes);
+      this.head.push(taken);
+      this.headBytes += taken.length;
+      data = data.subarray(taken.length);
+    }
+    if (data.length === 0 || this.tailSize === 0) {
+      return;
+    }
+    this.tail.push(data);
+    this.tailBytes += data.length;
+    // Drop whole chunks that are no longer needed for the tail
+    while (this.tail.length > 1 && this.tailBytes - this.tail[0].length >= this.tailSize) {
+      this.tailBytes -= this.tail.shift()!.length;
+    }
+  }
+
+  /** Bytes left out of the preview */
+  get omittedBytes(): number {
+    return this.totalBytes - this.headBytes - Math.min(this.tailBytes, this.tailSize);
+  }
+
+  /** The first headSize bytes */
+  headBuffer(): Buffer {
+    return Buffer.concat(this.head);
+  }
+
+  /** Head and tail as text, with the omitted middle marked */
+  toText(): string {
+    const head = this.headBuffer();
+    const tail = Buffer.concat(this.tail);
+    if (this.omittedBytes <= 0) {
+      return Buffer.concat([head, tail]).toString("utf8");
+    }
+    return (
+      head.toString("utf8") +
+      `\n\n[... ${this.omittedBytes} bytes omitted, read them with exec_output ...]\n\n` +
+      tail.subarray(tail.length - this.tailSize).toString("utf8")
+    );
   }
-  const truncatedMsg = `\n\n[Output truncated: ${output.length} bytes exceeded ${maxSize} byte limit]`;
-  return output.slice(0, maxSize - truncatedMsg.length) + truncatedMsg;
 }
 
 /**
@@ -138,12 +292,43 @@ function spawnWithTimeout(
     cwd?: string;
     env?: NodeJS.ProcessEnv;
     timeout: number;
+    onProgress?: ProgressCallback;
+    signal?: AbortSignal;
+    /** Written to the child's stdin, which is then closed */
+    stdin?: Buffer;
+    /** How stdout is captured: decoded text, raw bytes as base64, or streamed to stdoutFile */
+    stdoutEncoding: StdoutEncoding;
+    stdoutFile?: string;
+    /** Largest stdoutFile allowed, in bytes */
+    maxStdoutFileSize?: number;
+    /** Spool that receives the full output */
+    outputId?: string;
+    /** Remove ANSI escape codes from stdout (PTY mode) */
+    stripAnsi?: boolean;
+    /** Sample the command's CPU time (when it has a CPU limit) */
+    watchCpu?: boolean;
   }
-): Promise<{ exitCode: number; stdout: string; stderr: string }> {
+): Promise<{
+  exitCode: number;
+  signal: NodeJS.Signals | null;
+  stdout: string;
+  stdoutBytes: number;
+  stdoutTruncated: boolean;
+  stdoutFileLimitExceeded: boolean;
+  stderr: string;
+  stderrBytes: number;
+  cpuSeconds?: number;
+}> {
   return new Promise((resolve, reject) => {
-    let stdout = "";
-    let stderr = "";
+    // base64 output keeps its first bytes; text keeps the head and the tail
+    const stdoutPreview = options.stdoutEncoding === "base64"
+      ? new OutputPreview(MAX_OUTPUT_SIZE, 0)
+      : new OutputPreview(MAX_OUTPUT_SIZE / 2, MAX_OUTPUT_SIZE / 2);
+    const stderrPreview = new OutputPreview(MAX_OUTPUT_SIZE / 2, MAX_OUTPUT_SIZE / 2);
+    let stdoutBytes = 0;
     let killed = false;
+    let cancelled = false;
+    let fileLimitExceeded = false;
 
     const child = spawn(command, args, {
       cwd: options.cwd,
@@ -152,70 +337,165 @@ function spawnWithTimeout(
       shell: false,
     });
 
-    // Set up timeout
+    const cpuSeconds = options.watchCpu ? watchCpuTime(child) : () => undefined;
+
+    // Feed stdin, then close it so commands waiting for input see EOF
+    // (errors such as EPIPE just mean the command exited without reading it)
+    child.stdin.on("error", () => {});
+    child.stdin.end(options.stdin);
+
+    // Set up timeout (SIGTERM, then SIGKILL after 5 seconds)
     const timeoutId = setTimeout(() => {
       killed = true;
-      child.kill("SIGTERM");
-      // Force kill after 5 seconds if SIGTERM doesn't work
-      setTimeout(() => {
-        if (!child.killed) {
-          child.kill("SIGKILL");
-        }
-      }, 5000);
+      terminateProcess(child);
     }, options.timeout);
 
-    // Collect stdout with size limit
+    // Cancellation escalates the same way as the timeout
+    const removeAbortListener = onAbort(options.signal, () => {
+      cancelled = true;
+      terminateProcess(child);
+    });
+
+    // Parse progress lines from both streams when someone is listening
+    const stdoutProgress = options.onProgress && options.stdoutEncoding === "utf8"
+      ? new OutputProgressParser(options.onProgress)
+      : null;
+    const stderrProgress = options.onProgress
+      ? new OutputProgressParser(options.onProgress)
+      : null;
+
+    // In file mode stdout is streamed to disk instead of kept in memory
+    const stdoutFile = options.stdoutEncoding === "file" && options.stdoutFile
+      ? fs.createWriteStream(options.stdoutFile)
+      : null;
+    const stdoutFileDone = stdoutFile
+      ? finished(stdoutFile)
+      : Promise.resolve();
+    if (stdoutFile) {
+      child.stdout.pipe(stdoutFile);
+    }
+
+    const spool = getOutputSpool();
+    const stripper = options.stripAnsi ? new AnsiStripper() : null;
+
+    // Collect stdout previews and spool everything
     child.stdout.on("data", (data: Buffer) => {
-      if (stdout.length < MAX_OUTPUT_SIZE) {
-        stdout += data.toString();
+      if (stripper) {
+        data = Buffer.from(stripper.write(data));
+      }
+      stdoutBytes += data.length;
+      if (stdoutFile) {
+        if (
+          options.maxStdoutFileSize !== undefined &&
+          stdoutBytes > options.maxStdoutFileSize &&
+          !fileLimitExceeded
+        ) {
+          fileLimitExceeded = true;
+          terminateProcess(child);
+        }
+        return;
       }
+      stdoutPreview.append(data);
+      if (options.outputId) {
+        spool.write(options.outputId, "stdout", data);
+      }
+      stdoutProgress?.write(data.toString());
     });
 
-    // Collect stderr with size limit
     child.stderr.on("data", (data: Buffer) => {
-      if (stderr.length < MAX_OUTPUT_SIZE) {
-        stderr += data.toString();
+      stderrPreview.append(data);
+      if (options.outputId) {
+        spool.write(options.outputId, "stderr", data);
       }
+      stderrProgress?.write(data.toString());
     });
 
     // Handle process errors (e.g., command not found)
     child.on("error", (error: Error) => {
       clearTimeout(timeoutId);
+      removeAbortListener();
+      stdoutFile?.destroy();
       reject(error);
     });
 
     // Handle process exit
-    child.on("close", (code: number | null) => {
+    child.on("close", (code: number | null, signal: NodeJS.Signals | null) => {
       clearTimeout(timeoutId);
+      removeAbortListener();
+
+      if (cancelled) {
+        reject(new Error(CANCELLED_MESSAGE));
+        return;
+      }
 
       if (killed) {
         reject(new Error(`Command timed out after ${options.timeout}ms`));
         return;
       }
 
-      resolve({
-        exitCode: code ?? 1,
-        stdout: truncateOutput(stdout, MAX_OUTPUT_SIZE),
-        stderr: truncateOutput(stderr, MAX_OUTPUT_SIZE),
-      });
+      if (stripper) {
+        const rest = Buffer.from(stripper.end());
+        stdoutPreview.append(rest);
+        if (options.outputId) {
+          spool.write(options.outputId, "stdout", rest);
+        }
+      }
+
+      let stdout = "";
+      if (options.stdoutEncoding === "utf8") {
+        stdout = stdoutPreview.toText();
+      } else if (options.stdoutEncoding === "base64") {
+        stdout = stdoutPreview.headBuffer().toString("base64");
+      }
+
+      stdoutFileDone.then(
+        () =>
+          resolve({
+            exitCode: code ?? 1,
+            signal,
+            stdout,
+            stdoutBytes,
+            stdoutTruncated: !stdoutFile && stdoutPreview.omittedBytes > 0,
+            stdoutFileLimitExceeded: fileLimitExceeded,
+            stderr: stderrPreview.toText(),
+            stderrBytes: stderrPreview.totalBytes,
+            cpuSeconds: cpuSeconds(),
+          }),
+        reject
+      );
     });
   });
 }
 
+function deniedResponse(command: string, reason?: string, remembered = true): NetworkExecResponse {
+  return {
+    status: "denied",
+    command,
+    reason,
+    error: remembered
+      ? `Execution of command "${command}" was denied by the user${reason ? `: ${reason}` : ""}. Do not retry; the user can remove the denial from the config.`
+      : `Execution of command "${command}" was declined by the user this time${reason ? `: ${reason}` : ""}. Do not retry unless the user asks you to.`,
+  };
+}
+
 /**
  * Main network exec function
  *
  * Flow:
  * 1. Extract command basename for allowlist checking
- * 2. Validate arguments for shell operators
+ * 2. Validate arguments for shell operators and the command's policy
  * 3. Check command against allowlist/blocklist
  * 4. Handle approval flow if needed
- * 5. Execute command using spawn
- * 6. Return result
+ * 5. Apply resource limits and wait for a free execution slot
+ * 6. Execute command using spawn (or start a background job)
+ * 7. Return result
  */
 export async function networkExec(
-  input: NetworkExecInput
+  input: NetworkExecInput,
+  options: NetworkExecOptions = {}
 ): Promise<NetworkExecResponse> {
+  let workspaceId: string | undefined;
+  let outputId: string | undefined;
   try {
     // Step 1: Extract command name (handle full paths)
     const commandBasename = path.basename(input.command);
@@ -263,8 +543,154 @@ export async function networkExec(
       };
     }
 
-    // Step 4: Check command against allowlist/blocklist
-    const approvalStatus = await isCommandAllowed(input.command);
+    // Step 3c: Pick a scratch workspace to run in, if requested
+    if (input.workspace && input.cwd) {
+      return {
+        status: "error",
+        error: "Use either workspace or cwd, not both. With workspace: true the command runs in a new scratch directory.",
+      };
+    }
+    const allocated = input.workspace ? await getWorkspaceManager().allocate() : null;
+    const cwd = allocated?.path ?? input.cwd;
+
+    // Step 3d: Decode stdin and check the stdout mode
+    const stdoutEncoding = input.stdout_encoding ?? "utf8";
+    if (!["utf8", "base64", "file"].includes(stdoutEncoding)) {
+      return {
+        status: "error",
+        error: `Invalid stdout_encoding "${stdoutEncoding}". Use "utf8", "base64" or "file".`,
+      };
+    }
+    if (input.background && stdoutEncoding !== "utf8") {
+      return {
+        status: "error",
+        error: "Background jobs only support stdout_encoding \"utf8\". Read their output with exec_job_output.",
+      };
+    }
+    if (input.pty && stdoutEncoding !== "utf8") {
+      return {
+        status: "error",
+        error: "PTY mode only supports stdout_encoding \"utf8\" (a terminal alters binary output).",
+      };
+    }
+    const terminalSize = {
+      cols: input.pty_cols ?? DEFAULT_TERMINAL_SIZE.cols,
+      rows: input.pty_rows ?? DEFAULT_TERMINAL_SIZE.rows,
+    };
+    if (
+      ![terminalSize.cols, terminalSize.rows].every(
+        (value) => Number.isInteger(value) && value >= 10 && value <= 1000
+      )
+    ) {
+      return {
+        status: "error",
+        error: "pty_cols and pty_rows must be whole numbers between 10 and 1000.",
+      };
+    }
+    let stdin: Buffer | undefined;
+    if (input.stdin !== undefined) {
+      stdin = input.stdin_encoding === "base64"
+        ? Buffer.from(input.stdin, "base64")
+        : Buffer.from(input.stdin, "utf8");
+      if (stdin.length > MAX_STDIN_SIZE) {
+        return {
+          status: "error",
+          error: `stdin is ${stdin.length} bytes, which exceeds the ${MAX_STDIN_SIZE} byte limit.`,
+        };
+      }
+    }
+
+    // Step 3e: Reject caller env vars that change how programs load or run
+    const envPolicy = await getEnvPolicy();
+    const envValidation = validateInputEnv(input.env, envPolicy);
+    if (!envValidation.valid) {
+      console.error(`[network_exec] Env validation failed: ${envValidation.error}`);
+      return {
+        status: "error",
+        error: envValidation.error,
+      };
+    }
+
+    // Step 3f: Commands that must use the egress proxy can't be told to bypass it
+    const egress = await getEgressPolicy(commandLower);
+    if (egress === "allowlist") {
+      const overrideResult = await evaluateCommandPolicy(
+        args,
+        { deniedFlags: egressOverrideFlags(commandLower) },
+        cwd
+      );
+      if (!overrideResult.allowed) {
+        console.error(`[network_exec] Rejected proxy override: ${overrideResult.reason}`);
+        return {
+          status: "error",
+          rule: "deniedFlags",
+          error: `Arguments rejected: ${overrideResult.reason}, because "${commandLower}" must send its traffic through the egress proxy (egress "allowlist").`,
+        };
+      }
+    }
+
+    // Step 3g: Check arguments against the command's policy, if any
+    // (paths inside the workspace are always allowed)
+    const policy = await getCommandPolicy(commandLower);
+    if (policy) {
+      const policyResult = await evaluateCommandPolicy(
+        args,
+        allocated
+          ? { ...policy, allowedPaths: [...(policy.allowedPaths ?? []), allocated.path] }
+          : policy,
+        cwd
+      );
+      if (!policyResult.allowed) {
+        console.error(
+          `[network_exec] Rejected by command policy (${policyResult.rule}): ${policyResult.reason}`
+        );
+        return {
+          status: "error",
+          rule: policyResult.rule,
+          error: `Arguments rejected by the "${commandLower}" command policy (${policyResult.rule}): ${policyResult.reason}.`,
+        };
+      }
+    }
+
+    // Step 3h: Check the requested timeout against the command's limits
+    const limits = await getCommandLimits(commandLower);
+    const maxTimeout = input.background
+      ? limits.maxBackgroundTimeoutMs
+      : limits.maxTimeoutMs;
+    const timeout = Math.min(
+      input.timeout ?? (input.background ? DEFAULT_BACKGROUND_TIMEOUT : DEFAULT_TIMEOUT),
+      maxTimeout ?? Infinity
+    );
+    if (input.timeout !== undefined && maxTimeout !== undefined && input.timeout > maxTimeout) {
+      console.error(`[network_exec] Timeout ${input.timeout}ms exceeds maximum ${maxTimeout}ms`);
+      return {
+        status: "error",
+        error: `Timeout ${input.timeout}ms exceeds the maximum of ${maxTimeout}ms${input.background ? " for background jobs" : ""}.`,
+      };
+    }
+
+    // Step 3i: Resolve the binary that will actually run (approvals are pinned to it)
+    // Commands only get the host variables the env policy lets through
+    const env = buildCommandEnv(commandLower, input.env, envPolicy);
+    console.error(`[network_exec] Environment: ${Object.keys(env).sort().join(", ")}`);
+    const execConfig = await getExecConfig();
+    const binary = await resolveCommand(input.command, {
+      cwd,
+      env,
+      hash: execConfig.pinBinaryHashes,
+    });
+    if (!binary) {
+      console.error(`[network_exec] Command not found: ${input.command}`);
+      return {
+        status: "error",
+        error: `Command "${input.command}" not found. Make sure it is installed and in your PATH.`,
+      };
+    }
+
+    // Step 4: Check command against allowlist/blocklist (and its pinned binary)
+    const approvalStatus = await isCommandAllowed(input.command, binary, {
+      cwd: path.resolve(cwd ?? process.cwd()),
+    });
 
     // Step 5: Handle approval flow
     if (approvalStatus === "BLOCKED") {
@@ -275,51 +701,293 @@ export async function networkExec(
       };
     }
 
+    if (approvalStatus === "DENIED") {
+      console.error(`[network_exec] Command denied: ${commandLower}`);
+      return deniedResponse(commandLower, (await findDenyEntry("command", commandLower))?.reason);
+    }
+
     if (approvalStatus === "NEEDS_APPROVAL") {
-      // Check if user provided approval
-      if (!input.approve) {
-        console.error(`[network_exec] Command needs approval: ${commandLower}`);
+      // Ask the human - the model cannot approve its own commands
+      console.error(`[network_exec] Command needs approval: ${commandLower}`);
+      const { rule, pin: pinState } = await explainCommand(commandLower, binary, {
+        cwd: path.resolve(cwd ?? process.cwd()),
+      });
+      // Allowlisted but never pinned, and not the binary the name finds on PATH
+      const unpinnedElsewhere = rule !== undefined && pinState === "unpinned";
+      const changed = pinState === "path_changed" || pinState === "hash_changed" || unpinnedElsewhere;
+      const binaryNote = pinState === "hash_changed"
+        ? " - binary changed since it was approved"
+        : pinState === "path_changed"
+          ? " - not the binary that was approved"
+          : unpinnedElsewhere
+            ? " - not the binary found on PATH"
+            : "";
+      const detail = `${[input.command, ...args].join(" ")} [${binary.path}${binary.sha256 ? `, sha256 ${binary.sha256}` : ""}]${binaryNote}`;
+      // "Allow always" can be limited to the requested working directory
+      const scope = input.cwd ? { cwd: path.resolve(input.cwd) } : undefined;
+      const { decision, duration, scoped, reason, approvalUrl } = await requestApproval({
+        kind: "command",
+        target: commandLower,
+        detail,
+        scope,
+      }, options.signal);
+
+      if (options.signal?.aborted) {
+        console.error(`[network_exec] Cancelled while waiting for approval: ${commandLower}`);
+        return { status: "cancelled", error: CANCELLED_MESSAGE };
+      }
+
+      if (decision === "timeout") {
         return {
           status: "needs_approval",
           command: commandLower,
-          message: `Command "${commandLower}" is not in your allowlist. To proceed, call network_exec again with approve: "once" for this execution only, or approve: "always" to remember this command.`,
+          message: changed
+            ? `Command "${commandLower}" now resolves to a different binary than the one approved (${binary.path}) and needs re-approval. No decision was made in time. Ask the user to approve it when prompted, then retry the command.${approvalPageHint(approvalUrl)}`
+            : `Command "${commandLower}" is not in your allowlist and no approval decision was made in time. Ask the user to approve it when prompted, then retry the command.${approvalPageHint(approvalUrl)}`,
+          approvalUrl,
         };
       }
 
+      if (decision === "deny") {
+        console.error(`[network_exec] Command denied by user: ${commandLower}`);
+        await addCommandToDenylist(commandLower, {
+          reason,
+          request: [input.command, ...args].join(" "),
+        });
+        return deniedResponse(commandLower, reason);
+      }
+
+      if (decision === "deny_once") {
+        console.error(`[network_exec] Command declined for this call: ${commandLower}`);
+        return deniedResponse(commandLower, reason, false);
+      }
+
       // Handle "always" approval - add to allowlist
-      if (input.approve === "always") {
+      if (decision === "always") {
         console.error(`[network_exec] Adding command to allowlist: ${commandLower}`);
-        await addCommandToAllowlist(commandLower);
+        await addCommandToAllowlist(commandLower, binary, {
+          duration,
+          scope: scoped ? scope : undefined,
+          reason: detail,
+        });
       } else {
         console.error(`[network_exec] One-time approval for command: ${commandLower}`);
       }
     }
 
-    // Step 6: Execute command using spawn (NEVER use exec for security)
-    const timeout = input.timeout ?? DEFAULT_TIMEOUT;
-    const env = { ...process.env, ...input.env };
+    // Step 6: Wrap the resolved binary in prlimit for CPU/memory/file size limits
+    const spawnTarget = await applyResourceLimits(binary.execPath, args, limits);
+    const warning = spawnTarget.enforced
+      ? undefined
+      : "CPU, memory and file size limits are not enforced on this system (requires prlimit on Linux).";
+    if (warning) {
+      console.error(`[network_exec] ${warning}`);
+    }
 
-    console.error(
-      `[network_exec] Executing: ${input.command} ${args.join(" ")} (timeout: ${timeout}ms, cwd: ${input.cwd || process.cwd()})`
+    // Step 6b: Run under a pseudo-terminal (around prlimit, so limits apply to the command)
+    let runTarget: { command: string; args: string[] } = spawnTarget;
+    if (input.pty) {
+      const wrapped = await wrapInPty(spawnTarget.command, spawnTarget.args, terminalSize);
+      if (!wrapped) {
+        return {
+          status: "error",
+          error: "PTY mode requires script(1) (util-linux on Linux, built in on macOS) and is not available on this system.",
+        };
+      }
+      Object.assign(env, wrapped.env);
+      runTarget = { command: wrapped.command, args: wrapped.args };
+    }
+    const stripAnsi = Boolean(input.pty && !input.preserve_ansi);
+    // prlimit execs the command, so its pid is the limited process (not so under script(1))
+    const watchCpu = Boolean(limits.cpuSeconds && spawnTarget.enforced && !input.pty);
+
+    // Step 7: Wait for a free slot (FIFO) - background jobs hold theirs until they exit
+    const release = await getExecQueue().acquire(
+      execConfig.maxConcurrent,
+      options.signal,
+      execConfig.queueTimeoutMs
     );
 
-    const result = await spawnWithTimeout(input.command, args, {
-      cwd: input.cwd,
-      env,
-      timeout,
-    });
+    // Everything from here on gives the slot back if it fails, unless a
+    // background job took it over (it releases it when it exits)
+    const outputOnly = !allocated && stdoutEncoding === "file";
+    let workspace: WorkspaceInfo | undefined;
+    let stdoutFile: string | undefined;
+    let egressSession: EgressSession | undefined;
+    const closeEgressSession = () =>
+      egressSession ? getEgressProxy().closeSession(egressSession.id) : [];
+    let jobStarted = false;
+    let result;
+    let egressDenied: string[] = [];
+    try {
+      // The workspace is only created once the command is about to run
+      // (stdout_encoding "file" without a workspace gets one just for the output file)
+      const toCreate = allocated ?? (outputOnly ? await getWorkspaceManager().allocate() : null);
+      workspace = toCreate ? await getWorkspaceManager().create(toCreate) : undefined;
+      workspaceId = workspace?.id;
+      stdoutFile = stdoutEncoding === "file" && workspace
+        ? path.join(workspace.path, STDOUT_FILE_NAME)
+        : undefined;
+
+      // Commands with the allowlist egress policy are pointed at the local proxy
+      // (tools that honour the standard proxy variables: curl, wget, yt-dlp, ...)
+      egressSession = egress === "allowlist"
+        ? await getEgressProxy().openSession(commandLower)
+        : undefined;
+      if (egressSession) {
+        for (const name of ["HTTP_PROXY", "HTTPS_PROXY", "ALL_PROXY"]) {
+          env[name] = egressSession.proxyUrl;
+          env[name.toLowerCase()] = egressSession.proxyUrl;
+        }
+        env.NO_PROXY = "";
+        env.no_proxy = "";
+      }
+
+      // Keep the full output on disk (stdout in file mode is already there)
+      const spooled = await getOutputSpool().create(
+        [input.command, ...args].join(" "),
+        stdoutEncoding === "file" ? ["stderr"] : ["stdout", "stderr"]
+      );
+      outputId = spooled.id;
+
+      // Step 8: Execute using spawn (NEVER use exec for security)
+      // Background mode returns a job id immediately; the job closes the spool
+      if (input.background) {
+        const jobWorkspace = workspace;
+        const job = await getJobManager().start(binary.execPath, args, {
+          cwd,
+          env,
+          timeout,
+          limits,
+          stdin,
+          onExit: () => {
+            release();
+            closeEgressSession();
+            if (jobWorkspace) {
+              getWorkspaceManager().finish(jobWorkspace.id).catch((error) => {
+                console.error(`[network_exec] Workspace manifest failed: ${error}`);
+              });
+            }
+          },
+          spawnAs: runTarget,
+          pty: input.pty,
+          stripAnsi,
+          watchCpu,
+          workspaceId: workspace?.id,
+          outputId,
+        });
+        jobStarted = true;
+
+        return {
+          status: "started",
+          jobId: job.id,
+          pid: job.pid,
+          message: `Started in the background (timeout: ${timeout}ms). Poll with exec_job_status / exec_job_output, stop with exec_job_cancel. The full output is kept for exec_output.`,
+          outputId,
+          workspace,
+          warning,
+        };
+      }
+
+      console.error(
+        `[network_exec] Executing: ${input.command} ${args.join(" ")} (timeout: ${timeout}ms, cwd: ${cwd || process.cwd()})`
+      );
+
+      result = await spawnWithTimeout(runTarget.command, runTarget.args, {
+        cwd,
+        env,
+        timeout,
+        onProgress: options.onProgress,
+        signal: options.signal,
+        stdin,
+        stdoutEncoding,
+        stdoutFile,
+        maxStdoutFileSize: limits.fileSizeBytes,
+        outputId,
+        stripAnsi,
+        watchCpu,
+      });
+    } finally {
+      if (!jobStarted) {
+        release();
+        egressDenied = closeEgressSession();
+        if (outputId) {
+          await getOutputSpool().close(outputId);
+        }
+      }
+    }
+    if (egressDenied.length > 0) {
+      console.error(`[network_exec] Egress proxy refused: ${egressDenied.join(", ")}`);
+    }
 
     console.error(
-      `[network_exec] Completed: exit code ${result.exitCode}, stdout: ${result.stdout.length} bytes, stderr: ${result.stderr.length} bytes`
+      `[network_exec] Completed: exit code ${result.exitCode}, stdout: ${result.stdoutBytes} bytes, stderr: ${result.stderrBytes} bytes`
     );
 
+    const manifest = workspace
+      ? await getWorkspaceManager().finish(workspace.id)
+      : undefined;
+
+    const stdoutFields = {
+      stdout: stdoutEncoding === "file" ? undefined : result.stdout,
+      stdoutEncoding,
+      stdoutBytes: result.stdoutBytes,
+      stdoutTruncated: result.stdoutTruncated || undefined,
+      stdoutFile,
+    };
+
+    // Under a PTY, signals arrive as 128+N exit codes and errors on stdout
+    const limit = result.stdoutFileLimitExceeded
+      ? "fileSize"
+      : detectLimitExceeded(
+          {
+            signal: result.signal,
+            exitCode: result.exitCode,
+            output: input.pty ? result.stdout : result.stderr,
+            cpuSeconds: result.cpuSeconds,
+            pty: input.pty,
+          },
+          limits
+        );
+    if (limit) {
+      console.error(`[network_exec] Command exceeded its ${limit} limit`);
+      return {
+        status: "error",
+        limit,
+        error: `Command was stopped for exceeding its ${describeLimit(limit, limits)}.`,
+        exitCode: result.exitCode,
+        ...stdoutFields,
+        stderr: result.stderr,
+        stderrBytes: result.stderrBytes,
+        outputId,
+        egressDenied: egressDenied.length > 0 ? egressDenied : undefined,
+        workspace: outputOnly ? undefined : manifest,
+        warning,
+      };
+    }
+
     return {
       status: "success",
       exitCode: result.exitCode,
-      stdout: result.stdout,
+      ...stdoutFields,
       stderr: result.stderr,
+      stderrBytes: result.stderrBytes,
+      outputId,
+      egressDenied: egressDenied.length > 0 ? egressDenied : undefined,
+      workspace: outputOnly ? undefined : manifest,
+      warning,
     };
   } catch (error) {
+    // Partial output (e.g. an interrupted download) is still listed
+    const workspace = workspaceId
+      ? await getWorkspaceManager().finish(workspaceId).catch(() => undefined)
+      : undefined;
+
+    if (options.signal?.aborted) {
+      console.error(`[network_exec] Cancelled: ${input.command}`);
+      return { status: "cancelled", error: CANCELLED_MESSAGE, workspace, outputId };
+    }
+
     const errorMessage =
       error instanceof Error ? error.message : String(error);
 
@@ -328,7 +996,10 @@ export async function networkExec(
       console.error(`[network_exec] Command timed out`);
       return {
         status: "error",
+        limit: "timeout",
         error: errorMessage,
+        workspace,
+        outputId,
       };
     }
 
@@ -362,7 +1033,7 @@ export async function networkExec(
 export const networkExecToolDefinition = {
   name: "network_exec",
   description:
-    "Execute CLI commands with network access. Bypasses Claude Desktop sandbox for tools like yt-dlp, curl, ffmpeg, etc. Commands must be approved before first use.",
+    "Execute CLI commands with network access. Bypasses Claude Desktop sandbox for tools like yt-dlp, curl, ffmpeg, etc. New commands wait for the user to approve them before first use.",
   inputSchema: {
     type: "object" as const,
     properties: {
@@ -381,18 +1052,55 @@ export const networkExecToolDefinition = {
       },
       env: {
         type: "object",
-        description: "Additional environment variables to set",
+        description:
+          "Additional environment variables to set. Commands only inherit a minimal host environment (PATH, HOME, locale); loader and interpreter hooks such as LD_PRELOAD, NODE_OPTIONS and PATH, and config, certificate and proxy redirects such as HOME, CURL_HOME, GIT_CONFIG_GLOBAL and HTTPS_PROXY, cannot be set.",
         additionalProperties: { type: "string" },
       },
       timeout: {
         type: "number",
-        description: "Timeout in milliseconds (default: 60000, max: 600000)",
+        description: "Timeout in milliseconds (default: 60000, max: 600000; background jobs default to 3600000, max: 21600000). Maximums can be changed per command in the config.",
+      },
+      background: {
+        type: "boolean",
+        description:
+          "Run as a background job and return a job id immediately. Use for long yt-dlp/ffmpeg runs, then poll with exec_job_status and exec_job_output.",
+      },
+      pty: {
+        type: "boolean",
+        description:
+          "Run under a pseudo-terminal, for tools that need a TTY (progress bars, unbuffered output, \"stdin is not a terminal\"). stderr is merged into stdout. Not compatible with stdout_encoding base64/file.",
+      },
+      pty_cols: {
+        type: "number",
+        description: "Terminal width in PTY mode (default: 120)",
+      },
+      pty_rows: {
+        type: "number",
+        description: "Terminal height in PTY mode (default: 40)",
+      },
+      preserve_ansi: {
+        type: "boolean",
+        description: "Keep ANSI escape codes (colors, cursor movement) in PTY output instead of stripping them",
+      },
+      workspace: {
+        type: "boolean",
+        description:
+          "Run in a new scratch directory (instead of cwd) and return the files the command created or modified, with size, MIME type and SHA-256. For background jobs the list is in exec_job_status once the job finishes.",
+      },
+      stdin: {
+        type: "string",
+        description: "Data written to the command's stdin (max 10MB). stdin is closed after it, or immediately if omitted.",
+      },
+      stdin_encoding: {
+        type: "string",
+        enum: ["utf8", "base64"],
+        description: "Encoding of stdin (default: utf8). Use base64 for binary input.",
       },
-      approve: {
+      stdout_encoding: {
         type: "string",
-        enum: ["once", "always"],
+        enum: ["utf8", "base64", "file"],
         description:
-          "Approve this command: 'once' for this execution only, 'always' to remember",
+          "How stdout is returned (default: utf8). base64 returns the raw bytes; file writes stdout to a file and returns its path instead of truncating (limited by the fileSize resource limit). Not supported for background jobs.",
       },
     },
     required: ["command"],
@@ -3,14 +3,38 @@
  *
  * Provides HTTP fetch capabilities that bypass sandbox restrictions.
  * Implements domain allowlist/blocklist checking with approval flow.
+ *
+ * SECURITY: The hostname is resolved and vetted before connecting, and the
+ * connection is pinned to the vetted address so DNS cannot change in between.
  */
 
+import * as fs from "node:fs/promises";
+import * as http from "node:http";
+import * as https from "node:https";
+import type { LookupFunction } from "node:net";
+import { Readable, Transform, pipeline } from "node:stream";
+import * as path from "node:path";
+import * as zlib from "node:zlib";
 import {
   isDomainAllowed,
   addDomainToAllowlist,
+  addDomainToDenylist,
+  findDenyEntry,
   extractDomain,
+  getConfigPath,
+  getFetchConfig,
+  getWorkspaceConfig,
 } from "../config/manager.js";
+import { approvalPageHint, requestApproval } from "../utils/approval.js";
+import { CANCELLED_MESSAGE, onAbort } from "../utils/cancellation.js";
+import { hashFile, streamToFile } from "../utils/download.js";
+import { isBlockedPath } from "../utils/file-blocklist.js";
+import type { ProgressCallback } from "../utils/progress.js";
 import { checkRateLimit } from "../utils/rate-limiter.js";
+import {
+  resolvePublicAddress,
+  type ResolvedAddress,
+} from "../utils/security.js";
 
 /**
  * Maximum response body size (10MB)
@@ -28,6 +52,50 @@ const DEFAULT_TIMEOUT = 30000;
 const VALID_METHODS = ["GET", "POST", "PUT", "DELETE", "PATCH", "HEAD"] as const;
 type HttpMethod = (typeof VALID_METHODS)[number];
 
+/**
+ * Status codes that carry a Location to follow
+ */
+const REDIRECT_STATUSES = [301, 302, 303, 307, 308];
+
+/**
+ * Headers that must not be forwarded when a redirect changes origin
+ */
+const CREDENTIAL_HEADERS = ["authorization", "cookie", "proxy-authorization"];
+
+/**
+ * Headers that describe the request body, dropped when a redirect drops the body
+ */
+const BODY_HEADERS = [
+  "content-type",
+  "content-length",
+  "content-encoding",
+  "content-language",
+  "content-location",
+];
+
+/**
+ * Non text/* media types that are decoded as text in "auto" mode
+ */
+const TEXT_MEDIA_TYPES = [
+  "application/json",
+  "application/xml",
+  "application/javascript",
+  "application/ecmascript",
+  "application/x-javascript",
+  "application/x-www-form-urlencoded",
+  "application/x-ndjson",
+  "application/graphql",
+  "application/yaml",
+  "application/x-yaml",
+  "application/toml",
+  "application/x-sh",
+];
+
+/**
+ * Image types returned as MCP image content
+ */
+const IMAGE_CONTENT_TYPES = ["image/png", "image/jpeg", "image/gif", "image/webp"];
+
 /**
  * Input parameters for the proxy_fetch tool
  */
@@ -37,21 +105,69 @@ export interface ProxyFetchInput {
   headers?: Record<string, string>;
   body?: string;
   timeout?: number;
-  approve?: "once" | "always";
+  follow_redirects?: boolean;
+  response_encoding?: ResponseEncoding;
+  save_to?: string;
+  max_size?: number;
+  expected_sha256?: string;
+}
+
+/**
+ * Options passed by the server, not by the model
+ */
+export interface ProxyFetchOptions {
+  /** Reports bytes received so far (and the expected total, if known) */
+  onProgress?: ProgressCallback;
+  /** Aborts the request when the client cancels the tool call */
+  signal?: AbortSignal;
+}
+
+/**
+ * How the response body is returned: decoded text, base64, or chosen by content type
+ */
+export type ResponseEncoding = "auto" | "text" | "base64";
+
+/**
+ * A redirect that was followed
+ */
+export interface RedirectHop {
+  url: string;
+  statusCode: number;
+  location: string;
 }
 
 /**
  * Response from the proxy_fetch tool
  */
 export interface ProxyFetchResponse {
-  status: "success" | "needs_approval" | "error";
-  // For needs_approval
+  status: "success" | "needs_approval" | "denied" | "cancelled" | "error";
+  // For needs_approval and denied
   domain?: string;
   message?: string;
+  /** Page listing pending approvals (needs_approval) */
+  approvalUrl?: string;
+  /** Why the user denied the domain */
+  reason?: string;
   // For success
   statusCode?: number;
+  /** Final URL after redirects */
+  url?: string;
   headers?: Record<string, string>;
+  contentType?: string;
   body?: string;
+  /** "base64" for binary bodies */
+  bodyEncoding?: "text" | "base64";
+  /** Charset used to decode a text body */
+  charset?: string;
+  /** Body size in bytes (or final file size with save_to) */
+  size?: number;
+  // For save_to downloads
+  savedTo?: string;
+  sha256?: string;
+  /** Whether a partial download was resumed with a Range request */
+  resumed?: boolean;
+  /** Redirects followed, in order */
+  redirectChain?: RedirectHop[];
   // For error
   error?: string;
 }
@@ -101,6 +217,23 @@ function validateUrl(url: string): URL {
   }
 }
 
+/**
+ * Removes the named headers (case-insensitively) before following a redirect
+ */
+function stripHeaders(
+  headers: Record<string, string> | undefined,
+  names: string[]
+): Record<string, string> | undefined {
+  if (!headers) {
+    return headers;
+  }
+  return Object.fromEntries(
+    Object.entries(headers).filter(
+      ([key]) => !names.includes(key.toLowerCase())
+    )
+  );
+}
+
 /**
  * Converts Headers object to plain object
  */
@@ -113,34 +246,114 @@ function headersToObject(headers: Headers): Record<string, string> {
 }
 
 /**
- * Makes an HTTP fetch request with timeout support
+ * Creates a decoder for a Content-Encoding, matching what fetch decodes
+ */
+function createDecoder(encoding: string | null): Transform | null {
+  switch (encoding?.toLowerCase()) {
+    case "gzip":
+    case "x-gzip":
+      return zlib.createGunzip();
+    case "deflate":
+      return zlib.createInflate();
+    case "br":
+      return zlib.createBrotliDecompress();
+    default:
+      return null;
+  }
+}
+
+/**
+ * Converts a Node response into a Web Response, decoding the body like fetch does
+ */
+function toWebResponse(res: http.IncomingMessage, method: string): Response {
+  const headers = new Headers();
+  for (const [key, value] of Object.entries(res.headers)) {
+    if (value === undefined) continue;
+    for (const item of Array.isArray(value) ? value : [value]) {
+      headers.append(key, item);
+    }
+  }
+
+  const status = res.statusCode ?? 502;
+  const init = { status, statusText: res.statusMessage, headers };
+
+  // Null-body responses
+  if (method === "HEAD" || status === 204 || status === 304) {
+    res.resume();
+    return new Response(null, init);
+  }
+
+  let body: Readable = res;
+  const decoder = createDecoder(headers.get("content-encoding"));
+  if (decoder) {
+    body = pipeline(res, decoder, () => {});
+    headers.delete("content-encoding");
+    headers.delete("content-length");
+  }
+
+  return new Response(Readable.toWeb(body) as ReadableStream<Uint8Array>, init);
+}
+
+/**
+ * Makes an HTTP request pinned to a vetted address, with timeout support
+ * TLS still verifies the certificate against the URL hostname.
+ * The timeout covers the response headers; the signal also aborts body reads.
  */
 async function fetchWithTimeout(
-  url: string,
-  options: RequestInit,
-  timeoutMs: number
+  url: URL,
+  options: { method: HttpMethod; headers?: Record<string, string>; body?: string },
+  pinned: ResolvedAddress,
+  timeoutMs: number,
+  signal?: AbortSignal
 ): Promise<Response> {
   const controller = new AbortController();
   const timeoutId = setTimeout(() => controller.abort(), timeoutMs);
+  onAbort(signal, () => controller.abort());
+
+  // Always connect to the vetted address, never re-resolve
+  const lookup = ((_hostname, lookupOptions, callback) => {
+    if (lookupOptions.all) {
+      callback(null, [pinned]);
+    } else {
+      callback(null, pinned.address, pinned.family);
+    }
+  }) as LookupFunction;
+
+  const headers: Record<string, string> = {
+    "user-agent": "mcp-proxy",
+    "accept-encoding": "gzip, deflate, br",
+    ...options.headers,
+  };
 
   try {
-    const response = await fetch(url, {
-      ...options,
-      signal: controller.signal,
+    return await new Promise<Response>((resolve, reject) => {
+      const client = url.protocol === "https:" ? https : http;
+      const req = client.request(
+        url,
+        {
+          method: options.method,
+          headers,
+          lookup,
+          signal: controller.signal,
+        },
+        (res) => resolve(toWebResponse(res, options.method))
+      );
+      req.on("error", reject);
+      req.end(options.body);
     });
-    return response;
   } finally {
     clearTimeout(timeoutId);
   }
 }
 
 /**
- * Reads response body with size limit
+ * Reads response body with size limit, reporting bytes received
  */
 async function readBodyWithLimit(
   response: Response,
-  maxSize: number
-): Promise<string> {
+  maxSize: number,
+  onProgress?: ProgressCallback
+): Promise<Buffer> {
   const contentLength = response.headers.get("content-length");
 
   // If Content-Length header indicates body is too large, reject early
@@ -150,18 +363,506 @@ async function readBodyWithLimit(
     );
   }
 
-  // Read the body as array buffer to check actual size
-  const buffer = await response.arrayBuffer();
+  if (!response.body) {
+    return Buffer.alloc(0);
+  }
+
+  const total = contentLength ? parseInt(contentLength, 10) : undefined;
+  const chunks: Uint8Array[] = [];
+  let received = 0;
+
+  // Read chunk by chunk so oversized bodies are rejected without buffering them
+  for await (const chunk of response.body) {
+    received += chunk.byteLength;
+    if (received > maxSize) {
+      throw new Error(
+        `Response body too large: more than ${maxSize} bytes (max: ${maxSize} bytes)`
+      );
+    }
+    chunks.push(chunk);
+    onProgress?.({ progress: received, total });
+  }
+
+  return Buffer.concat(chunks);
+}
 
-  if (buffer.byteLength > maxSize) {
+/**
+ * Parses the media type and charset from a Content-Type header
+ */
+function parseContentType(contentType: string | null): {
+  mediaType: string;
+  charset?: string;
+} {
+  if (!contentType) {
+    return { mediaType: "" };
+  }
+  const [mediaType, ...params] = contentType.split(";");
+  const charsetParam = params
+    .map((param) => param.trim())
+    .find((param) => param.toLowerCase().startsWith("charset="));
+  const charset = charsetParam
+    ?.slice("charset=".length)
+    .replace(/^"|"$/g, "")
+    .trim();
+  return { mediaType: mediaType.trim().toLowerCase(), charset };
+}
+
+/**
+ * Checks if a media type is textual
+ */
+function isTextMediaType(mediaType: string): boolean {
+  return (
+    mediaType.startsWith("text/") ||
+    TEXT_MEDIA_TYPES.includes(mediaType) ||
+    mediaType.endsWith("+json") ||
+    mediaType.endsWith("+xml")
+  );
+}
+
+/**
+ * Guesses whether an untyped body is binary: NUL bytes or invalid UTF-8
+ */
+function looksBinary(bytes: Buffer): boolean {
+  const sample = bytes.subarray(0, 8192);
+  if (sample.includes(0)) {
+    return true;
+  }
+  try {
+    // Streaming mode tolerates a character cut at the sample boundary
+    new TextDecoder("utf-8", { fatal: true }).decode(sample, {
+      stream: sample.length < bytes.length,
+    });
+    return false;
+  } catch {
+    return true;
+  }
+}
+
+/**
+ * Decodes a response body as text or base64 depending on its type
+ *
+ * In "auto" mode, textual content types are decoded with their declared
+ * charset, everything else (images, PDFs, archives, protobuf...) is base64.
+ */
+export function decodeBody(
+  bytes: Buffer,
+  contentType: string | null,
+  encoding: ResponseEncoding
+): { body: string; bodyEncoding: "text" | "base64"; charset?: string } {
+  const { mediaType, charset } = parseContentType(contentType);
+
+  const asText =
+    encoding === "text" ||
+    (encoding === "auto" &&
+      (mediaType ? isTextMediaType(mediaType) : !looksBinary(bytes)));
+
+  if (!asText) {
+    return { body: bytes.toString("base64"), bodyEncoding: "base64" };
+  }
+
+  let decoder: TextDecoder;
+  try {
+    decoder = new TextDecoder(charset || "utf-8");
+  } catch {
+    console.error(`[proxy_fetch] Unsupported charset "${charset}", decoding as UTF-8`);
+    decoder = new TextDecoder("utf-8");
+  }
+
+  return {
+    body: decoder.decode(bytes),
+    bodyEncoding: "text",
+    charset: decoder.encoding,
+  };
+}
+
+/**
+ * Resolves symlinks in the part of a path that exists
+ * The rest (a file still to be created) is appended as is.
+ */
+async function realpathOfExisting(filePath: string): Promise<string> {
+  let existing = filePath;
+  const missing: string[] = [];
+  for (;;) {
+    try {
+      return path.join(await fs.realpath(existing), ...missing);
+    } catch (error) {
+      const parent = path.dirname(existing);
+      if ((error as NodeJS.ErrnoException).code !== "ENOENT" || parent === existing) {
+        throw error;
+      }
+      missing.unshift(path.basename(existing));
+      existing = parent;
+    }
+  }
+}
+
+function isUnderDirectory(filePath: string, dir: string): boolean {
+  const relative = path.relative(dir, filePath);
+  return relative === "" || (!relative.startsWith("..") && !path.isAbsolute(relative));
+}
+
+async function isSymlink(filePath: string): Promise<boolean> {
+  try {
+    return (await fs.lstat(filePath)).isSymbolicLink();
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Validates a save_to path and returns it resolved
+ *
+ * Downloads may only go under fetch.downloadDirectory or the workspace root,
+ * checked after resolving symlinks, and never into the proxy's config directory.
+ */
+async function validateSavePath(savePath: string): Promise<string> {
+  if (typeof savePath !== "string" || !path.isAbsolute(savePath)) {
+    throw new Error("save_to must be an absolute file path");
+  }
+  if (isBlockedPath(savePath)) {
+    console.error(`[proxy_fetch] BLOCKED: Attempt to write sensitive path: ${savePath}`);
+    throw new Error("Access denied: save_to path is blocked for security reasons");
+  }
+
+  const { downloadDirectory } = await getFetchConfig();
+  const { root: workspaceRoot } = await getWorkspaceConfig();
+  await fs.mkdir(downloadDirectory, { recursive: true });
+
+  const resolved = await realpathOfExisting(path.resolve(savePath));
+  const configDir = await realpathOfExisting(path.dirname(getConfigPath()));
+  if (isUnderDirectory(resolved, configDir)) {
+    console.error(`[proxy_fetch] BLOCKED: Attempt to write the proxy config: ${savePath}`);
+    throw new Error("Access denied: save_to cannot write to the proxy's configuration directory");
+  }
+
+  const allowedDirs = await Promise.all([downloadDirectory, workspaceRoot].map(realpathOfExisting));
+  if (!allowedDirs.some((dir) => isUnderDirectory(resolved, dir) && resolved !== dir)) {
+    console.error(`[proxy_fetch] BLOCKED: save_to outside the download directories: ${savePath}`);
     throw new Error(
-      `Response body too large: ${buffer.byteLength} bytes (max: ${maxSize} bytes)`
+      `Access denied: save_to must be a file under ${downloadDirectory} or the workspace root (${workspaceRoot})`
+    );
+  }
+
+  // A link planted at the target or its .part file would redirect the write
+  if ((await isSymlink(resolved)) || (await isSymlink(`${resolved}.part`))) {
+    throw new Error("Access denied: save_to must not be a symbolic link");
+  }
+  return resolved;
+}
+
+/**
+ * Returns the size of an existing partial download, or 0
+ */
+async function getPartialSize(partPath: string): Promise<number> {
+  try {
+    const stats = await fs.stat(partPath);
+    return stats.isFile() ? stats.size : 0;
+  } catch {
+    return 0;
+  }
+}
+
+/**
+ * Parses "bytes start-end/total" from a Content-Range header
+ */
+function parseContentRange(
+  header: string | null
+): { start?: number; total?: number } {
+  const match = header?.match(/^bytes\s+(?:(\d+)-\d+|\*)\/(\d+|\*)$/i);
+  if (!match) {
+    return {};
+  }
+  return {
+    start: match[1] !== undefined ? parseInt(match[1], 10) : undefined,
+    total: match[2] !== "*" ? parseInt(match[2], 10) : undefined,
+  };
+}
+
+/**
+ * Streams a response to disk for save_to
+ *
+ * Data is written to "<save_to>.part" and renamed once complete (and verified
+ * against expected_sha256, if given). A leftover .part file is resumed.
+ */
+async function saveDownload(
+  response: Response,
+  saveTo: string,
+  partialSize: number,
+  maxSize: number,
+  input: ProxyFetchInput,
+  onProgress?: ProgressCallback
+): Promise<ProxyFetchResponse> {
+  const partPath = `${saveTo}.part`;
+  const contentRange = parseContentRange(response.headers.get("content-range"));
+
+  // Server says our partial file already covers the whole resource
+  if (
+    response.status === 416 &&
+    partialSize > 0 &&
+    contentRange.total === partialSize
+  ) {
+    await response.body?.cancel();
+    const sha256 = await hashFile(partPath);
+    return finishDownload(saveTo, partialSize, sha256, true, response, input);
+  }
+
+  if (!response.ok) {
+    await response.body?.cancel();
+    return {
+      status: "error",
+      statusCode: response.status,
+      error: `Download failed: server returned ${response.status} ${response.statusText}`,
+    };
+  }
+
+  if (!response.body) {
+    return {
+      status: "error",
+      statusCode: response.status,
+      error: `Download failed: server returned ${response.status} ${response.statusText} with no body`,
+    };
+  }
+
+  // 206 continues the partial file; a 200 means the server ignored Range
+  let offset = 0;
+  if (response.status === 206 && partialSize > 0) {
+    if (contentRange.start !== partialSize) {
+      await response.body?.cancel();
+      return {
+        status: "error",
+        statusCode: response.status,
+        error: `Cannot resume download: server returned range starting at ${contentRange.start}, expected ${partialSize}`,
+      };
+    }
+    offset = partialSize;
+  }
+
+  const contentLength = response.headers.get("content-length");
+  const total =
+    contentRange.total ??
+    (contentLength ? offset + parseInt(contentLength, 10) : undefined);
+
+  if (total !== undefined && total > maxSize) {
+    await response.body?.cancel();
+    return {
+      status: "error",
+      statusCode: response.status,
+      error: `Download too large: ${total} bytes (max: ${maxSize} bytes)`,
+    };
+  }
+
+  await fs.mkdir(path.dirname(saveTo), { recursive: true });
+
+  let lastLoggedPercent = -1;
+  const { size, sha256 } = await streamToFile(response.body, partPath, {
+    offset,
+    total,
+    maxSize,
+    onProgress: (received, expected) => {
+      if (expected) {
+        const percent = Math.floor((received / expected) * 10) * 10;
+        if (percent !== lastLoggedPercent) {
+          lastLoggedPercent = percent;
+          console.error(`[proxy_fetch] Download progress: ${percent}% (${received}/${expected} bytes)`);
+        }
+      }
+      onProgress?.({ progress: received, total: expected });
+    },
+  }).catch(async (error) => {
+    // Keep the partial file for resuming, unless it went over the size cap
+    if (error instanceof Error && error.message.startsWith("Download too large")) {
+      await fs.rm(partPath, { force: true });
+    }
+    throw error;
+  });
+
+  return finishDownload(saveTo, size, sha256, offset > 0, response, input);
+}
+
+/**
+ * Verifies a completed .part file and moves it into place
+ */
+async function finishDownload(
+  saveTo: string,
+  size: number,
+  sha256: string,
+  resumed: boolean,
+  response: Response,
+  input: ProxyFetchInput
+): Promise<ProxyFetchResponse> {
+  const partPath = `${saveTo}.part`;
+
+  if (
+    input.expected_sha256 &&
+    sha256 !== input.expected_sha256.trim().toLowerCase()
+  ) {
+    await fs.rm(partPath, { force: true });
+    console.error(`[proxy_fetch] SHA-256 mismatch for ${saveTo}`);
+    return {
+      status: "error",
+      statusCode: response.status,
+      sha256,
+      error: `SHA-256 mismatch: expected ${input.expected_sha256}, got ${sha256}. The download was discarded.`,
+    };
+  }
+
+  await fs.rename(partPath, saveTo);
+  console.error(`[proxy_fetch] Saved ${size} bytes to ${saveTo}`);
+
+  return {
+    status: "success",
+    statusCode: response.status,
+    headers: headersToObject(response.headers),
+    contentType: response.headers.get("content-type") ?? undefined,
+    savedTo: saveTo,
+    size,
+    sha256,
+    resumed,
+  };
+}
+
+function deniedResponse(domain: string, reason?: string, remembered = true): ProxyFetchResponse {
+  return {
+    status: "denied",
+    domain,
+    reason,
+    error: remembered
+      ? `Access to domain "${domain}" was denied by the user${reason ? `: ${reason}` : ""}. Do not retry; the user can remove the denial from the config.`
+      : `Access to domain "${domain}" was declined by the user for this request${reason ? `: ${reason}` : ""}. Do not retry unless the user asks you to.`,
+  };
+}
+
+/**
+ * Checks a domain against the allowlist/blocklist and asks the human if needed
+ * Returns a response to send back when the request must not proceed, or null
+ */
+async function checkDomainPolicy(
+  url: URL,
+  method: string,
+  signal?: AbortSignal
+): Promise<ProxyFetchResponse | null> {
+  const domain = extractDomain(url.href);
+  const approvalStatus = await isDomainAllowed(url.href, { method });
+
+  if (approvalStatus === "BLOCKED") {
+    console.error(`[proxy_fetch] Domain blocked: ${domain}`);
+    return {
+      status: "error",
+      error: `Domain "${domain}" is blocked for security reasons and cannot be accessed.`,
+    };
+  }
+
+  if (approvalStatus === "DENIED") {
+    console.error(`[proxy_fetch] Domain denied: ${domain}`);
+    return deniedResponse(domain, (await findDenyEntry("domain", domain))?.reason);
+  }
+
+  if (approvalStatus === "NEEDS_APPROVAL") {
+    // Ask the human - the model cannot approve its own requests
+    console.error(`[proxy_fetch] Domain needs approval: ${domain}`);
+    // "Allow always" can be limited to this directory of the site and this method
+    const scope = {
+      pathPrefix: url.pathname.slice(0, url.pathname.lastIndexOf("/") + 1),
+      methods: [method],
+    };
+    const { decision, duration, scoped, reason, approvalUrl } = await requestApproval(
+      {
+        kind: "domain",
+        target: domain,
+        detail: `${method} ${url.href}`,
+        scope,
+      },
+      signal
     );
+
+    if (signal?.aborted) {
+      return { status: "cancelled", error: CANCELLED_MESSAGE };
+    }
+
+    if (decision === "timeout") {
+      return {
+        status: "needs_approval",
+        domain,
+        message: `Domain "${domain}" is not in your allowlist and no approval decision was made in time. Ask the user to approve it when prompted, then retry the request.${approvalPageHint(approvalUrl)}`,
+        approvalUrl,
+      };
+    }
+
+    if (decision === "deny") {
+      console.error(`[proxy_fetch] Domain denied by user: ${domain}`);
+      await addDomainToDenylist(domain, { reason, request: `${method} ${url.href}` });
+      return deniedResponse(domain, reason);
+    }
+
+    if (decision === "deny_once") {
+      console.error(`[proxy_fetch] Domain declined for this request: ${domain}`);
+      return deniedResponse(domain, reason, false);
+    }
+
+    // Handle "always" approval - add to allowlist
+    if (decision === "always") {
+      console.error(`[proxy_fetch] Adding domain to allowlist: ${domain}`);
+      await addDomainToAllowlist(domain, {
+        duration,
+        scope: scoped ? scope : undefined,
+        reason: `${method} ${url.href}`,
+      });
+    } else {
+      console.error(`[proxy_fetch] One-time approval for domain: ${domain}`);
+    }
   }
 
-  // Convert to string
-  const decoder = new TextDecoder("utf-8");
-  return decoder.decode(buffer);
+  return null;
+}
+
+/**
+ * The parts of a request that can change from one redirect hop to the next
+ */
+export interface HopRequest {
+  method: HttpMethod;
+  headers?: Record<string, string>;
+  body?: string;
+}
+
+/**
+ * Works out the next hop of a redirect, or the response that refuses it
+ *
+ * The target goes through the same domain policy as the original URL (the
+ * SSRF check runs when it is fetched). 303, and 301/302 after a POST, switch
+ * to GET without the body or its headers; credentials never cross origins.
+ */
+export async function followRedirect(
+  status: number,
+  location: string,
+  currentUrl: URL,
+  request: HopRequest,
+  signal?: AbortSignal
+): Promise<{ url: URL; request?: HopRequest; denial?: ProxyFetchResponse }> {
+  const url = validateUrl(new URL(location, currentUrl).href);
+  console.error(
+    `[proxy_fetch] Redirect ${status}: ${currentUrl.href} -> ${url.href}`
+  );
+
+  const denial = await checkDomainPolicy(url, request.method, signal);
+  if (denial) {
+    return { url, denial };
+  }
+
+  let { method, headers, body } = request;
+  if (
+    (status === 303 && method !== "HEAD") ||
+    ((status === 301 || status === 302) && method === "POST")
+  ) {
+    method = "GET";
+    body = undefined;
+    headers = stripHeaders(headers, BODY_HEADERS);
+  }
+
+  if (url.origin !== currentUrl.origin) {
+    headers = stripHeaders(headers, CREDENTIAL_HEADERS);
+  }
+
+  return { url, request: { method, headers, body } };
 }
 
 /**
@@ -171,18 +872,29 @@ async function readBodyWithLimit(
  * 1. Validate URL and extract domain
  * 2. Check domain against allowlist/blocklist
  * 3. Handle approval flow if needed
- * 4. Make HTTP request
- * 5. Return response
+ * 4. Resolve the hostname, vet every address (SSRF protection) and make the
+ *    HTTP request pinned to the vetted address
+ * 4b. For redirects, check the next hop's domain like step 2-3 and repeat
+ * 5. Read the body and decode it as text or base64 (or stream it to
+ *    disk for save_to)
+ * 6. Return response
  */
 export async function proxyFetch(
-  input: ProxyFetchInput
+  input: ProxyFetchInput,
+  options: ProxyFetchOptions = {}
 ): Promise<ProxyFetchResponse> {
+  const redirectChain: RedirectHop[] = [];
+
   try {
     // Step 1: Validate URL
     const parsedUrl = validateUrl(input.url);
     const domain = extractDomain(input.url);
+    let method = validateMethod(input.method);
+    if (input.save_to && method === "HEAD") {
+      throw new Error("save_to cannot be used with HEAD, which returns no body");
+    }
 
-    console.error(`[proxy_fetch] Request to ${domain}: ${input.method || "GET"} ${input.url}`);
+    console.error(`[proxy_fetch] Request to ${domain}: ${method} ${input.url}`);
 
     // Step 1b: Check rate limit
     const rateLimitResult = checkRateLimit(`fetch:${domain}`);
@@ -194,79 +906,162 @@ export async function proxyFetch(
       };
     }
 
-    // Step 2: Check domain against allowlist/blocklist
-    const approvalStatus = await isDomainAllowed(parsedUrl.href);
+    // Step 2-3: Check domain against allowlist/blocklist and handle approval
+    const denial = await checkDomainPolicy(parsedUrl, method, options.signal);
+    if (denial) {
+      return denial;
+    }
 
-    // Step 3: Handle approval flow
-    if (approvalStatus === "BLOCKED") {
-      console.error(`[proxy_fetch] Domain blocked: ${domain}`);
-      return {
-        status: "error",
-        error: `Domain "${domain}" is blocked for security reasons and cannot be accessed.`,
-      };
+    // Step 4: Make HTTP request, following redirects hop by hop
+    const timeout = input.timeout ?? DEFAULT_TIMEOUT;
+    const followRedirects = input.follow_redirects ?? true;
+    const { maxRedirects, maxDownloadSize } = await getFetchConfig();
+
+    // Add body for appropriate methods
+    let body =
+      input.body && ["POST", "PUT", "PATCH"].includes(method)
+        ? input.body
+        : undefined;
+    let headers = input.headers;
+    let currentUrl = parsedUrl;
+
+    // Step 4a: For save_to, resume a leftover partial download with Range
+    const saveTo = input.save_to ? await validateSavePath(input.save_to) : undefined;
+    const partialSize =
+      saveTo && method === "GET" ? await getPartialSize(`${saveTo}.part`) : 0;
+    if (partialSize > 0) {
+      console.error(`[proxy_fetch] Resuming download at byte ${partialSize}`);
+      headers = { ...headers, Range: `bytes=${partialSize}-` };
     }
+    let response: Response;
+
+    for (;;) {
+      // Resolve the hostname and reject private/internal addresses
+      const pinned = await resolvePublicAddress(currentUrl.hostname);
+
+      console.error(
+        `[proxy_fetch] Fetching: ${method} ${currentUrl.href} via ${pinned.address} (timeout: ${timeout}ms)`
+      );
+
+      response = await fetchWithTimeout(
+        currentUrl,
+        { method, headers, body },
+        pinned,
+        timeout,
+        options.signal
+      );
+
+      const location = response.headers.get("location");
+      if (
+        !followRedirects ||
+        !REDIRECT_STATUSES.includes(response.status) ||
+        !location
+      ) {
+        break;
+      }
 
-    if (approvalStatus === "NEEDS_APPROVAL") {
-      // Check if user provided approval
-      if (!input.approve) {
-        console.error(`[proxy_fetch] Domain needs approval: ${domain}`);
+      // Discard the redirect body, we only need the Location header
+      await response.body?.cancel();
+
+      if (redirectChain.length >= maxRedirects) {
         return {
-          status: "needs_approval",
-          domain,
-          message: `Domain "${domain}" is not in your allowlist. To proceed, call proxy_fetch again with approve: "once" for this request only, or approve: "always" to remember this domain.`,
+          status: "error",
+          error: `Too many redirects: stopped after ${maxRedirects} hops`,
+          redirectChain,
         };
       }
 
-      // Handle "always" approval - add to allowlist
-      if (input.approve === "always") {
-        console.error(`[proxy_fetch] Adding domain to allowlist: ${domain}`);
-        await addDomainToAllowlist(domain);
-      } else {
-        console.error(`[proxy_fetch] One-time approval for domain: ${domain}`);
+      // Step 4b: Every hop goes through the same domain policy and SSRF checks
+      const hop = await followRedirect(
+        response.status,
+        location,
+        currentUrl,
+        { method, headers, body },
+        options.signal
+      );
+      redirectChain.push({
+        url: currentUrl.href,
+        statusCode: response.status,
+        location: hop.url.href,
+      });
+      if (hop.denial) {
+        return { ...hop.denial, redirectChain };
       }
-    }
-
-    // Step 4: Make HTTP request
-    const method = validateMethod(input.method);
-    const timeout = input.timeout ?? DEFAULT_TIMEOUT;
 
-    const fetchOptions: RequestInit = {
-      method,
-      headers: input.headers,
-    };
-
-    // Add body for appropriate methods
-    if (input.body && ["POST", "PUT", "PATCH"].includes(method)) {
-      fetchOptions.body = input.body;
+      ({ method, headers, body } = hop.request!);
+      currentUrl = hop.url;
     }
 
-    console.error(`[proxy_fetch] Fetching: ${method} ${input.url} (timeout: ${timeout}ms)`);
-
-    const response = await fetchWithTimeout(input.url, fetchOptions, timeout);
+    // Step 5a: Stream to disk for save_to
+    if (saveTo) {
+      const maxSize = Math.min(input.max_size ?? maxDownloadSize, maxDownloadSize);
+      const result = await saveDownload(
+        response,
+        saveTo,
+        partialSize,
+        maxSize,
+        input,
+        options.onProgress
+      );
+      return {
+        ...result,
+        url: currentUrl.href,
+        redirectChain: redirectChain.length > 0 ? redirectChain : undefined,
+      };
+    }
 
     // Step 5: Read response body with size limit
-    const body = await readBodyWithLimit(response, MAX_BODY_SIZE);
+    const bytes = await readBodyWithLimit(
+      response,
+      MAX_BODY_SIZE,
+      options.onProgress
+    );
+
+    // Step 5b: Decode as text with the declared charset, or base64 for binary
+    const contentType = response.headers.get("content-type");
+    const decoded = decodeBody(
+      bytes,
+      contentType,
+      input.response_encoding ?? "auto"
+    );
 
     console.error(
-      `[proxy_fetch] Response: ${response.status} ${response.statusText} (${body.length} bytes)`
+      `[proxy_fetch] Response: ${response.status} ${response.statusText} (${bytes.length} bytes, ${decoded.bodyEncoding})`
     );
 
     return {
       status: "success",
       statusCode: response.status,
+      url: currentUrl.href,
       headers: headersToObject(response.headers),
-      body,
+      contentType: contentType ?? undefined,
+      body: decoded.body,
+      bodyEncoding: decoded.bodyEncoding,
+      charset: decoded.charset,
+      size: bytes.length,
+      redirectChain: redirectChain.length > 0 ? redirectChain : undefined,
     };
   } catch (error) {
     const errorMessage =
       error instanceof Error ? error.message : String(error);
+    const chain = redirectChain.length > 0 ? redirectChain : undefined;
 
     // Handle specific error types
+    if (options.signal?.aborted) {
+      console.error(`[proxy_fetch] Request cancelled by client`);
+      return {
+        status: "cancelled",
+        error: CANCELLED_MESSAGE,
+        redirectChain: chain,
+      };
+    }
+
     if (errorMessage.includes("abort")) {
       console.error(`[proxy_fetch] Request timed out`);
       return {
         status: "error",
         error: `Request timed out after ${input.timeout ?? DEFAULT_TIMEOUT}ms`,
+        redirectChain: chain,
       };
     }
 
@@ -274,17 +1069,34 @@ export async function proxyFetch(
     return {
       status: "error",
       error: errorMessage,
+      redirectChain: chain,
     };
   }
 }
 
+/**
+ * Builds an MCP image content block for image responses returned as base64
+ */
+export function toImageContent(
+  result: ProxyFetchResponse
+): { type: "image"; data: string; mimeType: string } | null {
+  if (result.bodyEncoding !== "base64" || !result.body) {
+    return null;
+  }
+  const { mediaType } = parseContentType(result.contentType ?? null);
+  if (!IMAGE_CONTENT_TYPES.includes(mediaType)) {
+    return null;
+  }
+  return { type: "image", data: result.body, mimeType: mediaType };
+}
+
 /**
  * MCP Tool definition for proxy_fetch
  */
 export const proxyFetchToolDefinition = {
   name: "proxy_fetch",
   description:
-    "Make HTTP requests to any URL. Bypasses Claude Desktop sandbox network restrictions. Returns response status, headers, and body. For new domains, you may need to provide approve: 'once' or 'always' to proceed.",
+    "Make HTTP requests to any URL. Bypasses Claude Desktop sandbox network restrictions. Returns response status, headers, and body. Requests to new domains wait for the user to approve them.",
   inputSchema: {
     type: "object" as const,
     properties: {
@@ -310,11 +1122,29 @@ export const proxyFetchToolDefinition = {
         type: "number",
         description: "Timeout in milliseconds (default: 30000)",
       },
-      approve: {
+      response_encoding: {
         type: "string",
-        enum: ["once", "always"],
+        enum: ["auto", "text", "base64"],
+        description:
+          "How to return the body (default: auto). auto decodes text using the declared charset and returns binary content (images, PDFs, archives) as base64; images are also returned as image content.",
+      },
+      save_to: {
+        type: "string",
+        description:
+          "Absolute file path to stream the response body to instead of returning it. Must be under the download directory (fetch.downloadDirectory, default /tmp/mcp-proxy-downloads) or the workspace root. Resumes a previous partial download of the same path. Returns the path, size, SHA-256 and content type.",
+      },
+      max_size: {
+        type: "number",
+        description: "Maximum download size in bytes for save_to (default and upper bound: fetch.maxDownloadSize, 2GB)",
+      },
+      expected_sha256: {
+        type: "string",
+        description: "Expected SHA-256 hex digest for save_to; the download is discarded if it does not match",
+      },
+      follow_redirects: {
+        type: "boolean",
         description:
-          "Approve this domain: 'once' for this request only, 'always' to remember",
+          "Follow HTTP redirects (default: true). Every hop is checked against the domain allowlist and SSRF protection.",
       },
     },
     required: ["url"],
@@ -1,4 +1,5 @@
 import * as fs from "fs/promises";
+import { CANCELLED_MESSAGE } from "../utils/cancellation.js";
 import { isBlockedPath } from "../utils/file-blocklist.js";
 
 export interface ReadFileInput {
@@ -7,8 +8,13 @@ export interface ReadFileInput {
   maxSize?: number; // in bytes, default 5MB
 }
 
+export interface ReadFileOptions {
+  /** Aborts the read when the client cancels the request */
+  signal?: AbortSignal;
+}
+
 export interface ReadFileResult {
-  status: "success" | "error";
+  status: "success" | "cancelled" | "error";
   path?: string;
   content?: string;
   size?: number;
@@ -18,7 +24,10 @@ export interface ReadFileResult {
 
 const DEFAULT_MAX_SIZE = 5 * 1024 * 1024; // 5MB
 
-export async function readFile(input: ReadFileInput): Promise<ReadFileResult> {
+export async function readFile(
+  input: ReadFileInput,
+  options: ReadFileOptions = {}
+): Promise<ReadFileResult> {
   const { path: filePath, encoding = "utf8", maxSize = DEFAULT_MAX_SIZE } = input;
 
   // Validate input
@@ -60,10 +69,10 @@ export async function readFile(input: ReadFileInput): Promise<ReadFileResult> {
     // Read file
     let content: string;
     if (encoding === "base64") {
-      const buffer = await fs.readFile(filePath);
+      const buffer = await fs.readFile(filePath, { signal: options.signal });
       content = buffer.toString("base64");
     } else {
-      content = await fs.readFile(filePath, "utf8");
+      content = await fs.readFile(filePath, { encoding: "utf8", signal: options.signal });
     }
 
     console.error(`[read_file] SUCCESS: Read ${stats.size} bytes from ${filePath}`);
@@ -76,6 +85,14 @@ export async function readFile(input: ReadFileInput): Promise<ReadFileResult> {
       encoding,
     };
   } catch (error) {
+    if (options.signal?.aborted) {
+      console.error(`[read_file] Cancelled: ${filePath}`);
+      return {
+        status: "cancelled",
+        error: CANCELLED_MESSAGE,
+      };
+    }
+
     const err = error as NodeJS.ErrnoException;
 
     if (err.code === "ENOENT") {
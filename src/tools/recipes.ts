@@ -0,0 +1,163 @@
+/**
+ * Recipe Tools
+ * run_recipe plus one tool per configured recipe, all running through network_exec
+ */
+import { getRecipes } from "../config/manager.js";
+import type { Recipe } from "../config/defaults.js";
+import { expandRecipe, isParamRequired } from "../utils/recipe.js";
+import {
+  networkExec,
+  type NetworkExecOptions,
+  type NetworkExecResponse,
+} from "./network-exec.js";
+
+/**
+ * Per-recipe tools are named "recipe_<name>"
+ */
+export const RECIPE_TOOL_PREFIX = "recipe_";
+
+// Tool names are limited to 64 characters
+const RECIPE_NAME_REGEX = /^[a-zA-Z0-9_-]{1,57}$/;
+
+export interface RunRecipeInput {
+  recipe: string;
+  params?: Record<string, unknown>;
+  cwd?: string;
+  timeout?: number;
+  background?: boolean;
+  workspace?: boolean;
+}
+
+export interface RunRecipeResponse extends NetworkExecResponse {
+  /** The command line the recipe expanded to */
+  commandLine?: string[];
+}
+
+/**
+ * Expands a recipe and runs it through network_exec
+ * (so allowlists, policies, approval and limits all apply as usual)
+ */
+export async function runRecipe(
+  input: RunRecipeInput,
+  options: NetworkExecOptions = {}
+): Promise<RunRecipeResponse> {
+  const recipes = await getRecipes();
+  const recipe = Object.hasOwn(recipes, input.recipe) ? recipes[input.recipe] : undefined;
+  if (!recipe) {
+    const available = Object.keys(recipes);
+    return {
+      status: "error",
+      error: `Recipe not found: ${input.recipe}. ${available.length > 0 ? `Available recipes: ${available.join(", ")}` : "No recipes are configured."}`,
+    };
+  }
+
+  const expansion = expandRecipe(recipe, input.params);
+  if (!expansion.valid) {
+    return {
+      status: "error",
+      error: `Invalid parameters for recipe "${input.recipe}": ${expansion.error}`,
+    };
+  }
+
+  console.error(`[run_recipe] ${input.recipe}: ${recipe.command} ${expansion.args.join(" ")}`);
+
+  const result = await networkExec(
+    {
+      command: recipe.command,
+      args: expansion.args,
+      cwd: input.cwd,
+      timeout: input.timeout ?? recipe.timeout,
+      background: input.background ?? recipe.background,
+      workspace: input.workspace ?? recipe.workspace,
+    },
+    options
+  );
+  return { ...result, commandLine: [recipe.command, ...expansion.args] };
+}
+
+/**
+ * Returns the recipe a per-recipe tool runs, if the name is one
+ */
+export function recipeNameFromTool(toolName: string): string | undefined {
+  return toolName.startsWith(RECIPE_TOOL_PREFIX)
+    ? toolName.slice(RECIPE_TOOL_PREFIX.length)
+    : undefined;
+}
+
+function recipeInputSchema(recipe: Recipe) {
+  const properties: Record<string, Record<string, unknown>> = {};
+  const required: string[] = [];
+
+  for (const [name, param] of Object.entries(recipe.params ?? {})) {
+    properties[name] = {
+      type: param.type === "number" ? "number" : "string",
+      ...(param.type === "enum" ? { enum: param.values ?? [] } : {}),
+      ...(param.type === "url" ? { format: "uri" } : {}),
+      ...(param.description ? { description: param.description } : {}),
+      ...(param.default !== undefined ? { default: param.default } : {}),
+    };
+    if (isParamRequired(param)) {
+      required.push(name);
+    }
+  }
+
+  return { type: "object" as const, properties, required };
+}
+
+/**
+ * Tool definitions for the configured recipes
+ */
+export async function getRecipeToolDefinitions() {
+  const recipes = await getRecipes();
+  const definitions = [];
+
+  for (const [name, recipe] of Object.entries(recipes)) {
+    if (!RECIPE_NAME_REGEX.test(name)) {
+      console.error(`[run_recipe] Skipping recipe with an invalid tool name: ${name}`);
+      continue;
+    }
+    definitions.push({
+      name: `${RECIPE_TOOL_PREFIX}${name}`,
+      description: `${recipe.description ?? `Runs ${recipe.command} with preset arguments.`} (Recipe "${name}", runs through network_exec.)`,
+      inputSchema: recipeInputSchema(recipe),
+    });
+  }
+
+  return definitions;
+}
+
+export const runRecipeToolDefinition = {
+  name: "run_recipe",
+  description:
+    "Run a named recipe from the config: a preset command and argument template filled in from typed parameters. Runs through network_exec, so the usual allowlist, policies and approval apply. Each recipe is also available as its own recipe_<name> tool.",
+  inputSchema: {
+    type: "object" as const,
+    properties: {
+      recipe: {
+        type: "string",
+        description: "Name of the recipe",
+      },
+      params: {
+        type: "object",
+        description: "Values for the recipe's parameters",
+      },
+      cwd: {
+        type: "string",
+        description: "Working directory for the command",
+      },
+      timeout: {
+        type: "number",
+        description: "Timeout in milliseconds (default: the recipe's timeout)",
+      },
+      background: {
+        type: "boolean",
+        description: "Run as a background job (default: the recipe's setting)",
+      },
+      workspace: {
+        type: "boolean",
+        description: "Run in a new scratch directory (default: the recipe's setting)",
+      },
+    },
+    required: ["recipe"],
+  },
+};
@@ -0,0 +1,137 @@
+/**
+ * Human Approval
+ *
+ * Routes approval of new domains and commands to the human instead of the model.
+ * Uses MCP elicitation when the client supports it, and otherwise a local
+ * approval page on the HTTP server that waits for the user to decide.
+ */
+
+import { spawn } from "node:child_process";
+import { getApprovalConfig } from "../config/manager.js";
+import {
+  getApprovalQueue,
+  type ApprovalOutcome,
+  type ApprovalRequest,
+} from "../server/approval-queue.js";
+import { getHttpServer, startHttpServer } from "../server/http-server.js";
+import { onAbort } from "./cancellation.js";
+
+/**
+ * Asks the user through the MCP client
+ * Returns null when the client cannot elicit, so the local page is used instead
+ */
+export type ApprovalElicitor = (
+  request: ApprovalRequest,
+  timeoutMs: number,
+  signal?: AbortSignal
+) => Promise<ApprovalOutcome | null>;
+
+let elicitor: ApprovalElicitor | null = null;
+
+/**
+ * Registers the MCP elicitation channel (set up by the server entry point)
+ */
+export function setApprovalElicitor(fn: ApprovalElicitor | null): void {
+  elicitor = fn;
+}
+
+/**
+ * Opens a URL in the user's default browser
+ */
+function openInBrowser(url: string): void {
+  const [command, args] =
+    process.platform === "darwin"
+      ? ["open", [url]]
+      : process.platform === "win32"
+        ? ["cmd", ["/c", "start", "", url]]
+        : ["xdg-open", [url]];
+
+  try {
+    const child = spawn(command, args, {
+      detached: true,
+      stdio: "ignore",
+      shell: false,
+    });
+    child.on("error", (error) => {
+      console.error(`[approval] Could not open browser: ${error.message}`);
+    });
+    child.unref();
+  } catch (error) {
+    const msg = error instanceof Error ? error.message : String(error);
+    console.error(`[approval] Could not open browser: ${msg}`);
+  }
+}
+
+/**
+ * Waits for a decision on the local approval page
+ */
+async function requestPageApproval(
+  request: ApprovalRequest,
+  timeoutMs: number,
+  openBrowser: boolean,
+  signal?: AbortSignal
+): Promise<ApprovalOutcome> {
+  const httpServer = getHttpServer();
+  const port = httpServer.isRunning()
+    ? httpServer.getPort()!
+    : await startHttpServer();
+
+  const queue = getApprovalQueue();
+  const { approval, decision } = queue.create(request, timeoutMs);
+  const approvalUrl = `http://localhost:${port}/approvals/${approval.id}`;
+  const indexUrl = `http://localhost:${port}/approvals`;
+  console.error(`[approval] Waiting for decision at ${approvalUrl} (all pending: ${indexUrl})`);
+
+  // Withdraw the pending approval if the tool call is cancelled
+  const removeListener = onAbort(signal, () => queue.cancel(approval.id));
+
+  if (openBrowser) {
+    openInBrowser(approvalUrl);
+  }
+
+  try {
+    return { ...(await decision), approvalUrl: indexUrl };
+  } finally {
+    removeListener();
+  }
+}
+
+/**
+ * Tells the model where the user can find pending approvals, for needs_approval
+ * messages (the browser may not have opened, e.g. over SSH)
+ */
+export function approvalPageHint(approvalUrl: string | undefined): string {
+  return approvalUrl ? ` The user can find pending approvals at ${approvalUrl}.` : "";
+}
+
+/**
+ * Asks the human to approve a domain, command or config change
+ *
+ * Resolves with "once", "always", "deny_once", "deny", or "timeout" if nobody answered
+ * within the configured approval timeout (or the signal aborted). "always"
+ * comes with the chosen duration and whether to limit it to request.scope.
+ */
+export async function requestApproval(
+  request: ApprovalRequest,
+  signal?: AbortSignal
+): Promise<ApprovalOutcome> {
+  const config = await getApprovalConfig();
+  const timeoutMs = config.timeoutSeconds * 1000;
+
+  if (elicitor) {
+    try {
+      const outcome = await elicitor(request, timeoutMs, signal);
+      if (outcome !== null) {
+        return outcome;
+      }
+    } catch (error) {
+      if (signal?.aborted) {
+        return { decision: "timeout" };
+      }
+      const msg = error instanceof Error ? error.message : String(error);
+      console.error(`[approval] Elicitation failed, using approval page: ${msg}`);
+    }
+  }
+
+  return requestPageApproval(request, timeoutMs, config.openBrowser, signal);
+}
@@ -0,0 +1,123 @@
+/**
+ * Binary Resolution
+ *
+ * Resolves a command to the binary that would actually run (PATH lookup,
+ * symlinks followed) and hashes it, so approvals can be pinned to a file.
+ */
+
+import * as fs from "node:fs/promises";
+import * as path from "node:path";
+import type { ResolvedBinary } from "../config/manager.js";
+import { hashFile } from "./download.js";
+
+export interface ResolvedCommand extends ResolvedBinary {
+  /** Path to spawn (the PATH entry that matched, before following symlinks) */
+  execPath: string;
+}
+
+export interface ResolveCommandOptions {
+  cwd?: string;
+  /** Environment the command will run with (its PATH is searched) */
+  env?: NodeJS.ProcessEnv;
+  /** Whether to compute the binary's SHA-256 */
+  hash?: boolean;
+}
+
+/**
+ * Hashes keyed by real path; reused while size, inode and ctime are unchanged
+ */
+const hashCache = new Map<
+  string,
+  { size: number; ino: number; ctimeMs: number; sha256: string }
+>();
+
+async function isExecutableFile(filePath: string): Promise<boolean> {
+  try {
+    const stats = await fs.stat(filePath);
+    if (!stats.isFile()) {
+      return false;
+    }
+    if (process.platform !== "win32") {
+      await fs.access(filePath, fs.constants.X_OK);
+    }
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Finds the file a command name refers to, the same way spawn() would
+ * Returns null if nothing executable is found.
+ */
+async function findExecutable(
+  command: string,
+  cwd: string,
+  env: NodeJS.ProcessEnv
+): Promise<string | null> {
+  const extensions =
+    process.platform === "win32"
+      ? ["", ...(env.PATHEXT ?? ".COM;.EXE;.BAT;.CMD").split(";")]
+      : [""];
+
+  // Commands with a directory part are not looked up in PATH
+  const candidates = command.includes("/") || command.includes(path.sep)
+    ? [path.resolve(cwd, command)]
+    : (env.PATH ?? env.Path ?? "")
+        .split(path.delimiter)
+        .filter(Boolean)
+        .map((dir) => path.resolve(cwd, dir, command));
+
+  for (const candidate of candidates) {
+    for (const ext of extensions) {
+      if (await isExecutableFile(candidate + ext)) {
+        return candidate + ext;
+      }
+    }
+  }
+  return null;
+}
+
+async function hashBinary(realPath: string): Promise<string> {
+  const stats = await fs.stat(realPath);
+  const cached = hashCache.get(realPath);
+  if (
+    cached &&
+    cached.size === stats.size &&
+    cached.ino === stats.ino &&
+    cached.ctimeMs === stats.ctimeMs
+  ) {
+    return cached.sha256;
+  }
+
+  const sha256 = await hashFile(realPath);
+  hashCache.set(realPath, {
+    size: stats.size,
+    ino: stats.ino,
+    ctimeMs: stats.ctimeMs,
+    sha256,
+  });
+  return sha256;
+}
+
+/**
+ * Resolves a command to its binary (and optionally its SHA-256)
+ * Returns null if the command cannot be found.
+ */
+export async function resolveCommand(
+  command: string,
+  options: ResolveCommandOptions = {}
+): Promise<ResolvedCommand | null> {
+  const cwd = options.cwd ?? process.cwd();
+  const execPath = await findExecutable(command, cwd, options.env ?? process.env);
+  if (!execPath) {
+    return null;
+  }
+
+  const realPath = await fs.realpath(execPath);
+  return {
+    execPath,
+    path: realPath,
+    sha256: options.hash ? await hashBinary(realPath) : undefined,
+  };
+}
@@ -0,0 +1,27 @@
+/**
+ * Cancellation
+ *
+ * Shared helpers for honoring MCP request cancellation (notifications/cancelled).
+ * Every tool returns status "cancelled" with this message when its signal aborts.
+ */
+
+export const CANCELLED_MESSAGE = "Request was cancelled by the client";
+
+/**
+ * Runs a callback when the signal aborts (immediately if it already has)
+ * Returns a function that removes the listener
+ */
+export function onAbort(
+  signal: AbortSignal | undefined,
+  callback: () => void
+): () => void {
+  if (!signal) {
+    return () => {};
+  }
+  if (signal.aborted) {
+    callback();
+    return () => {};
+  }
+  signal.addEventListener("abort", callback, { once: true });
+  return () => signal.removeEventListener("abort", callback);
+}
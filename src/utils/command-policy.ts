@@ -0,0 +1,296 @@
+/**
+ * Command Policy
+ *
+ * Evaluates per-command argument rules (config.commandPolicies) so that
+ * allowlisting a command doesn't allow every possible flag.
+ */
+
+import * as os from "node:os";
+import * as path from "node:path";
+import { isDomainAllowed } from "../config/manager.js";
+import { EGRESS_OVERRIDE_FLAGS, type CommandPolicy } from "../config/defaults.js";
+
+export type CommandPolicyRule =
+  | "allowedFlags"
+  | "deniedFlags"
+  | "requiredFlags"
+  | "allowedPaths"
+  | "checkUrls";
+
+export type CommandPolicyResult =
+  | { allowed: true }
+  | { allowed: false; rule: CommandPolicyRule; reason: string };
+
+/**
+ * A flag as it appears in the arguments, with its inline value if any
+ * Short clusters ("-sK") become one flag per letter; written keeps the argument
+ * as typed so patterns like "-o*" still match "-ofile".
+ */
+interface ParsedFlag {
+  name: string;
+  written: string;
+  inlineValue?: string;
+  index: number;
+}
+
+// Any "scheme://" argument is treated as a URL
+const URL_REGEX = /^[a-z][a-z0-9+.-]*:\/\//i;
+
+// Scheme-less arguments that look like a host, which curl and wget treat as URLs
+// (checked with checkHosts): "evil.com", "evil.com:8080/path", "203.0.113.9",
+// "[2001:db8::1]", "localhost". File names ("out.mp4") look the same.
+const HOST_ARG_REGEX =
+  /^(?:(?:[a-z0-9-]+\.)+[a-z][a-z0-9-]*\.?|\d{1,3}(?:\.\d{1,3}){3}|\[[0-9a-f:.]+\]|localhost)(?::\d+)?(?:[/?#].*)?$/i;
+
+/**
+ * Wildcard match for flags (case-sensitive: curl's -o and -O differ)
+ */
+function matchesFlag(flag: string, pattern: string): boolean {
+  const regexPattern = pattern
+    .replace(/[.+?^${}()|[\]\\]/g, "\\$&")
+    .replace(/\*/g, ".*");
+  return new RegExp(`^${regexPattern}$`).test(flag);
+}
+
+function matchesAnyFlag(flag: string, patterns: string[]): boolean {
+  return patterns.some((pattern) => matchesFlag(flag, pattern));
+}
+
+/**
+ * Checks if a long flag could be an abbreviation of a pattern's flag
+ * getopt_long accepts unambiguous prefixes, so "--outp" can mean "--output".
+ * Flags named exactly somewhere in the policy are taken as written.
+ */
+function abbreviates(flag: string, pattern: string, knownFlags: Set<string>): boolean {
+  if (!flag.startsWith("--") || flag.length < 3 || !pattern.startsWith("--") || knownFlags.has(flag)) {
+    return false;
+  }
+  const star = pattern.indexOf("*");
+  const literal = star === -1 ? pattern : pattern.slice(0, star);
+  return literal.startsWith(flag);
+}
+
+/**
+ * Matches a flag as parsed or as written, including long-option abbreviations
+ */
+function flagMatches(flag: ParsedFlag, patterns: string[], knownFlags: Set<string>): string | undefined {
+  return patterns.find(
+    (pattern) =>
+      matchesFlag(flag.name, pattern) ||
+      matchesFlag(flag.written, pattern) ||
+      abbreviates(flag.name, pattern, knownFlags)
+  );
+}
+
+/**
+ * Collects flags, stopping at "--" (everything after it is positional)
+ * "--output=file" is split into its name and inline value. Short clusters are
+ * expanded until a path flag or a non-alphanumeric character, whose remainder
+ * is the inline value: "-sofile" is "-s", "-o file".
+ */
+function parseFlags(args: string[], pathFlags: string[]): ParsedFlag[] {
+  const flags: ParsedFlag[] = [];
+  for (let i = 0; i < args.length; i++) {
+    const arg = args[i];
+    if (arg === "--") {
+      break;
+    }
+    if (!arg.startsWith("-") || arg === "-") {
+      continue;
+    }
+    if (arg.startsWith("--")) {
+      const eq = arg.indexOf("=");
+      if (eq !== -1) {
+        flags.push({ name: arg.slice(0, eq), written: arg.slice(0, eq), inlineValue: arg.slice(eq + 1), index: i });
+      } else {
+        flags.push({ name: arg, written: arg, index: i });
+      }
+      continue;
+    }
+
+    for (let j = 1; j < arg.length; j++) {
+      const char = arg[j];
+      const previous = flags[flags.length - 1];
+      if (!/[a-z0-9]/i.test(char) && j > 1 && previous?.index === i) {
+        previous.inlineValue = arg.slice(j);
+        break;
+      }
+      const name = `-${char}`;
+      const flag: ParsedFlag = { name, written: arg, index: i };
+      flags.push(flag);
+      if (pathFlags.includes(name) && j < arg.length - 1) {
+        flag.inlineValue = arg.slice(j + 1);
+        break;
+      }
+    }
+  }
+  return flags;
+}
+
+/**
+ * Describes a flag for error messages: "-K" (in "-sK")
+ */
+function describeFlag(flag: ParsedFlag): string {
+  return flag.written !== flag.name && !flag.written.startsWith("--")
+    ? `"${flag.name}" (in "${flag.written}")`
+    : `"${flag.name}"`;
+}
+
+/**
+ * Returns the value of a path flag: inline ("--output=x", "-ox") or the next argument
+ */
+function pathFlagValue(
+  flag: ParsedFlag,
+  pathFlag: string,
+  args: string[],
+  knownFlags: Set<string>
+): string | undefined {
+  if (flag.name !== pathFlag && !abbreviates(flag.name, pathFlag, knownFlags)) {
+    return undefined;
+  }
+  return flag.inlineValue ?? args[flag.index + 1];
+}
+
+function expandHome(dir: string): string {
+  return dir === "~" || dir.startsWith("~/")
+    ? path.join(os.homedir(), dir.slice(1))
+    : dir;
+}
+
+function isUnderDirectory(filePath: string, dir: string): boolean {
+  const relative = path.relative(path.resolve(expandHome(dir)), filePath);
+  return relative === "" || (!relative.startsWith("..") && !path.isAbsolute(relative));
+}
+
+/**
+ * Checks command arguments against a command's policy
+ * Relative paths are resolved against cwd (the command's working directory).
+ */
+export async function evaluateCommandPolicy(
+  args: string[],
+  policy: CommandPolicy,
+  cwd: string = process.cwd()
+): Promise<CommandPolicyResult> {
+  const knownFlags = new Set(
+    [
+      ...(policy.allowedFlags ?? []),
+      ...(policy.deniedFlags ?? []),
+      ...(policy.requiredFlags ?? []),
+      ...(policy.pathFlags ?? []),
+    ].filter((flag) => !flag.includes("*"))
+  );
+  const flags = parseFlags(args, policy.pathFlags ?? []);
+
+  for (const flag of flags) {
+    if (policy.deniedFlags && flagMatches(flag, policy.deniedFlags, knownFlags)) {
+      return {
+        allowed: false,
+        rule: "deniedFlags",
+        reason: `Flag ${describeFlag(flag)} is denied`,
+      };
+    }
+    if (
+      policy.allowedFlags &&
+      !matchesAnyFlag(flag.name, policy.allowedFlags) &&
+      !matchesAnyFlag(flag.written, policy.allowedFlags)
+    ) {
+      return {
+        allowed: false,
+        rule: "allowedFlags",
+        reason: `Flag ${describeFlag(flag)} is not in the allowed flags`,
+      };
+    }
+  }
+
+  for (const required of policy.requiredFlags ?? []) {
+    if (!flags.some((flag) => matchesFlag(flag.name, required) || matchesFlag(flag.written, required))) {
+      return {
+        allowed: false,
+        rule: "requiredFlags",
+        reason: `Required flag "${required}" is missing`,
+      };
+    }
+  }
+
+  // Arguments taken as path values are not URLs
+  const pathValueIndexes = new Set<number>();
+  for (const pathFlag of policy.pathFlags ?? []) {
+    for (const flag of flags) {
+      const value = pathFlagValue(flag, pathFlag, args, knownFlags);
+      if (value === undefined) {
+        continue;
+      }
+      if (flag.inlineValue === undefined) {
+        pathValueIndexes.add(flag.index + 1);
+      }
+      // "-" conventionally means stdout/stdin
+      if (value === "-") {
+        continue;
+      }
+      const resolved = path.resolve(cwd, expandHome(value));
+      const allowedPaths = policy.allowedPaths ?? [];
+      if (!allowedPaths.some((dir) => isUnderDirectory(resolved, dir))) {
+        return {
+          allowed: false,
+          rule: "allowedPaths",
+          reason: `Path "${value}" for ${pathFlag} is outside the allowed directories${allowedPaths.length > 0 ? ` (${allowedPaths.join(", ")})` : ""}`,
+        };
+      }
+    }
+  }
+
+  if (policy.checkUrls) {
+    for (const [index, arg] of args.entries()) {
+      if (pathValueIndexes.has(index)) {
+        continue;
+      }
+      // Check both plain arguments and "--url=..." values
+      const eq = arg.startsWith("--") ? arg.indexOf("=") : -1;
+      let value = eq !== -1 ? arg.slice(eq + 1) : arg;
+      if (!URL_REGEX.test(value)) {
+        // A bare host is fetched over http
+        if (!policy.checkHosts || !HOST_ARG_REGEX.test(value)) {
+          continue;
+        }
+        value = `http://${value}`;
+      }
+
+      let url: URL;
+      try {
+        url = new URL(value);
+      } catch {
+        return { allowed: false, rule: "checkUrls", reason: `Invalid URL "${value}"` };
+      }
+      if (url.protocol !== "http:" && url.protocol !== "https:") {
+        return {
+          allowed: false,
+          rule: "checkUrls",
+          reason: `URL scheme "${url.protocol}" is not allowed (only http and https)`,
+        };
+      }
+
+      const status = await isDomainAllowed(value);
+      if (status !== "ALLOWED") {
+        return {
+          allowed: false,
+          rule: "checkUrls",
+          reason:
+            status === "BLOCKED"
+              ? `Domain "${url.hostname}" is blocked`
+              : status === "DENIED"
+                ? `Domain "${url.hostname}" was denied by the user`
+                : `Domain "${url.hostname}" is not in the allowed domains`,
+        };
+      }
+    }
+  }
+
+  return { allowed: true };
+}
+
+/**
+ * Flags that would let a command bypass the egress proxy
+ */
+export function egressOverrideFlags(command: string): string[] {
+  return [...EGRESS_OVERRIDE_FLAGS["*"], ...(EGRESS_OVERRIDE_FLAGS[path.basename(command).toLowerCase()] ?? [])];
+}
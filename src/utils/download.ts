@@ -0,0 +1,102 @@
+/**
+ * Download Utilities
+ *
+ * Streams response bodies straight to disk with a size cap, progress
+ * reporting and SHA-256 hashing, so large downloads never sit in memory.
+ */
+
+import * as crypto from "node:crypto";
+import * as fs from "node:fs";
+import { Readable, Transform } from "node:stream";
+import { pipeline } from "node:stream/promises";
+
+/**
+ * Minimum interval between progress callbacks
+ */
+const PROGRESS_INTERVAL_MS = 500;
+
+/**
+ * Called with the bytes on disk so far and the expected total, if known
+ */
+export type DownloadProgressCallback = (received: number, total?: number) => void;
+
+export interface StreamToFileOptions {
+  /** Bytes already in the file; the body is appended after them */
+  offset: number;
+  /** Expected final size, if known */
+  total?: number;
+  /** Maximum final file size in bytes */
+  maxSize: number;
+  onProgress?: DownloadProgressCallback;
+}
+
+/**
+ * Feeds an existing file into a hash
+ */
+async function updateHashFromFile(filePath: string, hash: crypto.Hash): Promise<void> {
+  for await (const chunk of fs.createReadStream(filePath)) {
+    hash.update(chunk as Buffer);
+  }
+}
+
+/**
+ * Computes the SHA-256 of a file
+ */
+export async function hashFile(filePath: string): Promise<string> {
+  const hash = crypto.createHash("sha256");
+  await updateHashFromFile(filePath, hash);
+  return hash.digest("hex");
+}
+
+/**
+ * Streams a response body to a file
+ * Appends when options.offset > 0, otherwise truncates the file.
+ * Returns the final file size and its SHA-256 (covering any resumed bytes).
+ */
+export async function streamToFile(
+  body: ReadableStream<Uint8Array>,
+  filePath: string,
+  options: StreamToFileOptions
+): Promise<{ size: number; sha256: string }> {
+  const hash = crypto.createHash("sha256");
+  if (options.offset > 0) {
+    await updateHashFromFile(filePath, hash);
+  }
+
+  let size = options.offset;
+  let lastProgress = 0;
+
+  const meter = new Transform({
+    transform(chunk: Buffer, _encoding, callback) {
+      size += chunk.length;
+      if (size > options.maxSize) {
+        callback(
+          new Error(
+            `Download too large: exceeded ${options.maxSize} bytes`
+          )
+        );
+        return;
+      }
+
+      hash.update(chunk);
+
+      const now = Date.now();
+      if (options.onProgress && now - lastProgress >= PROGRESS_INTERVAL_MS) {
+        lastProgress = now;
+        options.onProgress(size, options.total);
+      }
+
+      callback(null, chunk);
+    },
+  });
+
+  await pipeline(
+    Readable.fromWeb(body as Parameters<typeof Readable.fromWeb>[0]),
+    meter,
+    fs.createWriteStream(filePath, { flags: options.offset > 0 ? "a" : "w" })
+  );
+
+  options.onProgress?.(size, options.total ?? size);
+
+  return { size, sha256: hash.digest("hex") };
+}
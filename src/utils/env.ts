@@ -0,0 +1,77 @@
+/**
+ * Command Environment
+ *
+ * Builds the environment for network_exec commands from the env policy,
+ * so host secrets (API keys, cloud credentials) aren't inherited by tools.
+ */
+
+import * as path from "node:path";
+import type { EnvPolicy } from "../config/defaults.js";
+
+/**
+ * Wildcard match for variable names (case-insensitive, as on Windows)
+ */
+function matchesVar(name: string, pattern: string): boolean {
+  const regexPattern = pattern
+    .replace(/[.+?^${}()|[\]\\]/g, "\\$&")
+    .replace(/\*/g, ".*");
+  return new RegExp(`^${regexPattern}$`, "i").test(name);
+}
+
+function matchesAnyVar(name: string, patterns: string[]): boolean {
+  return patterns.some((pattern) => matchesVar(name, pattern));
+}
+
+/**
+ * Checks caller-supplied variables against blockedInputVars
+ */
+export function validateInputEnv(
+  inputEnv: Record<string, string> | undefined,
+  policy: EnvPolicy
+): { valid: boolean; error?: string } {
+  for (const name of Object.keys(inputEnv ?? {})) {
+    if (matchesAnyVar(name, policy.blockedInputVars)) {
+      return {
+        valid: false,
+        error: `Environment variable "${name}" cannot be set for security reasons.`,
+      };
+    }
+  }
+  return { valid: true };
+}
+
+/**
+ * Builds a command's environment
+ *
+ * Host variables are inherited if they match allowedVars and not deniedVars,
+ * or if they are listed in the command's passthrough. Caller-supplied
+ * variables (already validated) are added on top.
+ */
+export function buildCommandEnv(
+  command: string,
+  inputEnv: Record<string, string> | undefined,
+  policy: EnvPolicy,
+  hostEnv: NodeJS.ProcessEnv = process.env
+): NodeJS.ProcessEnv {
+  const commandName = path.basename(command).toLowerCase();
+  const passthroughKey = Object.keys(policy.passthrough).find(
+    (key) => key.toLowerCase() === commandName
+  );
+  const passthrough = passthroughKey ? policy.passthrough[passthroughKey] : [];
+
+  const env: NodeJS.ProcessEnv = {};
+  for (const [name, value] of Object.entries(hostEnv)) {
+    if (value === undefined) {
+      continue;
+    }
+    const inherited =
+      matchesAnyVar(name, passthrough) ||
+      (matchesAnyVar(name, policy.allowedVars) &&
+        !matchesAnyVar(name, policy.deniedVars));
+    if (inherited) {
+      env[name] = value;
+    }
+  }
+
+  return { ...env, ...inputEnv };
+}
@@ -0,0 +1,169 @@
+/**
+ * Host Canonicalization
+ *
+ * Brings hostnames and IP literals into one form before they are matched
+ * against the domain lists, and matches IP addresses against CIDR entries.
+ * Numeric IPv4 forms (2130706433, 0x7f.1, 127.1, 0177.0.0.1), IPv6
+ * spellings, IDNs and trailing dots all reduce to the same string.
+ */
+
+import * as net from "node:net";
+
+// A bare hostname or IP literal (no scheme, port, path or credentials)
+const BARE_HOST_REGEX = /^[^\s/?#@\\:]+$/;
+// "address/prefix", with optional brackets around an IPv6 address
+const CIDR_REGEX = /^\[?([0-9a-f:.]+)\]?\/(\d{1,3})$/i;
+
+/**
+ * Canonical form of a hostname or IP literal
+ *
+ * IPv4 in any numeric form becomes dotted decimal, IPv6 loses its brackets
+ * and zone id and is compressed, IDNs become punycode, and trailing dots go.
+ */
+export function canonicalizeHost(host: string): string {
+  const value = host.trim().toLowerCase().replace(/\.+$/, "");
+
+  const unbracketed = value.replace(/^\[/, "").replace(/\]$/, "").replace(/%.*$/, "");
+  if (net.isIPv6(unbracketed)) {
+    return new URL(`http://[${unbracketed}]/`).hostname.slice(1, -1);
+  }
+
+  if (!BARE_HOST_REGEX.test(value)) {
+    return value;
+  }
+  try {
+    // The URL parser normalizes numeric IPv4 forms and converts IDNs
+    return new URL(`http://${value}/`).hostname.replace(/\.+$/, "");
+  } catch {
+    return value;
+  }
+}
+
+/**
+ * Expands an IPv6 address into its eight 16-bit groups
+ */
+export function expandIPv6(address: string): number[] {
+  let value = address.toLowerCase();
+
+  // Convert a trailing dotted IPv4 part into two hex groups
+  const dotted = value.match(/(\d+\.\d+\.\d+\.\d+)$/);
+  if (dotted) {
+    const octets = dotted[1].split(".").map(Number);
+    value =
+      value.slice(0, -dotted[1].length) +
+      ((octets[0] << 8) | octets[1]).toString(16) +
+      ":" +
+      ((octets[2] << 8) | octets[3]).toString(16);
+  }
+
+  const [head, tail] = value.split("::");
+  const headGroups = head ? head.split(":") : [];
+  const tailGroups = tail !== undefined && tail !== "" ? tail.split(":") : [];
+  const missing = 8 - headGroups.length - tailGroups.length;
+  const groups =
+    tail === undefined
+      ? headGroups
+      : [...headGroups, ...new Array<string>(missing).fill("0"), ...tailGroups];
+
+  return groups.map((group) => parseInt(group, 16));
+}
+
+/**
+ * Extracts an IPv4 address embedded in an IPv6 address, if any
+ * Covers IPv4-mapped (::ffff:a.b.c.d), IPv4-compatible (::a.b.c.d),
+ * NAT64 (64:ff9b::a.b.c.d) and 6to4 (2002:AABB:CCDD::) forms
+ */
+export function embeddedIPv4(address: string): string | null {
+  const g = expandIPv6(address);
+  const toIPv4 = (high: number, low: number) =>
+    [high >> 8, high & 0xff, low >> 8, low & 0xff].join(".");
+  const zeros = (from: number, to: number) =>
+    g.slice(from, to).every((group) => group === 0);
+
+  if (zeros(0, 5) && g[5] === 0xffff) {
+    return toIPv4(g[6], g[7]);
+  }
+  if (zeros(0, 6) && (g[6] !== 0 || g[7] > 1)) {
+    return toIPv4(g[6], g[7]);
+  }
+  if (g[0] === 0x64 && g[1] === 0xff9b && zeros(2, 6)) {
+    return toIPv4(g[6], g[7]);
+  }
+  if (g[0] === 0x2002) {
+    return toIPv4(g[1], g[2]);
+  }
+  return null;
+}
+
+/**
+ * The address as bytes (4 for IPv4, 16 for IPv6), or null if it isn't one
+ */
+function addressBytes(address: string): number[] | null {
+  if (net.isIPv4(address)) {
+    return address.split(".").map(Number);
+  }
+  if (net.isIPv6(address)) {
+    return expandIPv6(address).flatMap((group) => [group >> 8, group & 0xff]);
+  }
+  return null;
+}
+
+function inPrefix(bytes: number[], base: number[], prefix: number): boolean {
+  for (let bit = 0; bit < prefix; bit += 8) {
+    const bits = Math.min(8, prefix - bit);
+    const mask = (0xff << (8 - bits)) & 0xff;
+    if ((bytes[bit / 8] & mask) !== (base[bit / 8] & mask)) {
+      return false;
+    }
+  }
+  return true;
+}
+
+/**
+ * Parses a CIDR entry ("10.0.0.0/8", "fc00::/7"); a bare IP literal is a
+ * single-address range. Returns null for anything else.
+ */
+function parseAddressPattern(pattern: string): { base: number[]; prefix: number } | null {
+  const cidr = pattern.match(CIDR_REGEX);
+  const address = cidr ? cidr[1] : canonicalizeHost(pattern);
+  const base = addressBytes(address);
+  if (!base) {
+    return null;
+  }
+  const prefix = cidr ? Number(cidr[2]) : base.length * 8;
+  return prefix <= base.length * 8 ? { base, prefix } : null;
+}
+
+/**
+ * Whether a domain list entry is a CIDR range or IP literal
+ */
+export function isAddressPattern(pattern: string): boolean {
+  return parseAddressPattern(pattern) !== null;
+}
+
+/**
+ * Checks a canonical host against a CIDR or IP literal entry
+ *
+ * Returns null when the entry is not an address pattern, so the caller can
+ * fall back to hostname matching. IPv4-mapped IPv6 hosts (::ffff:a.b.c.d)
+ * also match IPv4 entries.
+ */
+export function matchesAddressPattern(host: string, pattern: string): boolean | null {
+  const range = parseAddressPattern(pattern);
+  if (!range) {
+    return null;
+  }
+
+  const candidates = [host];
+  if (net.isIPv6(host)) {
+    const g = expandIPv6(host);
+    if (g.slice(0, 5).every((group) => group === 0) && g[5] === 0xffff) {
+      candidates.push(embeddedIPv4(host)!);
+    }
+  }
+
+  return candidates.some((candidate) => {
+    const bytes = addressBytes(candidate);
+    return bytes !== null && bytes.length === range.base.length && inPrefix(bytes, range.base, range.prefix);
+  });
+}
@@ -0,0 +1,233 @@
+/**
+ * Process Utilities
+ *
+ * Shared helpers for stopping spawned child processes and limiting their resources.
+ */
+
+import type { ChildProcess } from "node:child_process";
+import * as fs from "node:fs/promises";
+import type { ResourceLimits } from "../config/defaults.js";
+import { resolveCommand } from "./binary.js";
+import { signalFromExitCode } from "./pty.js";
+
+/**
+ * Grace period between SIGTERM and SIGKILL
+ */
+const KILL_GRACE_MS = 5000;
+
+/**
+ * Checks if a child process has not exited yet
+ */
+export function isProcessRunning(child: ChildProcess): boolean {
+  return child.exitCode === null && child.signalCode === null;
+}
+
+/**
+ * Sends SIGTERM, then SIGKILL if the process is still running after the grace period
+ * The returned promise resolves once the process has exited (or shortly after SIGKILL).
+ */
+export function terminateProcess(
+  child: ChildProcess,
+  graceMs: number = KILL_GRACE_MS
+): Promise<void> {
+  if (!isProcessRunning(child)) {
+    return Promise.resolve();
+  }
+
+  return new Promise((resolve) => {
+    // Don't wait forever on a process that can't be reaped
+    const giveUp = setTimeout(resolve, graceMs + 1000);
+    giveUp.unref();
+    child.once("exit", () => {
+      clearTimeout(giveUp);
+      resolve();
+    });
+
+    child.kill("SIGTERM");
+
+    // Force kill if SIGTERM doesn't work
+    const forceKill = setTimeout(() => {
+      if (isProcessRunning(child)) {
+        child.kill("SIGKILL");
+      }
+    }, graceMs);
+    forceKill.unref();
+  });
+}
+
+/**
+ * A resource limit a command can be stopped for
+ */
+export type ResourceLimitName = "timeout" | "cpu" | "memory" | "fileSize";
+
+/**
+ * Extra CPU seconds between SIGXCPU (soft limit) and SIGKILL (hard limit)
+ */
+const CPU_HARD_LIMIT_GRACE_S = 5;
+
+// USER_HZ, which is 100 on every Linux platform Node supports
+const CLOCK_TICKS_PER_SECOND = 100;
+const CPU_SAMPLE_INTERVAL_MS = 500;
+
+// Bytes at the end of the output searched for limit errors
+const LIMIT_OUTPUT_TAIL = 4096;
+
+// Messages programs print when an allocation or write fails due to a limit
+const MEMORY_ERROR_REGEX = /out of memory|cannot allocate memory|MemoryError|bad_alloc|ENOMEM|\bOOM\b|Allocation failed/i;
+const FILE_SIZE_ERROR_REGEX = /EFBIG|file too large/i;
+
+let prlimitPath: Promise<string | null> | null = null;
+
+/**
+ * Finds prlimit (util-linux) once
+ */
+function findPrlimit(): Promise<string | null> {
+  if (!prlimitPath) {
+    prlimitPath = process.platform === "linux"
+      ? resolveCommand("prlimit").then((resolved) => resolved?.execPath ?? null)
+      : Promise.resolve(null);
+  }
+  return prlimitPath;
+}
+
+/**
+ * Wraps a command in prlimit to enforce CPU, memory and file size limits
+ * Returns the command unchanged (enforced: false) when prlimit isn't available.
+ */
+export async function applyResourceLimits(
+  command: string,
+  args: string[],
+  limits: ResourceLimits
+): Promise<{ command: string; args: string[]; enforced: boolean }> {
+  const prlimitArgs: string[] = [];
+  if (limits.cpuSeconds) {
+    const soft = Math.ceil(limits.cpuSeconds);
+    prlimitArgs.push(`--cpu=${soft}:${soft + CPU_HARD_LIMIT_GRACE_S}`);
+  }
+  if (limits.memoryBytes) {
+    prlimitArgs.push(`--as=${Math.floor(limits.memoryBytes)}`);
+  }
+  if (limits.fileSizeBytes) {
+    prlimitArgs.push(`--fsize=${Math.floor(limits.fileSizeBytes)}`);
+  }
+
+  if (prlimitArgs.length === 0) {
+    return { command, args, enforced: true };
+  }
+
+  const prlimit = await findPrlimit();
+  if (!prlimit) {
+    return { command, args, enforced: false };
+  }
+  return { command: prlimit, args: [...prlimitArgs, "--", command, ...args], enforced: true };
+}
+
+/**
+ * How a command ended, as passed to detectLimitExceeded
+ */
+export interface CommandExit {
+  signal: NodeJS.Signals | null;
+  exitCode: number | null;
+  /** Where the command reports errors (stderr, or stdout under a PTY) */
+  output: string;
+  /** Last CPU time sampled while it ran (see watchCpuTime) */
+  cpuSeconds?: number;
+  /** Ran under script(1), which reports signals as 128+N exit codes */
+  pty?: boolean;
+}
+
+/**
+ * Works out which resource limit stopped a command, if any
+ * Only a command that failed is considered: one killed by SIGXCPU or SIGXFSZ,
+ * or one that exited non-zero after printing an allocation or write error.
+ * SIGKILL counts as the CPU hard limit only when the soft limit was reached.
+ */
+export function detectLimitExceeded(
+  exit: CommandExit,
+  limits: ResourceLimits
+): ResourceLimitName | undefined {
+  let signal = exit.signal;
+  if (!signal && exit.pty && exit.exitCode !== null) {
+    // Any program can exit with 152 or 153 itself, but only the limit signals are considered
+    const fromExitCode = signalFromExitCode(exit.exitCode);
+    signal = fromExitCode === "SIGXCPU" || fromExitCode === "SIGXFSZ" ? fromExitCode : null;
+  }
+
+  if (limits.cpuSeconds) {
+    if (signal === "SIGXCPU") {
+      return "cpu";
+    }
+    if (signal === "SIGKILL" && exit.cpuSeconds !== undefined && exit.cpuSeconds >= limits.cpuSeconds) {
+      return "cpu";
+    }
+  }
+  if (limits.fileSizeBytes && signal === "SIGXFSZ") {
+    return "fileSize";
+  }
+
+  const failed = exit.signal !== null || (exit.exitCode !== null && exit.exitCode !== 0);
+  if (!failed || exit.signal === "SIGKILL") {
+    return undefined;
+  }
+  // Only the end of the output: the error is what the program printed last
+  const tail = exit.output.slice(-LIMIT_OUTPUT_TAIL);
+  if (limits.fileSizeBytes && FILE_SIZE_ERROR_REGEX.test(tail)) {
+    return "fileSize";
+  }
+  if (limits.memoryBytes && MEMORY_ERROR_REGEX.test(tail)) {
+    return "memory";
+  }
+  return undefined;
+}
+
+/**
+ * Samples a process's CPU time from /proc while it runs (Linux only)
+ * Returns a getter for the last sample in seconds, or undefined elsewhere.
+ */
+export function watchCpuTime(child: ChildProcess): () => number | undefined {
+  if (process.platform !== "linux" || child.pid === undefined) {
+    return () => undefined;
+  }
+
+  const statPath = `/proc/${child.pid}/stat`;
+  let seconds: number | undefined;
+  const sample = () => {
+    fs.readFile(statPath, "utf-8").then(
+      (stat) => {
+        // utime and stime are fields 14 and 15; the name before them may contain spaces
+        const fields = stat.slice(stat.lastIndexOf(")") + 2).split(" ");
+        const ticks = Number(fields[11]) + Number(fields[12]);
+        if (Number.isFinite(ticks)) {
+          seconds = ticks / CLOCK_TICKS_PER_SECOND;
+        }
+      },
+      () => {}
+    );
+  };
+
+  const interval = setInterval(sample, CPU_SAMPLE_INTERVAL_MS);
+  interval.unref();
+  child.once("exit", () => clearInterval(interval));
+  sample();
+  return () => seconds;
+}
+
+/**
+ * Describes a limit for error messages
+ */
+export function describeLimit(
+  limit: ResourceLimitName,
+  limits: ResourceLimits,
+  timeoutMs?: number
+): string {
+  switch (limit) {
+    case "timeout":
+      return `timeout of ${timeoutMs}ms`;
+    case "cpu":
+      return `CPU time limit of ${limits.cpuSeconds}s`;
+    case "memory":
+      return `memory limit of ${limits.memoryBytes} bytes`;
+    case "fileSize":
+      return `file size limit of ${limits.fileSizeBytes} bytes`;
+  }
+}
@@ -0,0 +1,111 @@
+/**
+ * Progress Reporting
+ *
+ * Shared progress types for long-running tools, plus parsers that turn
+ * command output (yt-dlp, ffmpeg) into progress updates.
+ */
+
+/**
+ * A progress update, shaped like an MCP progress notification
+ */
+export interface ProgressUpdate {
+  progress: number;
+  total?: number;
+  message?: string;
+}
+
+export type ProgressCallback = (update: ProgressUpdate) => void;
+
+/**
+ * Minimum interval between reported updates (the final update always passes)
+ */
+const MIN_REPORT_INTERVAL_MS = 250;
+
+/**
+ * Wraps a sender so it only receives increasing, throttled progress values
+ * (MCP requires progress to increase with each notification)
+ */
+export function createProgressReporter(
+  send: (update: ProgressUpdate) => void
+): ProgressCallback {
+  let lastProgress = -Infinity;
+  let lastSent = 0;
+
+  return (update) => {
+    if (update.progress <= lastProgress) {
+      return;
+    }
+
+    const now = Date.now();
+    const complete = update.total !== undefined && update.progress >= update.total;
+    if (!complete && now - lastSent < MIN_REPORT_INTERVAL_MS) {
+      return;
+    }
+
+    lastProgress = update.progress;
+    lastSent = now;
+    send(update);
+  };
+}
+
+// yt-dlp: "[download]  42.3% of ~ 10.00MiB at 1.00MiB/s ETA 00:06"
+const YTDLP_PROGRESS_REGEX = /^\[download\]\s+(\d+(?:\.\d+)?)%/;
+// ffmpeg: "  Duration: 00:03:25.04, start: ..."
+const FFMPEG_DURATION_REGEX = /Duration:\s*(\d+):(\d{2}):(\d{2}(?:\.\d+)?)/;
+// ffmpeg: "frame=  100 fps=25 ... time=00:01:02.50 bitrate=..."
+const FFMPEG_TIME_REGEX = /time=\s*(\d+):(\d{2}):(\d{2}(?:\.\d+)?)/;
+
+function toSeconds(hours: string, minutes: string, seconds: string): number {
+  return parseInt(hours, 10) * 3600 + parseInt(minutes, 10) * 60 + parseFloat(seconds);
+}
+
+/**
+ * Parses progress from command output lines
+ * Recognizes yt-dlp "[download] x%" lines and ffmpeg "time=" lines
+ * (with the total taken from ffmpeg's "Duration:" line when seen).
+ */
+export class OutputProgressParser {
+  private pending = "";
+  private ffmpegDuration: number | undefined;
+
+  constructor(private onProgress: ProgressCallback) {}
+
+  /**
+   * Feeds a chunk of output; complete lines are parsed
+   * Splits on \r too, since progress bars rewrite the current line
+   */
+  write(chunk: string): void {
+    const lines = (this.pending + chunk).split(/\r\n|\r|\n/);
+    this.pending = lines.pop() ?? "";
+    for (const line of lines) {
+      this.parseLine(line);
+    }
+  }
+
+  private parseLine(line: string): void {
+    const ytdlp = line.match(YTDLP_PROGRESS_REGEX);
+    if (ytdlp) {
+      this.onProgress({
+        progress: parseFloat(ytdlp[1]),
+        total: 100,
+        message: line.trim(),
+      });
+      return;
+    }
+
+    const duration = line.match(FFMPEG_DURATION_REGEX);
+    if (duration) {
+      this.ffmpegDuration = toSeconds(duration[1], duration[2], duration[3]);
+      return;
+    }
+
+    const time = line.match(FFMPEG_TIME_REGEX);
+    if (time) {
+      this.onProgress({
+        progress: toSeconds(time[1], time[2], time[3]),
+        total: this.ffmpegDuration,
+        message: line.trim(),
+      });
+    }
+  }
+}
@@ -0,0 +1,145 @@
+/**
+ * Pseudo-Terminal Support
+ *
+ * Runs commands under a pseudo-terminal with the system's script(1), for
+ * tools that need a TTY, and strips the ANSI escape codes they then print.
+ */
+
+import { execFile } from "node:child_process";
+import * as os from "node:os";
+import { StringDecoder } from "node:string_decoder";
+import { resolveCommand } from "./binary.js";
+
+export interface TerminalSize {
+  cols: number;
+  rows: number;
+}
+
+export const DEFAULT_TERMINAL_SIZE: TerminalSize = { cols: 120, rows: 40 };
+
+// CSI sequences, OSC sequences (ended by BEL or ST), charset selection and two-character escapes
+const ANSI_REGEX = /\x1b(?:\[[0-?]*[ -/]*[@-~]|\][^\x07\x1b]*(?:\x07|\x1b\\)|[()][0-9A-Za-z]|[@-Z\\-_=>])/g;
+// An escape sequence (or CR of a CRLF) cut off at the end of a chunk
+const PARTIAL_REGEX = /(?:\x1b(?:\[[0-?]*[ -/]*|\][^\x07\x1b]*|[()])?|\r)$/;
+// Longest partial sequence held back before it is passed through as text
+const MAX_PENDING = 4096;
+
+let scriptInfo: Promise<{ path: string; echoOption: boolean } | null> | null = null;
+
+/**
+ * Finds script(1) once, and whether it supports --echo (util-linux 2.35+)
+ */
+function findScript(): Promise<{ path: string; echoOption: boolean } | null> {
+  if (!scriptInfo) {
+    scriptInfo = process.platform === "linux" || process.platform === "darwin"
+      ? resolveCommand("script").then(async (resolved) => {
+          if (!resolved) {
+            return null;
+          }
+          const help = await new Promise<string>((resolve) => {
+            execFile(resolved.execPath, ["--help"], (_error, stdout) => resolve(stdout ?? ""));
+          });
+          return { path: resolved.execPath, echoOption: help.includes("--echo") };
+        })
+      : Promise.resolve(null);
+  }
+  return scriptInfo;
+}
+
+/**
+ * Quotes an argument for a POSIX shell
+ */
+function shellQuote(arg: string): string {
+  return `'${arg.replace(/'/g, `'\\''`)}'`;
+}
+
+/**
+ * Wraps a command so it runs under a pseudo-terminal of the given size
+ *
+ * On Linux the command line is built for `sh -c` with every argument quoted;
+ * stty sets the size and exec replaces the shell. Returns null when no
+ * usable script(1) is available.
+ */
+export async function wrapInPty(
+  command: string,
+  args: string[],
+  size: TerminalSize
+): Promise<{ command: string; args: string[]; env: NodeJS.ProcessEnv } | null> {
+  const script = await findScript();
+  if (!script) {
+    return null;
+  }
+
+  const env: NodeJS.ProcessEnv = {
+    TERM: "xterm-256color",
+    COLUMNS: String(size.cols),
+    LINES: String(size.rows),
+  };
+
+  if (process.platform === "darwin") {
+    // BSD script runs the command directly
+    return { command: script.path, args: ["-q", "/dev/null", command, ...args], env };
+  }
+
+  const commandLine = [command, ...args].map(shellQuote).join(" ");
+  const shellCommand = `stty cols ${Math.floor(size.cols)} rows ${Math.floor(size.rows)} 2>/dev/null; exec ${commandLine}`;
+  return {
+    command: script.path,
+    args: [
+      "--quiet",
+      "--return",
+      "--flush",
+      // Don't echo stdin back into the output
+      ...(script.echoOption ? ["--echo", "never"] : []),
+      "--command",
+      shellCommand,
+      "/dev/null",
+    ],
+    // script runs the command line with $SHELL
+    env: { ...env, SHELL: "/bin/sh" },
+  };
+}
+
+/**
+ * Signal that killed a command, from the 128+N exit code script(1) reports
+ */
+export function signalFromExitCode(exitCode: number): NodeJS.Signals | null {
+  if (exitCode <= 128) {
+    return null;
+  }
+  const entry = Object.entries(os.constants.signals).find(
+    ([, number]) => number === exitCode - 128
+  );
+  return entry ? (entry[0] as NodeJS.Signals) : null;
+}
+
+/**
+ * Removes ANSI escape codes from a stream and turns CRLF into LF
+ * Sequences split across chunks are held back until they are complete.
+ */
+export class AnsiStripper {
+  private decoder = new StringDecoder("utf8");
+  private pending = "";
+
+  write(data: Buffer): string {
+    let text = this.pending + this.decoder.write(data);
+    const partial = text.match(PARTIAL_REGEX);
+    if (partial && partial[0].length <= MAX_PENDING) {
+      this.pending = partial[0];
+      text = text.slice(0, partial.index);
+    } else {
+      this.pending = "";
+    }
+    return clean(text);
+  }
+
+  end(): string {
+    const text = this.pending + this.decoder.end();
+    this.pending = "";
+    return clean(text);
+  }
+}
+
+function clean(text: string): string {
+  return text.replace(ANSI_REGEX, "").replace(/\r\n/g, "\n");
+}
@@ -0,0 +1,153 @@
+/**
+ * Recipe Expansion
+ *
+ * Fills a recipe's argument template from typed parameters, so common
+ * yt-dlp/ffmpeg invocations don't have to be spelled out on every call.
+ */
+
+import * as path from "node:path";
+import type { Recipe, RecipeParam } from "../config/defaults.js";
+
+export type RecipeExpansion =
+  | { valid: true; args: string[] }
+  | { valid: false; error: string };
+
+const PLACEHOLDER_REGEX = /\{\{(\w+)\}\}/g;
+
+/**
+ * Names of the placeholders used in an argument
+ */
+function placeholdersIn(arg: string): string[] {
+  return [...arg.matchAll(PLACEHOLDER_REGEX)].map((match) => match[1]);
+}
+
+export function isParamRequired(param: RecipeParam): boolean {
+  return param.required ?? param.default === undefined;
+}
+
+/**
+ * Checks a value against its parameter type and returns it as a string
+ */
+function validateParam(
+  name: string,
+  param: RecipeParam,
+  value: unknown
+): { valid: true; value: string } | { valid: false; error: string } {
+  if (typeof value !== "string" && typeof value !== "number") {
+    return { valid: false, error: `Parameter "${name}" must be a string or number` };
+  }
+  const text = String(value);
+
+  if (param.type === "number") {
+    const number = Number(text);
+    if (text.trim() === "" || !Number.isFinite(number)) {
+      return { valid: false, error: `Parameter "${name}" must be a number` };
+    }
+    if (
+      (param.min !== undefined && number < param.min) ||
+      (param.max !== undefined && number > param.max)
+    ) {
+      return {
+        valid: false,
+        error: `Parameter "${name}" must be between ${param.min ?? "-∞"} and ${param.max ?? "∞"}`,
+      };
+    }
+    return { valid: true, value: text };
+  }
+
+  // A value starting with "-" would be parsed as a flag
+  if (text.startsWith("-")) {
+    return { valid: false, error: `Parameter "${name}" cannot start with "-"` };
+  }
+
+  switch (param.type) {
+    case "url": {
+      let url: URL;
+      try {
+        url = new URL(text);
+      } catch {
+        return { valid: false, error: `Parameter "${name}" must be a valid URL` };
+      }
+      if (url.protocol !== "http:" && url.protocol !== "https:") {
+        return { valid: false, error: `Parameter "${name}" must be an http or https URL` };
+      }
+      break;
+    }
+    case "path":
+      if (path.isAbsolute(text) || text.split(/[\\/]/).includes("..")) {
+        return {
+          valid: false,
+          error: `Parameter "${name}" must be a relative path without ".."`,
+        };
+      }
+      break;
+    case "enum":
+      if (!(param.values ?? []).includes(text)) {
+        return {
+          valid: false,
+          error: `Parameter "${name}" must be one of: ${(param.values ?? []).join(", ")}`,
+        };
+      }
+      break;
+    case "string":
+      if (param.pattern && !new RegExp(`^(?:${param.pattern})$`).test(text)) {
+        return {
+          valid: false,
+          error: `Parameter "${name}" does not match the pattern ${param.pattern}`,
+        };
+      }
+      break;
+  }
+  return { valid: true, value: text };
+}
+
+/**
+ * Validates parameters and fills in the recipe's argument template
+ * Arguments that refer to an optional parameter without a value are dropped.
+ */
+export function expandRecipe(
+  recipe: Recipe,
+  params: Record<string, unknown> = {}
+): RecipeExpansion {
+  const definitions = recipe.params ?? {};
+
+  for (const name of Object.keys(params)) {
+    if (!(name in definitions)) {
+      return { valid: false, error: `Unknown parameter "${name}"` };
+    }
+  }
+
+  const values = new Map<string, string>();
+  for (const [name, param] of Object.entries(definitions)) {
+    const value = params[name] ?? param.default;
+    if (value === undefined) {
+      if (isParamRequired(param)) {
+        return { valid: false, error: `Missing required parameter "${name}"` };
+      }
+      continue;
+    }
+    const result = validateParam(name, param, value);
+    if (!result.valid) {
+      return result;
+    }
+    values.set(name, result.value);
+  }
+
+  const args: string[] = [];
+  for (const template of recipe.args) {
+    const names = placeholdersIn(template);
+    const undefinedName = names.find((name) => !(name in definitions));
+    if (undefinedName) {
+      return {
+        valid: false,
+        error: `Recipe refers to undefined parameter "${undefinedName}"`,
+      };
+    }
+    if (names.some((name) => !values.has(name))) {
+      continue;
+    }
+    args.push(template.replace(PLACEHOLDER_REGEX, (_, name: string) => values.get(name)!));
+  }
+
+  return { valid: true, args };
+}
@@ -5,11 +5,14 @@
  * Uses the config manager for allowlist/blocklist checking.
  */
 
+import * as dns from "node:dns/promises";
+import * as net from "node:net";
 import {
   isDomainAllowed,
   isCommandAllowed,
   extractDomain,
 } from "../config/manager.js";
+import { canonicalizeHost, embeddedIPv4 } from "./host.js";
 import type { ApprovalStatus } from "../config/defaults.js";
 
 /**
@@ -21,40 +24,163 @@ export async function isUrlAllowed(url: string): Promise<ApprovalStatus> {
 }
 
 /**
- * Checks if a URL points to localhost or private network
+ * An address a hostname resolved to, used to pin the outgoing connection
  */
-export function isLocalhostUrl(url: string): boolean {
-  try {
-    const parsed = new URL(url);
-    const hostname = parsed.hostname.toLowerCase();
-    return (
-      hostname === "localhost" ||
-      hostname === "127.0.0.1" ||
-      hostname === "::1" ||
-      hostname === "[::1]" ||
-      hostname.endsWith(".localhost")
-    );
-  } catch {
-    return false;
+export interface ResolvedAddress {
+  address: string;
+  family: 4 | 6;
+}
+
+/**
+ * IPv4 ranges that must never be reached from the proxy
+ */
+const PRIVATE_IPV4_RANGES: Array<[string, number]> = [
+  ["0.0.0.0", 8], // "This" network
+  ["10.0.0.0", 8], // Private (Class A)
+  ["100.64.0.0", 10], // Carrier-grade NAT
+  ["127.0.0.0", 8], // Loopback
+  ["169.254.0.0", 16], // Link-local, incl. cloud metadata 169.254.169.254
+  ["172.16.0.0", 12], // Private (Class B)
+  ["192.0.0.0", 24], // IETF protocol assignments
+  ["192.168.0.0", 16], // Private (Class C)
+  ["198.18.0.0", 15], // Benchmarking
+  ["224.0.0.0", 4], // Multicast
+  ["240.0.0.0", 4], // Reserved, incl. broadcast
+];
+
+/**
+ * IPv6 ranges that must never be reached from the proxy
+ * (IPv4 embedded in IPv6 is unwrapped and checked against the IPv4 ranges)
+ */
+const PRIVATE_IPV6_RANGES: Array<[string, number]> = [
+  ["::", 128], // Unspecified
+  ["::1", 128], // Loopback
+  ["64:ff9b:1::", 48], // Local-use NAT64
+  ["100::", 64], // Discard-only
+  ["2001::", 32], // Teredo, which tunnels to an arbitrary (possibly private) IPv4 client
+  ["2001:2::", 48], // Benchmarking
+  ["2001:10::", 28], // ORCHID
+  ["2001:20::", 28], // ORCHIDv2
+  ["2001:db8::", 32], // Documentation
+  ["3fff::", 20], // Documentation
+  ["5f00::", 16], // SRv6 segment identifiers
+  ["fc00::", 7], // Unique local, incl. AWS metadata fd00:ec2::254
+  ["fe80::", 10], // Link-local
+  ["fec0::", 10], // Site-local (deprecated)
+  ["ff00::", 8], // Multicast
+];
+
+const privateAddresses = new net.BlockList();
+for (const [address, prefix] of PRIVATE_IPV4_RANGES) {
+  privateAddresses.addSubnet(address, prefix, "ipv4");
+}
+for (const [address, prefix] of PRIVATE_IPV6_RANGES) {
+  privateAddresses.addSubnet(address, prefix, "ipv6");
+}
+
+const loopbackAddresses = new net.BlockList();
+loopbackAddresses.addSubnet("127.0.0.0", 8, "ipv4");
+loopbackAddresses.addAddress("::1", "ipv6");
+
+/**
+ * What a host points at: a loopback address or localhost name, another
+ * internal address, a public address, or a name that still has to be resolved
+ */
+export type HostClass = "loopback" | "private" | "public" | "hostname";
+
+/**
+ * Classifies a host or IP literal (brackets, zone ids and numeric IPv4 forms
+ * are normalized first; IPv4 embedded in IPv6 is checked as IPv4)
+ * Every SSRF check goes through this.
+ */
+export function classifyHost(host: string): HostClass {
+  const address = canonicalizeHost(host);
+  const family = net.isIP(address);
+
+  if (family === 0) {
+    return address === "localhost" || address.endsWith(".localhost")
+      ? "loopback"
+      : "hostname";
+  }
+
+  const candidates: Array<[string, "ipv4" | "ipv6"]> = [
+    [address, family === 4 ? "ipv4" : "ipv6"],
+  ];
+  const ipv4 = family === 6 ? embeddedIPv4(address) : null;
+  if (ipv4 !== null) {
+    candidates.push([ipv4, "ipv4"]);
+  }
+
+  if (candidates.some(([ip, type]) => loopbackAddresses.check(ip, type))) {
+    return "loopback";
+  }
+  if (candidates.some(([ip, type]) => privateAddresses.check(ip, type))) {
+    return "private";
   }
+  return "public";
+}
+
+/**
+ * Checks if an IP address is loopback, private, link-local, metadata or otherwise internal
+ */
+export function isPrivateAddress(ip: string): boolean {
+  return net.isIP(canonicalizeHost(ip)) !== 0 && classifyHost(ip) !== "public";
+}
+
+/**
+ * Checks if a URL points to localhost or a loopback address
+ */
+export function isLocalhostUrl(url: string): boolean {
+  return classifyHost(extractDomain(url)) === "loopback";
 }
 
 /**
- * Checks if a URL points to a private IP range
+ * Checks if a URL (or bare host) is an IP literal in a private or internal range
  */
 export function isPrivateIp(url: string): boolean {
-  const domain = extractDomain(url);
-
-  // Check common private ranges
-  const privatePatterns = [
-    /^10\./,
-    /^172\.(1[6-9]|2[0-9]|3[0-1])\./,
-    /^192\.168\./,
-    /^169\.254\./,
-    /^127\./,
-  ];
+  return isPrivateAddress(extractDomain(url));
+}
+
+/**
+ * Resolves a hostname and verifies every address it resolves to is public
+ *
+ * Returns the vetted address so the caller can pin the connection to it,
+ * preventing DNS rebinding between the check and the connect.
+ * Throws if the host is localhost or any resolved address is internal.
+ */
+export async function resolvePublicAddress(
+  hostname: string
+): Promise<ResolvedAddress> {
+  const host = canonicalizeHost(hostname);
+  const hostClass = classifyHost(host);
+
+  if (hostClass === "loopback" && net.isIP(host) === 0) {
+    throw new Error(
+      `Host "${host}" is a localhost name and is blocked to prevent SSRF`
+    );
+  }
 
-  return privatePatterns.some((pattern) => pattern.test(domain));
+  const addresses: ResolvedAddress[] =
+    hostClass === "hostname"
+      ? (await dns.lookup(host, { all: true, verbatim: true })).map(
+          (entry) => ({ address: entry.address, family: entry.family as 4 | 6 })
+        )
+      : [{ address: host, family: net.isIP(host) as 4 | 6 }];
+
+  if (addresses.length === 0) {
+    throw new Error(`Host "${host}" did not resolve to any address`);
+  }
+
+  for (const { address } of addresses) {
+    if (classifyHost(address) !== "public") {
+      console.error(`[security] SSRF BLOCKED: ${host} resolves to ${address}`);
+      throw new Error(
+        `Host "${host}" resolves to private or internal address ${address} and is blocked to prevent SSRF`
+      );
+    }
+  }
+
+  return addresses[0];
 }
 
 /**
@@ -74,6 +200,14 @@ export async function validateRequest(
     };
   }
 
+  if (status === "DENIED") {
+    const domain = extractDomain(url);
+    return {
+      status: "DENIED",
+      error: `Domain "${domain}" was denied by the user`,
+    };
+  }
+
   if (status === "NEEDS_APPROVAL") {
     const domain = extractDomain(url);
     return {
@@ -101,6 +235,13 @@ export async function validateCommand(
     };
   }
 
+  if (status === "DENIED") {
+    return {
+      status: "DENIED",
+      error: `Command was denied by the user`,
+    };
+  }
+
   if (status === "NEEDS_APPROVAL") {
     return {
       status: "NEEDS_APPROVAL",
@@ -5,7 +5,9 @@
  * Run with: npx tsx test/config-manager.test.ts
  */
 
+import * as crypto from "node:crypto";
 import * as fs from "node:fs/promises";
+import * as http from "node:http";
 import * as path from "node:path";
 import * as os from "node:os";
 import {
@@ -15,15 +17,40 @@ import {
   resetConfig,
   isDomainAllowed,
   isCommandAllowed,
+  explainDomain,
+  explainCommand,
   addDomainToAllowlist,
   addCommandToAllowlist,
   removeDomainFromAllowlist,
   removeCommandFromAllowlist,
+  addDomainToDenylist,
+  addCommandToDenylist,
+  removeDomainFromDenylist,
+  findDenyEntry,
+  getDenyEntries,
   extractDomain,
   extractCommand,
   clearConfigCache,
   getConfigPath,
+  getConfigDiagnostics,
+  getCommandPolicy,
+  checkCommandPin,
 } from "../src/config/manager.js";
+import { resolveCommand } from "../src/utils/binary.js";
+import { egressOverrideFlags, evaluateCommandPolicy } from "../src/utils/command-policy.js";
+import { getEgressProxy } from "../src/server/egress-proxy.js";
+import { getExecQueue } from "../src/server/exec-queue.js";
+import { getHttpServer, stopHttpServer } from "../src/server/http-server.js";
+import { getJobManager } from "../src/server/job-manager.js";
+import { getOutputSpool } from "../src/server/output-spool.js";
+import { getWorkspaceManager, type WorkspaceManifest } from "../src/server/workspace-manager.js";
+import { configRemove, configReset, configShow } from "../src/tools/config-tools.js";
+import { execJobCancel, execJobOutput, execJobStatus, execOutput } from "../src/tools/exec-jobs.js";
+import { networkExec } from "../src/tools/network-exec.js";
+import { decodeBody, followRedirect, proxyFetch, toImageContent } from "../src/tools/proxy-fetch.js";
+import { readFile } from "../src/tools/read-file.js";
+import { setApprovalElicitor } from "../src/utils/approval.js";
+import { CANCELLED_MESSAGE } from "../src/utils/cancellation.js";
 import {
   DEFAULT_BLOCKED_COMMANDS,
   DEFAULT_BLOCKED_DOMAINS,
@@ -180,6 +207,10 @@ async function testLoadConfigCreatesDefault() {
     config.blockedCommands.includes("sudo"),
     "Blocked commands include sudo"
   );
+  assert(
+    config.approval?.timeoutSeconds === 120,
+    "Approval timeout defaults to 120 seconds"
+  );
 
   // Verify file was created
   const fileExists = await fs
@@ -394,20 +425,1104 @@ async function testWildcardPatterns() {
   // Test private IP ranges with wildcards
   assert(
     (await isDomainAllowed("10.0.0.1")) === "BLOCKED",
-    "10.0.0.1 matches 10.* pattern"
+    "10.0.0.1 is in 10.0.0.0/8"
   );
   assert(
     (await isDomainAllowed("10.255.255.255")) === "BLOCKED",
-    "10.255.255.255 matches 10.* pattern"
+    "10.255.255.255 is in 10.0.0.0/8"
   );
   assert(
     (await isDomainAllowed("192.168.0.1")) === "BLOCKED",
-    "192.168.0.1 matches 192.168.* pattern"
+    "192.168.0.1 is in 192.168.0.0/16"
   );
   assert(
     (await isDomainAllowed("172.16.0.1")) === "BLOCKED",
-    "172.16.0.1 matches 172.16.* pattern"
+    "172.16.0.1 is in 172.16.0.0/12"
+  );
+}
+
+async function testHostCanonicalization() {
+  console.error("\n--- Test: Host canonicalization and CIDR entries ---");
+  clearConfigCache();
+  await resetConfig();
+
+  for (const url of [
+    "http://2130706433/",
+    "http://0x7f.1/",
+    "http://127.1/",
+    "http://0177.0.0.1/",
+    "http://127.0.0.1./",
+  ]) {
+    assert(extractDomain(url) === "127.0.0.1", `${url} canonicalizes to 127.0.0.1`);
+    assert((await isDomainAllowed(url)) === "BLOCKED", `${url} is blocked`);
+  }
+  assert(extractDomain("http://[0:0:0:0:0:0:0:1]/") === "::1", "Full IPv6 form is compressed");
+  assert(extractDomain("Example.COM.") === "example.com", "Trailing dot is removed");
+  assert(extractDomain("https://bücher.de/") === "xn--bcher-kva.de", "IDN becomes punycode");
+
+  assert((await isDomainAllowed("http://[fd12::1]/")) === "BLOCKED", "fc00::/7 blocks unique local IPv6");
+  assert(
+    (await isDomainAllowed("http://[::ffff:10.1.2.3]/")) === "BLOCKED",
+    "IPv4-mapped IPv6 address is blocked"
+  );
+  assert((await isDomainAllowed("172.32.0.1")) === "NEEDS_APPROVAL", "172.32.0.1 is outside 172.16.0.0/12");
+
+  const config = await getConfig();
+  config.allowedDomains = ["203.0.113.0/24", "*.example.org", "bücher.de"];
+  await saveConfig(config);
+  assert((await isDomainAllowed("http://203.0.113.7/")) === "ALLOWED", "CIDR allowlist entry matches");
+  assert((await isDomainAllowed("http://3405803783/")) === "ALLOWED", "Numeric form matches the CIDR entry");
+  assert((await isDomainAllowed("203.0.114.1")) === "NEEDS_APPROVAL", "Address outside the CIDR needs approval");
+  assert((await isDomainAllowed("api.example.org.")) === "ALLOWED", "Wildcard entries still match hostnames");
+  assert((await isDomainAllowed("https://xn--bcher-kva.de/")) === "ALLOWED", "IDN entry matches its punycode form");
+}
+
+async function testDomainPatterns() {
+  console.error("\n--- Test: Domain pattern grammar ---");
+  clearConfigCache();
+  await resetConfig();
+
+  await addDomainToAllowlist("*.sub.example.com");
+  await addDomainToAllowlist("**.apex.example.com");
+  await addDomainToAllowlist("https://secure.example.com");
+  await addDomainToAllowlist("ports.example.com:8443");
+  assert((await isDomainAllowed("a.sub.example.com")) === "ALLOWED", "*. matches a subdomain");
+  assert((await isDomainAllowed("a.b.sub.example.com")) === "ALLOWED", "*. matches nested subdomains");
+  assert((await isDomainAllowed("sub.example.com")) === "NEEDS_APPROVAL", "*. does not match the apex");
+  assert((await isDomainAllowed("apex.example.com")) === "ALLOWED", "**. matches the apex");
+  assert((await isDomainAllowed("x.apex.example.com")) === "ALLOWED", "**. matches subdomains");
+  assert((await isDomainAllowed("https://secure.example.com/x")) === "ALLOWED", "Scheme entry matches https");
+  assert((await isDomainAllowed("http://secure.example.com/x")) === "NEEDS_APPROVAL", "Scheme entry rejects http");
+  assert((await isDomainAllowed("https://ports.example.com:8443/")) === "ALLOWED", "Port entry matches its port");
+  assert((await isDomainAllowed("https://ports.example.com/")) === "NEEDS_APPROVAL", "Port entry rejects other ports");
+
+  await addDomainToAllowlist("HTTPS://API.Example.com:443/v1/items");
+  assert(
+    (await getConfig()).allowedDomains.includes("https://api.example.com:443"),
+    "Pattern is stored in canonical form without the path"
+  );
+
+  for (const pattern of ["*", "**", "*.*", "example.*", "example.c*", "*.com", "**.com", "0.0.0.0/0", "ftp://example.com", "example.com:99999"]) {
+    let threw = false;
+    try {
+      await addDomainToAllowlist(pattern);
+    } catch {
+      threw = true;
+    }
+    assert(threw, `"${pattern}" is refused`);
+  }
+
+  // Legacy wildcards: "*" is one label, numeric prefixes match addresses
+  const config = await getConfig();
+  config.allowedDomains = ["api.*.example.com"];
+  config.blockedDomains = [...config.blockedDomains, "203.0.*", "2001:db8:*"];
+  await saveConfig(config);
+  assert((await isDomainAllowed("api.eu.example.com")) === "ALLOWED", "api.*.example.com matches one label");
+  assert(
+    (await isDomainAllowed("api.evil.com.example.com")) === "NEEDS_APPROVAL",
+    "api.*.example.com does not match two labels"
+  );
+  assert((await isDomainAllowed("203.0.113.9")) === "BLOCKED", "Legacy IPv4 prefix still blocks");
+  assert((await isDomainAllowed("http://[2001:db8::1]/")) === "BLOCKED", "Legacy IPv6 prefix still blocks");
+
+  // In the blocklist "*" keeps its old meaning, and unparsable entries still block
+  config.blockedDomains = [...config.blockedDomains, "*tracker*", "internal.*", "**ads**"];
+  await saveConfig(config);
+  clearConfigCache();
+  assert((await getConfig()).blockedDomains.includes("**ads**"), "Unparsable block entry is kept on load");
+  assert((await isDomainAllowed("cdn.tracker.example.net")) === "BLOCKED", "*tracker* blocks at any depth");
+  assert((await isDomainAllowed("internal.corp.example")) === "BLOCKED", "internal.* blocks internal.corp.example");
+  assert((await isDomainAllowed("ads.example.net")) === "BLOCKED", "Unparsable block entry still blocks");
+  let threw = false;
+  try {
+    await addDomainToAllowlist("*.tracker.example.net");
+  } catch {
+    threw = true;
+  }
+  assert(threw, "Allowlist entry under a legacy block entry is refused");
+
+  config.blockedDomains = [...config.blockedDomains, "*"];
+  await saveConfig(config);
+  assert((await isDomainAllowed("example.org")) === "BLOCKED", "A bare * in the blocklist blocks everything");
+}
+
+async function testCommandPolicies() {
+  console.error("\n--- Test: Command policies ---");
+  clearConfigCache();
+  await resetConfig();
+  const config = await getConfig();
+  config.allowedDomains = ["example.com"];
+  config.commandPolicies = {
+    curl: {
+      deniedFlags: ["-K*", "--config"],
+      requiredFlags: ["--fail"],
+      pathFlags: ["-o", "--output"],
+      allowedPaths: ["/tmp/downloads"],
+      checkUrls: true,
+    },
+  };
+  await saveConfig(config);
+
+  const policy = await getCommandPolicy("/usr/bin/CURL");
+  assert(policy !== undefined, "Policy is found by command basename");
+  assert((await getCommandPolicy("wget")) === undefined, "No policy for wget");
+
+  const check = (args: string[]) => evaluateCommandPolicy(args, policy!, "/tmp");
+
+  assert(
+    (await check(["--fail", "-o", "/tmp/downloads/a.txt", "https://example.com/a"])).allowed,
+    "Allowed flags, path and URL pass"
+  );
+  const denied = await check(["--fail", "-K", "cfg", "https://example.com"]);
+  assert(!denied.allowed && denied.rule === "deniedFlags", "-K is denied");
+  const missing = await check(["https://example.com"]);
+  assert(!missing.allowed && missing.rule === "requiredFlags", "Missing --fail is rejected");
+  const outside = await check(["--fail", "--output=/etc/passwd", "https://example.com"]);
+  assert(!outside.allowed && outside.rule === "allowedPaths", "--output=/etc/passwd is rejected");
+  const attached = await check(["--fail", "-o../etc/x", "https://example.com"]);
+  assert(!attached.allowed && attached.rule === "allowedPaths", "Attached -o value is checked");
+  const traversal = await check(["--fail", "-o", "downloads/../../etc/x", "https://example.com"]);
+  assert(!traversal.allowed && traversal.rule === "allowedPaths", "Traversal out of allowed dir is rejected");
+  const url = await check(["--fail", "https://evil.test/"]);
+  assert(!url.allowed && url.rule === "checkUrls", "URL on unapproved domain is rejected");
+  const scheme = await check(["--fail", "file:///etc/passwd"]);
+  assert(!scheme.allowed && scheme.rule === "checkUrls", "file:// URL is rejected");
+
+  const strict = await evaluateCommandPolicy(["-s", "-X", "POST"], { allowedFlags: ["-s"] });
+  assert(!strict.allowed && strict.rule === "allowedFlags", "Flag outside allowedFlags is rejected");
+  assert(
+    (await evaluateCommandPolicy(["-s", "--", "-X"], { allowedFlags: ["-s"] })).allowed,
+    "Arguments after -- are not flags"
+  );
+
+  // Short clusters and long-option abbreviations
+  const bundled = await check(["--fail", "-sK", "cfg", "https://example.com"]);
+  assert(!bundled.allowed && bundled.rule === "deniedFlags", "-K inside -sK is denied");
+  const bundledPath = await check(["--fail", "-so", "/etc/passwd", "https://example.com"]);
+  assert(!bundledPath.allowed && bundledPath.rule === "allowedPaths", "-o inside -so is checked");
+  const bundledInline = await check(["--fail", "-so/etc/passwd", "https://example.com"]);
+  assert(!bundledInline.allowed && bundledInline.rule === "allowedPaths", "Attached value after -so is checked");
+  assert(
+    (await check(["--fail", "-so", "/tmp/downloads/a.txt", "https://example.com"])).allowed,
+    "-so into an allowed directory passes"
+  );
+  const abbreviated = await check(["--fail", "--outp", "/etc/passwd", "https://example.com"]);
+  assert(!abbreviated.allowed && abbreviated.rule === "allowedPaths", "--outp is checked as --output");
+  const abbreviatedDenied = await check(["--fail", "--conf", "cfg", "https://example.com"]);
+  assert(!abbreviatedDenied.allowed && abbreviatedDenied.rule === "deniedFlags", "--conf is denied as --config");
+  const proxyPolicy = { deniedFlags: ["-x", "--proxy"] };
+  assert(!(await evaluateCommandPolicy(["-sx", ""], proxyPolicy)).allowed, "-sx '' is denied");
+  assert(!(await evaluateCommandPolicy(["--prox", "h:1"], proxyPolicy)).allowed, "--prox is denied");
+  assert(
+    (await evaluateCommandPolicy(["-sS"], { allowedFlags: ["-s", "-S"] })).allowed,
+    "Cluster of allowed flags passes"
+  );
+  assert(
+    !(await evaluateCommandPolicy(["-sX", "POST"], { allowedFlags: ["-s"] })).allowed,
+    "Cluster with a flag outside allowedFlags is rejected"
+  );
+
+  // Scheme-less hosts are URLs
+  const bareHost = await check(["--fail", "evil.test"]);
+  assert(!bareHost.allowed && bareHost.rule === "checkUrls", "Bare host on unapproved domain is rejected");
+  const bareIp = await check(["--fail", "203.0.113.9:8080/x"]);
+  assert(!bareIp.allowed && bareIp.rule === "checkUrls", "Bare IP address is checked");
+  assert(
+    (await check(["--fail", "--max-time", "1.5", "-o", "/tmp/downloads/page.html", "example.com/page"])).allowed,
+    "Bare approved host passes; numbers and path values are not hosts"
+  );
+
+  // Other commands take dotted arguments as file names
+  const ffmpeg = { checkUrls: true };
+  assert(
+    (await evaluateCommandPolicy(["-i", "in.mkv", "out.mp4"], ffmpeg, "/tmp")).allowed,
+    "ffmpeg -i in.mkv out.mp4 passes: file names are not hosts"
+  );
+  assert(
+    !(await evaluateCommandPolicy(["-i", "https://evil.test/in.mkv", "out.mp4"], ffmpeg, "/tmp")).allowed,
+    "ffmpeg URL arguments are still checked"
+  );
+  config.commandPolicies = { ...config.commandPolicies, ffmpeg, jq: { checkUrls: true, checkHosts: true } };
+  await saveConfig(config);
+  assert((await getCommandPolicy("ffmpeg"))?.checkHosts === false, "checkHosts is off by default for other commands");
+  assert((await getCommandPolicy("jq"))?.checkHosts === true, "checkHosts can be turned on per policy");
+}
+
+/**
+ * Sends a CONNECT through the egress proxy and returns the status and body
+ */
+function egressConnect(proxyUrl: string, target: string): Promise<{ status: number; body: string }> {
+  const proxy = new URL(proxyUrl);
+  return new Promise((resolve, reject) => {
+    const req = http.request({
+      host: proxy.hostname,
+      port: Number(proxy.port),
+      method: "CONNECT",
+      path: target,
+      headers: {
+        "Proxy-Authorization": `Basic ${Buffer.from(`${proxy.username}:${proxy.password}`).toString("base64")}`,
+      },
+    });
+    req.on("connect", (res, socket, head) => {
+      let body = head.toString();
+      socket.on("data", (chunk: Buffer) => (body += chunk.toString()));
+      socket.on("end", () => resolve({ status: res.statusCode ?? 0, body }));
+      socket.on("error", reject);
+    });
+    req.on("error", reject);
+    req.end();
+  });
+}
+
+async function testEgressProxy() {
+  console.error("\n--- Test: Egress proxy ---");
+  clearConfigCache();
+  await resetConfig();
+  await addDomainToAllowlist("example.com");
+
+  const curlOverrides = { deniedFlags: egressOverrideFlags("/usr/bin/curl") };
+  assert(!(await evaluateCommandPolicy(["-sx", "h:1", "https://example.com"], curlOverrides)).allowed, "curl -x is denied");
+  assert(!(await evaluateCommandPolicy(["--noproxy", "*"], curlOverrides)).allowed, "curl --noproxy is denied");
+  assert(!(await evaluateCommandPolicy(["--socks5-hostname", "h:1"], curlOverrides)).allowed, "curl --socks5-hostname is denied");
+  const wgetOverrides = { deniedFlags: egressOverrideFlags("/usr/bin/wget") };
+  assert(!(await evaluateCommandPolicy(["-Y", "off", "https://example.com"], wgetOverrides)).allowed, "wget -Y off is denied");
+  assert(!(await evaluateCommandPolicy(["-Yoff", "https://example.com"], wgetOverrides)).allowed, "wget -Yoff is denied");
+  assert(!(await evaluateCommandPolicy(["--proxy=off", "https://example.com"], wgetOverrides)).allowed, "wget --proxy=off is denied");
+  assert(!(await evaluateCommandPolicy(["--no-proxy", "https://example.com"], wgetOverrides)).allowed, "wget --no-proxy is denied");
+  assert((await evaluateCommandPolicy(["-q", "https://example.com"], wgetOverrides)).allowed, "Other wget flags are allowed");
+  assert(
+    (await evaluateCommandPolicy(["-x", "https://example.com/v"], { deniedFlags: egressOverrideFlags("yt-dlp") })).allowed,
+    "yt-dlp -x (extract audio) is not a proxy flag"
+  );
+  assert(
+    !(await evaluateCommandPolicy(["--proxy", "h:1"], { deniedFlags: egressOverrideFlags("yt-dlp") })).allowed,
+    "--proxy is denied for every command"
+  );
+
+  const proxy = getEgressProxy();
+  const session = await proxy.openSession("test");
+  try {
+    const ssh = await egressConnect(session.proxyUrl, "example.com:22");
+    assert(ssh.status === 403 && ssh.body.includes("port 443"), "CONNECT to a non-443 port is refused");
+
+    // Scheme entries match tunnels by port; ".invalid" never resolves, so an
+    // allowed tunnel fails at the DNS step instead of connecting
+    await addDomainToAllowlist("https://tls.example.invalid");
+    const tls = await egressConnect(session.proxyUrl, "tls.example.invalid:443");
+    assert(tls.status === 403 && !tls.body.includes("not in the allowed domains"), "https:// entry matches CONNECT to 443");
+    const plain = await egressConnect(session.proxyUrl, "tls.example.invalid:80");
+    assert(plain.body.includes("not in the allowed domains"), "https:// entry does not match CONNECT to 80");
+  } finally {
+    proxy.closeSession(session.id);
+    proxy.stop();
+  }
+}
+
+async function testExecSlotRelease() {
+  console.error("\n--- Test: Exec slot is freed when setup fails ---");
+  clearConfigCache();
+  await resetConfig();
+
+  // A workspace root under a regular file cannot be created
+  const blocker = path.join(os.tmpdir(), `mcp-proxy-not-a-dir-${process.pid}`);
+  await fs.writeFile(blocker, "");
+  try {
+    await addCommandToAllowlist("true", (await resolveCommand("true", { hash: true }))!);
+    const config = await getConfig();
+    config.workspace = { ...config.workspace!, root: path.join(blocker, "workspaces") };
+    config.exec = { ...config.exec!, maxConcurrent: 1, queueTimeoutMs: 1000 };
+    await saveConfig(config);
+
+    for (const attempt of [1, 2]) {
+      const result = await networkExec({ command: "true", workspace: true });
+      assert(
+        result.status === "error" && !result.error?.includes("No execution slot"),
+        `Workspace creation failure is reported (attempt ${attempt})`
+      );
+    }
+    assert(getExecQueue().getStats().running === 0, "Failed workspace creation frees the exec slot");
+  } finally {
+    await fs.unlink(blocker);
+  }
+}
+
+async function testWorkspaces() {
+  console.error("\n--- Test: Scratch workspaces ---");
+  clearConfigCache();
+  await resetConfig();
+
+  const root = await fs.mkdtemp(path.join(os.tmpdir(), "mcp-proxy-workspaces-"));
+  try {
+    const config = await getConfig();
+    config.workspace = { ...config.workspace!, root };
+    await saveConfig(config);
+    await addCommandToAllowlist("tee", (await resolveCommand("tee", { hash: true }))!);
+
+    const result = await networkExec({ command: "tee", args: ["out.txt"], stdin: "hello", workspace: true });
+    const manifest = result.workspace as WorkspaceManifest | undefined;
+    assert(result.status === "success" && manifest?.path.startsWith(root) === true, "Command runs in a workspace under the root");
+    const [artifact] = manifest!.artifacts;
+    assert(
+      manifest!.artifacts.length === 1 &&
+        artifact.name === "out.txt" &&
+        artifact.change === "created" &&
+        artifact.size === 5 &&
+        artifact.mimeType === "text/plain",
+      "Manifest lists the created file with its size and type"
+    );
+    assert(
+      artifact.sha256 === crypto.createHash("sha256").update("hello").digest("hex"),
+      "Manifest has the file's SHA-256"
+    );
+    assert(manifest!.expiresAt !== undefined, "Finished workspace has an expiry");
+    assert(
+      (await networkExec({ command: "tee", workspace: true, cwd: root })).status === "error",
+      "workspace and cwd cannot be combined"
+    );
+
+    // A workspace left behind by an earlier run is swept once it is older than the expiry
+    const stale = path.join(root, crypto.randomUUID());
+    await fs.mkdir(stale);
+    const old = new Date(Date.now() - 2 * 60 * 60 * 1000);
+    await fs.utimes(stale, old, old);
+    await getWorkspaceManager().cleanup();
+    assert(!(await fs.stat(stale).catch(() => null)), "Expired leftover workspace is removed");
+    assert(!!(await fs.stat(manifest!.path).catch(() => null)), "Unexpired workspace is kept");
+  } finally {
+    getWorkspaceManager().shutdown();
+    getOutputSpool().shutdown();
+    await fs.rm(root, { recursive: true, force: true });
+  }
+}
+
+async function testStdinAndStdoutEncoding() {
+  console.error("\n--- Test: stdin and stdout encodings ---");
+  clearConfigCache();
+  await resetConfig();
+
+  const root = await fs.mkdtemp(path.join(os.tmpdir(), "mcp-proxy-workspaces-"));
+  try {
+    const config = await getConfig();
+    config.workspace = { ...config.workspace!, root };
+    await saveConfig(config);
+    await addCommandToAllowlist("cat", (await resolveCommand("cat", { hash: true }))!);
+
+    const text = await networkExec({ command: "cat", stdin: "héllo" });
+    assert(text.status === "success" && text.stdout === "héllo", "Text stdin is piped to the command");
+    const empty = await networkExec({ command: "cat", timeout: 5000 });
+    assert(empty.status === "success" && empty.stdout === "", "Without stdin the command gets a closed stdin");
+
+    const bytes = Buffer.from([0x00, 0xff, 0x80, 0x0a]);
+    const binary = await networkExec({
+      command: "cat",
+      stdin: bytes.toString("base64"),
+      stdin_encoding: "base64",
+      stdout_encoding: "base64",
+    });
+    assert(
+      binary.stdoutEncoding === "base64" && binary.stdout === bytes.toString("base64") && binary.stdoutBytes === 4,
+      "Binary stdin and base64 stdout round-trip"
+    );
+
+    const file = await networkExec({
+      command: "cat",
+      stdin: bytes.toString("base64"),
+      stdin_encoding: "base64",
+      stdout_encoding: "file",
+    });
+    assert(
+      file.stdout === undefined && file.stdoutFile?.startsWith(root) === true && file.stdoutBytes === 4,
+      "File mode returns the stdout file instead of the data"
+    );
+    assert((await fs.readFile(file.stdoutFile!)).equals(bytes), "File mode writes the raw bytes");
+
+    assert(
+      (await networkExec({ command: "cat", stdin: "x", stdout_encoding: "base64", background: true })).status === "error",
+      "Background jobs only support utf8 stdout"
+    );
+  } finally {
+    getWorkspaceManager().shutdown();
+    getOutputSpool().shutdown();
+    await fs.rm(root, { recursive: true, force: true });
+  }
+}
+
+async function testPtyMode() {
+  console.error("\n--- Test: PTY mode ---");
+  clearConfigCache();
+  await resetConfig();
+  await addCommandToAllowlist("tty", (await resolveCommand("tty", { hash: true }))!);
+  await addCommandToAllowlist("stty", (await resolveCommand("stty", { hash: true }))!);
+
+  try {
+    const piped = await networkExec({ command: "tty" });
+    assert(piped.stdout?.trim() === "not a tty", "Without pty the command has no terminal");
+    const terminal = await networkExec({ command: "tty", pty: true });
+    assert(terminal.status === "success" && terminal.stdout!.startsWith("/dev/"), "pty: true runs the command in a terminal");
+    const size = await networkExec({ command: "stty", args: ["size"], pty: true, pty_cols: 100, pty_rows: 30 });
+    assert(size.stdout?.trim() === "30 100", "Terminal size follows pty_cols and pty_rows");
+    assert(!size.stdout!.includes("\r"), "PTY output uses LF line endings");
+  } finally {
+    getOutputSpool().shutdown();
+  }
+}
+
+async function testCancellation() {
+  console.error("\n--- Test: Request cancellation ---");
+  clearConfigCache();
+  await resetConfig();
+  const config = await getConfig();
+  config.approval = { ...config.approval!, timeoutSeconds: 30, openBrowser: false };
+  await saveConfig(config);
+  await addCommandToAllowlist("sleep", (await resolveCommand("sleep", { hash: true }))!);
+
+  const abortSoon = () => {
+    const controller = new AbortController();
+    setTimeout(() => controller.abort(), 200);
+    return controller.signal;
+  };
+
+  const started = Date.now();
+  const exec = await networkExec({ command: "sleep", args: ["30"] }, { signal: abortSoon() });
+  assert(exec.status === "cancelled" && exec.error === CANCELLED_MESSAGE, "Cancelled command returns cancelled");
+  assert(Date.now() - started < 10000, "Cancelled command is stopped");
+  assert(getExecQueue().getStats().running === 0, "Cancelled command frees its exec slot");
+
+  try {
+    const fetched = await proxyFetch({ url: "https://unapproved.example/x" }, { signal: abortSoon() });
+    assert(fetched.status === "cancelled", "Cancelling a fetch that waits for approval returns cancelled");
+  } finally {
+    await stopHttpServer();
+  }
+
+  const file = path.join(os.tmpdir(), `mcp-proxy-cancel-${process.pid}`);
+  await fs.writeFile(file, "data");
+  try {
+    const read = await readFile({ path: file }, { signal: AbortSignal.abort() });
+    assert(read.status === "cancelled" && read.error === CANCELLED_MESSAGE, "Cancelled read returns cancelled");
+  } finally {
+    await fs.unlink(file);
+  }
+}
+
+async function waitForJob(id: string) {
+  for (let i = 0; i < 100 && !getJobManager().get(id)?.endedAt; i++) {
+    await new Promise((resolve) => setTimeout(resolve, 50));
+  }
+  return getJobManager().get(id)!;
+}
+
+async function testBackgroundJobs() {
+  console.error("\n--- Test: Background jobs ---");
+  const manager = getJobManager();
+
+  try {
+    const job = await manager.start("sh", ["-c", "printf one; printf oops >&2; sleep 0.2; printf two; exit 3"], {
+      timeout: 10000,
+    });
+    assert(job.state === "running" && job.pid !== undefined, "Job is running once started");
+    const done = await waitForJob(job.id);
+    assert(done.state === "exited" && done.exitCode === 3, "Job records its exit code");
+    assert(done.durationMs !== undefined && done.durationMs >= 200, "Job records its duration");
+
+    const first = await execJobOutput({ job_id: job.id, max_bytes: 3 });
+    assert(first.stdout === "one" && first.stdout_offset === 3, "exec_job_output returns up to max_bytes");
+    assert(first.stderr === "oop", "max_bytes applies to each stream");
+    const rest = await execJobOutput({
+      job_id: job.id,
+      stdout_offset: first.stdout_offset,
+      stderr_offset: first.stderr_offset,
+    });
+    assert(rest.stdout === "two" && rest.stderr === "s" && rest.stdout_total_bytes === 6, "Offsets return only new output");
+
+    const slow = await manager.start("sleep", ["30"], { timeout: 60000 });
+    const cancelled = await execJobCancel({ job_id: slow.id });
+    assert(cancelled.status === "success" && cancelled.job?.state === "cancelled", "exec_job_cancel cancels a running job");
+    assert((await waitForJob(slow.id)).signal === "SIGTERM", "Cancelled job is stopped with SIGTERM");
+    assert((await execJobCancel({ job_id: slow.id })).status === "error", "A finished job cannot be cancelled");
+
+    const timed = await manager.start("sleep", ["30"], { timeout: 200 });
+    assert((await waitForJob(timed.id)).state === "timed_out", "Job past its timeout is stopped");
+
+    assert((await execJobStatus({ job_id: "missing" })).status === "error", "Unknown job id is an error");
+    assert((await execJobStatus({})).jobs!.some((info) => info.id === job.id), "exec_job_status lists jobs");
+
+    const orphan = await manager.start("sleep", ["30"], { timeout: 60000 });
+    await manager.shutdown();
+    assert((await waitForJob(orphan.id)).state === "cancelled", "Shutdown stops running jobs");
+  } finally {
+    await manager.shutdown();
+  }
+}
+
+async function testBackgroundJobOutput() {
+  console.error("\n--- Test: Background job output is spooled ---");
+  clearConfigCache();
+  await resetConfig();
+
+  await addCommandToAllowlist("echo", (await resolveCommand("echo", { hash: true }))!);
+  try {
+    const started = await networkExec({ command: "echo", args: ["from the job"], background: true });
+    assert(started.status === "started" && !!started.outputId, "Background job returns an outputId");
+
+    let output = await execOutput({ output_id: started.jobId! });
+    for (let i = 0; i < 50 && (output.running || output.status !== "success"); i++) {
+      await new Promise((resolve) => setTimeout(resolve, 100));
+      output = await execOutput({ output_id: started.jobId! });
+    }
+    assert(output.status === "success" && output.data === "from the job\n", "exec_output reads a job's output by job id");
+    const byOutputId = await execOutput({ output_id: started.outputId! });
+    assert(byOutputId.data === "from the job\n", "exec_output reads a job's output by output id");
+  } finally {
+    // Their cleanup timers would keep the test process alive
+    await getJobManager().shutdown();
+    getOutputSpool().shutdown();
+  }
+}
+
+async function testCommandPins() {
+  console.error("\n--- Test: Command pins ---");
+  clearConfigCache();
+  await resetConfig();
+
+  const binDir = await fs.mkdtemp(path.join(os.tmpdir(), "mcp-proxy-pin-"));
+  const otherDir = await fs.mkdtemp(path.join(os.tmpdir(), "mcp-proxy-pin-"));
+  const tool = path.join(binDir, "pintool");
+  const impostor = path.join(otherDir, "pintool");
+  await fs.writeFile(tool, "#!/bin/sh\necho v1\n", { mode: 0o755 });
+  await fs.writeFile(impostor, "#!/bin/sh\necho evil\n", { mode: 0o755 });
+
+  try {
+    const env = { PATH: binDir };
+    const binary = await resolveCommand("pintool", { env, hash: true });
+    assert(binary?.execPath === tool, "Command is resolved through PATH");
+    assert(binary?.sha256?.length === 64, "Binary is hashed");
+    assert((await resolveCommand("missingtool", { env })) === null, "Missing command resolves to null");
+
+    await addCommandToAllowlist("pintool", binary!);
+    assert((await checkCommandPin("pintool", binary!)) === "match", "Approved binary matches its pin");
+    assert((await isCommandAllowed("pintool", binary!)) === "ALLOWED", "Pinned binary is allowed");
+
+    const other = await resolveCommand(impostor, { hash: true });
+    assert((await checkCommandPin("pintool", other!)) === "path_changed", "Same name elsewhere is a path change");
+    assert(
+      (await isCommandAllowed(impostor, other!)) === "NEEDS_APPROVAL",
+      "Binary with the same basename elsewhere needs approval"
+    );
+
+    await fs.writeFile(tool, "#!/bin/sh\necho v2\n");
+    const upgraded = await resolveCommand("pintool", { env, hash: true });
+    assert((await checkCommandPin("pintool", upgraded!)) === "hash_changed", "Modified binary is a hash change");
+    assert(
+      (await isCommandAllowed("pintool", upgraded!)) === "NEEDS_APPROVAL",
+      "Modified binary needs re-approval"
+    );
+
+    await addCommandToAllowlist("pintool", upgraded!);
+    assert((await isCommandAllowed("pintool", upgraded!)) === "ALLOWED", "Re-approval updates the pin");
+    assert((await getConfig()).pinnedCommands?.length === 1, "One pin is kept per command");
+
+    // Allowlisted without a pin: only the binary found on the server's PATH is pinned silently
+    await resetConfig();
+    await addCommandToAllowlist("pintool");
+    assert(
+      (await isCommandAllowed(impostor, other!)) === "NEEDS_APPROVAL",
+      "Unpinned command outside PATH needs approval"
+    );
+    assert(((await getConfig()).pinnedCommands ?? []).length === 0, "Unapproved binary is not pinned");
+    const originalPath = process.env.PATH;
+    process.env.PATH = `${binDir}${path.delimiter}${originalPath ?? ""}`;
+    try {
+      assert((await isCommandAllowed("pintool", upgraded!)) === "ALLOWED", "Unpinned command on PATH is allowed");
+      assert(
+        (await checkCommandPin("pintool", upgraded!)) === "match",
+        "Unpinned command on PATH is pinned on first use"
+      );
+    } finally {
+      process.env.PATH = originalPath;
+    }
+  } finally {
+    await fs.rm(binDir, { recursive: true, force: true });
+    await fs.rm(otherDir, { recursive: true, force: true });
+  }
+}
+
+async function testAllowEntries() {
+  console.error("\n--- Test: Time-limited and scoped approvals ---");
+  clearConfigCache();
+  await resetConfig();
+
+  await addDomainToAllowlist("api.example.com", {
+    duration: "1h",
+    scope: { pathPrefix: "/v1/", methods: ["GET"] },
+  });
+  assert(
+    !(await getConfig()).allowedDomains.includes("api.example.com"),
+    "Scoped approval is not added to the plain allowlist"
+  );
+  assert(
+    (await isDomainAllowed("https://api.example.com/v1/items", { method: "GET" })) === "ALLOWED",
+    "Request inside the scope is allowed"
+  );
+  assert(
+    (await isDomainAllowed("https://api.example.com/v2/items", { method: "GET" })) === "NEEDS_APPROVAL",
+    "Request outside the path prefix needs approval"
+  );
+  assert(
+    (await isDomainAllowed("https://api.example.com/v1/items", { method: "POST" })) === "NEEDS_APPROVAL",
+    "Request with another method needs approval"
+  );
+  assert(
+    (await isDomainAllowed("api.example.com")) === "NEEDS_APPROVAL",
+    "Bare domain does not match a path scope"
+  );
+
+  await addCommandToAllowlist("scopedcmd", undefined, { scope: { cwd: "/tmp/project" } });
+  assert(
+    (await isCommandAllowed("scopedcmd", undefined, { cwd: "/tmp/project/src" })) === "ALLOWED",
+    "Command is allowed below the approved directory"
+  );
+  assert(
+    (await isCommandAllowed("scopedcmd", undefined, { cwd: "/tmp/project-other" })) === "NEEDS_APPROVAL",
+    "Command needs approval in another directory"
+  );
+
+  // Expired entries stop matching and are pruned when the config is loaded
+  const config = await getConfig();
+  config.allowEntries = [
+    ...(config.allowEntries ?? []),
+    {
+      kind: "domain",
+      target: "expired.example.com",
+      createdAt: new Date(Date.now() - 2000).toISOString(),
+      expiresAt: new Date(Date.now() - 1000).toISOString(),
+    },
+  ];
+  await saveConfig(config);
+  assert(
+    (await isDomainAllowed("expired.example.com")) === "NEEDS_APPROVAL",
+    "Expired approval no longer matches"
+  );
+  clearConfigCache();
+  const reloaded = await loadConfig();
+  assert(
+    !reloaded.allowEntries?.some((entry) => entry.target === "expired.example.com"),
+    "Expired approval is pruned on load"
+  );
+  assert(reloaded.allowEntries?.length === 2, "Active approvals are kept on load");
+}
+
+async function testDenyList() {
+  console.error("\n--- Test: User denylist ---");
+  clearConfigCache();
+  await resetConfig();
+
+  await addDomainToAllowlist("nope.example.com");
+  await addDomainToDenylist("https://nope.example.com/x", {
+    reason: "Not needed",
+    request: "GET https://nope.example.com/x",
+  });
+  assert((await isDomainAllowed("nope.example.com")) === "DENIED", "Denied domain returns DENIED");
+  assert(
+    !(await getConfig()).allowedDomains.includes("nope.example.com"),
+    "Denying removes the domain from the allowlist"
+  );
+  assert(
+    (await findDenyEntry("domain", "https://nope.example.com/y"))?.reason === "Not needed",
+    "Denial reason is kept"
+  );
+  assert(
+    (await isDomainAllowed("localhost")) === "BLOCKED",
+    "Security blocklist is unaffected by the denylist"
+  );
+
+  await addCommandToDenylist("/usr/bin/DenyCmd");
+  assert((await isCommandAllowed("denycmd")) === "DENIED", "Denied command returns DENIED");
+  assert((await getDenyEntries()).length === 2, "Denials are listed");
+
+  assert(await removeDomainFromDenylist("nope.example.com"), "Denial is removed");
+  assert(!(await removeDomainFromDenylist("nope.example.com")), "Removing again reports nothing removed");
+  assert(
+    (await isDomainAllowed("nope.example.com")) === "NEEDS_APPROVAL",
+    "Removed denial needs approval again"
+  );
+
+  await addCommandToAllowlist("denycmd");
+  assert((await isCommandAllowed("denycmd")) === "ALLOWED", "Approving clears the denial");
+
+  // Only an explicit "Deny" from the prompt is remembered
+  try {
+    setApprovalElicitor(async () => ({ decision: "deny_once" }));
+    const once = await proxyFetch({ url: "https://once.example/x" });
+    assert(once.status === "denied", "Deny once refuses the request");
+    assert((await findDenyEntry("domain", "once.example")) === undefined, "Deny once is not remembered");
+
+    setApprovalElicitor(async () => ({ decision: "deny", reason: "No" }));
+    const denied = await proxyFetch({ url: "https://deny.example/x" });
+    assert(denied.status === "denied", "Deny refuses the request");
+    assert((await findDenyEntry("domain", "deny.example"))?.reason === "No", "Deny is remembered");
+  } finally {
+    setApprovalElicitor(null);
+  }
+}
+
+async function testProxyFetch() {
+  console.error("\n--- Test: proxy_fetch requests and redirects ---");
+  clearConfigCache();
+  await resetConfig();
+  await addDomainToAllowlist("example.com");
+
+  const head = await proxyFetch({
+    url: "https://example.com/file.zip",
+    method: "HEAD",
+    save_to: path.join(os.tmpdir(), "mcp-proxy-downloads", "file.zip"),
+  });
+  assert(head.status === "error" && head.error!.includes("HEAD"), "save_to is refused with HEAD");
+
+  await addDomainToAllowlist("other.example");
+  const from = new URL("https://example.com/form");
+  const request = {
+    method: "POST" as const,
+    headers: {
+      "Content-Type": "application/json",
+      "Content-Length": "2",
+      Authorization: "Bearer secret",
+      Cookie: "session=1",
+      Accept: "application/json",
+    },
+    body: "{}",
+  };
+
+  const sameOrigin = await followRedirect(302, "/done", from, request);
+  assert(
+    sameOrigin.request?.method === "GET" && sameOrigin.request.body === undefined,
+    "302 after POST switches to GET without the body"
+  );
+  assert(
+    sameOrigin.request?.headers?.["Content-Type"] === undefined &&
+      sameOrigin.request.headers["Content-Length"] === undefined,
+    "Body headers are dropped with the body"
+  );
+  assert(
+    sameOrigin.request?.headers?.Authorization === "Bearer secret" &&
+      sameOrigin.request.headers.Accept === "application/json",
+    "Same-origin redirect keeps credentials and other headers"
+  );
+
+  const crossOrigin = await followRedirect(307, "https://other.example/form", from, request);
+  assert(
+    crossOrigin.request?.method === "POST" &&
+      crossOrigin.request.body === "{}" &&
+      crossOrigin.request.headers?.["Content-Type"] === "application/json",
+    "307 keeps the method and body"
+  );
+  assert(
+    crossOrigin.request?.headers?.Authorization === undefined &&
+      crossOrigin.request.headers.Cookie === undefined,
+    "Cross-origin redirect drops credentials"
+  );
+  const scheme = await followRedirect(301, "http://example.com/form", from, { method: "GET", headers: request.headers });
+  assert(scheme.request?.headers?.Authorization === undefined, "A redirect to another scheme is cross-origin");
+
+  for (const target of ["http://169.254.169.254/latest/meta-data/", "http://localhost:8080/", "http://10.1.2.3/"]) {
+    const blocked = await followRedirect(302, target, from, { method: "GET" });
+    assert(
+      blocked.denial?.status === "error" && blocked.denial.error!.includes("blocked") && !blocked.request,
+      `Redirect to ${blocked.url.host} is refused`
+    );
+  }
+}
+
+async function testResponseDecoding() {
+  console.error("\n--- Test: proxy_fetch response decoding ---");
+
+  const png = Buffer.from([0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a, 0x00]);
+  const image = decodeBody(png, "image/png", "auto");
+  assert(image.bodyEncoding === "base64" && Buffer.from(image.body, "base64").equals(png), "Images are returned as base64");
+  assert(
+    toImageContent({ status: "success", contentType: "image/png", ...image })?.mimeType === "image/png",
+    "Base64 images become image content blocks"
+  );
+  assert(decodeBody(Buffer.from("%PDF-1.7"), "application/pdf", "auto").bodyEncoding === "base64", "PDFs are base64");
+  assert(
+    decodeBody(Buffer.from('{"a":1}'), "application/vnd.api+json", "auto").body === '{"a":1}',
+    "+json types are text"
+  );
+
+  const latin1 = decodeBody(Buffer.from([0x63, 0x61, 0x66, 0xe9]), 'text/plain; charset="ISO-8859-1"', "auto");
+  assert(latin1.body === "café" && latin1.bodyEncoding === "text", "Declared Latin-1 charset is honored");
+  const sjis = decodeBody(Buffer.from([0x82, 0xa0]), "text/html; charset=Shift_JIS", "auto");
+  assert(sjis.body === "あ" && sjis.charset === "shift_jis", "Declared Shift_JIS charset is honored");
+  assert(decodeBody(Buffer.from("ok"), "text/plain; charset=bogus", "auto").body === "ok", "Unknown charset falls back to UTF-8");
+
+  assert(decodeBody(Buffer.from([0x01, 0x00, 0x02]), null, "auto").bodyEncoding === "base64", "Untyped bytes with NUL are base64");
+  assert(decodeBody(Buffer.from("plain ü"), null, "auto").body === "plain ü", "Untyped UTF-8 is text");
+  assert(decodeBody(png, "image/png", "text").bodyEncoding === "text", "response_encoding text forces text");
+  assert(decodeBody(Buffer.from("hi"), "text/plain", "base64").body === "aGk=", "response_encoding base64 forces base64");
+}
+
+async function testConfigTools() {
+  console.error("\n--- Test: config_show, config_remove and config_reset ---");
+  clearConfigCache();
+  await resetConfig();
+  await addDomainToAllowlist("keep.example");
+  await addDomainToDenylist("nope.example", { reason: "No" });
+  const config = await getConfig();
+  config.blockedDomains = [...config.blockedDomains, "user-blocked.example"];
+  await saveConfig(config);
+
+  const shown = await configShow();
+  assert(shown.status === "success" && shown.config_path === getConfigPath(), "config_show returns the config path");
+  assert(shown.domains?.allowed.includes("keep.example") === true, "config_show lists allowed domains");
+  assert(shown.domains?.denied.some((e) => e.target === "nope.example") === true, "config_show lists denials");
+  assert(
+    shown.domains?.blocked.find((e) => e.pattern === "localhost")?.source === "default" &&
+      shown.domains?.blocked.find((e) => e.pattern === "user-blocked.example")?.source === "user",
+    "config_show tells default and user blocklist entries apart"
+  );
+
+  let prompts = 0;
+  const answer = (decision: "once" | "deny" | "timeout") =>
+    setApprovalElicitor(async () => {
+      prompts++;
+      return { decision };
+    });
+
+  try {
+    answer("once");
+    const missing = await configRemove({ list: "allow", kind: "domain", target: "absent.example" });
+    assert(missing.status === "error" && missing.error?.includes("is not in the allowlist") === true, "Removing a missing entry fails");
+    assert(prompts === 0, "Removing a missing entry does not ask the user");
+
+    answer("deny");
+    const rejected = await configRemove({ list: "allow", kind: "domain", target: "keep.example" });
+    assert(rejected.status === "error" && rejected.error === "The user rejected the change.", "Rejected removal fails");
+    assert((await getConfig()).allowedDomains.includes("keep.example"), "Rejected removal keeps the entry");
+
+    answer("timeout");
+    const timedOut = await configRemove({ list: "allow", kind: "domain", target: "keep.example" });
+    assert(timedOut.status === "needs_approval", "Unanswered removal needs approval");
+    assert((await getConfig()).allowedDomains.includes("keep.example"), "Unanswered removal keeps the entry");
+
+    answer("once");
+    const removed = await configRemove({ list: "allow", kind: "domain", target: "keep.example" });
+    assert(removed.status === "success", "Approved removal succeeds");
+    assert(!(await getConfig()).allowedDomains.includes("keep.example"), "Approved removal drops the entry");
+    const undenied = await configRemove({ list: "deny", kind: "domain", target: "nope.example" });
+    assert(
+      undenied.status === "success" && (await findDenyEntry("domain", "nope.example")) === undefined,
+      "Approved removal drops a denial"
+    );
+
+    await addDomainToAllowlist("keep.example");
+    answer("deny");
+    const resetRejected = await configReset();
+    assert(resetRejected.status === "error", "Rejected reset fails");
+    assert((await getConfig()).allowedDomains.includes("keep.example"), "Rejected reset keeps the config");
+
+    answer("timeout");
+    assert((await configReset()).status === "needs_approval", "Unanswered reset needs approval");
+    assert((await getConfig()).allowedDomains.includes("keep.example"), "Unanswered reset keeps the config");
+
+    answer("once");
+    assert((await configReset()).status === "success", "Approved reset succeeds");
+    assert((await getConfig()).allowedDomains.length === 0, "Approved reset clears the allowlist");
+  } finally {
+    setApprovalElicitor(null);
+  }
+}
+
+async function testApprovalPage() {
+  console.error("\n--- Test: Approval page ---");
+  clearConfigCache();
+  await resetConfig();
+  const config = await getConfig();
+  config.approval = { ...config.approval!, timeoutSeconds: 2, openBrowser: false };
+  await saveConfig(config);
+
+  try {
+    const pending = proxyFetch({ url: "https://pending.example/x" });
+    let index = "";
+    for (let i = 0; i < 20 && !index.includes("pending.example"); i++) {
+      await new Promise((resolve) => setTimeout(resolve, 100));
+      const port = getHttpServer().getPort();
+      if (port) {
+        index = await (await fetch(`http://127.0.0.1:${port}/approvals`)).text();
+      }
+    }
+    assert(index.includes("pending.example"), "Approval index lists the pending request");
+
+    const result = await pending;
+    assert(
+      result.status === "needs_approval" &&
+        result.approvalUrl === `http://localhost:${getHttpServer().getPort()}/approvals` &&
+        result.message?.includes(result.approvalUrl) === true,
+      "Unanswered approval returns the approval page URL"
+    );
+  } finally {
+    await stopHttpServer();
+  }
+}
+
+async function testExplainDecisions() {
+  console.error("\n--- Test: Explaining policy decisions ---");
+  clearConfigCache();
+  await resetConfig();
+
+  const blocked = await explainDomain("http://127.1/");
+  assert(
+    blocked.status === "BLOCKED" && blocked.rule?.list === "blockedDomains",
+    "Blocked URL names the blocklist entry"
   );
+
+  await addDomainToAllowlist("**.explain.example");
+  const allowed = await explainDomain("https://api.explain.example/v1");
+  assert(
+    allowed.status === "ALLOWED" && allowed.rule?.pattern === "**.explain.example",
+    "Allowed URL names the matching pattern"
+  );
+
+  await addDomainToAllowlist("timed.example", { duration: "1h" });
+  const timed = await explainDomain("timed.example");
+  assert(
+    timed.rule?.list === "allowEntries" && Boolean(timed.rule.entry),
+    "Time-limited approval is reported with its entry"
+  );
+
+  await addCommandToDenylist("explaincmd", { reason: "Not today" });
+  const denied = await explainCommand("explaincmd --flag");
+  assert(
+    denied.status === "DENIED" && denied.rule?.entry?.reason === "Not today",
+    "Denied command carries the user's reason"
+  );
+
+  const unknown = await explainDomain("unknown.example");
+  assert(unknown.status === "NEEDS_APPROVAL" && !unknown.rule, "Unknown domain has no rule");
+}
+
+async function testConfigValidation() {
+  console.error("\n--- Test: Config validation, backups and migration ---");
+  const removeBackup = async () => {
+    const { backupPath } = await getConfigDiagnostics();
+    assert(backupPath !== undefined, "Broken file was backed up before it was overwritten");
+    await fs.unlink(backupPath!);
+  };
+
+  // Invalid JSON: defaults in memory, original kept as a backup
+  const broken = '{"allowedDomains": ["kept.example",';
+  await fs.writeFile(TEST_CONFIG_FILE, broken, "utf-8");
+  clearConfigCache();
+  const fallback = await loadConfig();
+  assert(fallback.allowedDomains.length === 0, "Invalid JSON falls back to defaults");
+  const { issues } = await getConfigDiagnostics();
+  assert(issues[0]?.message.startsWith("Invalid JSON"), "Invalid JSON is reported");
+  await addDomainToAllowlist("after.example");
+  const { backupPath } = await getConfigDiagnostics();
+  assert((await fs.readFile(backupPath!, "utf-8")) === broken, "Backup holds the original file");
+  await removeBackup();
+
+  // Field-level errors only drop the bad fields
+  await fs.writeFile(
+    TEST_CONFIG_FILE,
+    JSON.stringify({
+      version: 3,
+      allowedDomains: ["good.example", "*.com"],
+      alowedCommands: ["ls"],
+      fileServer: { port: 99999 },
+    }),
+    "utf-8"
+  );
+  clearConfigCache();
+  const partial = await loadConfig();
+  const paths = (await getConfigDiagnostics()).issues.map((issue) => issue.path);
+  assert(
+    paths.includes("allowedDomains[1]") && paths.includes("alowedCommands") && paths.includes("fileServer.port"),
+    "Issues name the offending fields"
+  );
+  assert(
+    partial.allowedDomains.length === 1 && partial.allowedDomains[0] === "good.example",
+    "Valid entries are kept"
+  );
+  assert(partial.fileServer?.port === 9765, "Invalid field uses its default");
+
+  // Inside approvals, pins, command policies and egress a bad field never loosens the policy
+  const createdAt = new Date().toISOString();
+  await fs.writeFile(
+    TEST_CONFIG_FILE,
+    JSON.stringify({
+      version: 3,
+      allowEntries: [
+        { kind: "domain", target: "scoped.example", createdAt, expiresAt: "tomorrow-ish", scope: { methods: "GET" } },
+        { kind: "domain", target: "fine.example", createdAt },
+      ],
+      denyEntries: [{ kind: "domain", target: "denied.example", createdAt, reason: 5 }],
+      pinnedCommands: [{ command: "curl", path: "/usr/bin/curl", sha256: "abc" }],
+      exec: { egress: "allow-list" },
+      commandPolicies: {
+        curl: { allowedFlags: "-s", deniedFlags: ["-o"] },
+        wget: { deniedFlags: ["-O"], deniedFlag: ["--execute"] },
+        jq: { allowedFlags: ["-r"] },
+      },
+    }),
+    "utf-8"
+  );
+  clearConfigCache();
+  const strict = await loadConfig();
+  assert(
+    strict.allowEntries?.length === 1 && strict.allowEntries[0].target === "fine.example",
+    "Approval with an invalid expiry or scope is ignored as a whole"
+  );
+  assert((await isDomainAllowed("scoped.example")) === "NEEDS_APPROVAL", "Ignored approval does not allow the domain");
+  assert((await isDomainAllowed("denied.example")) === "DENIED", "Denial with an invalid reason still denies");
+  assert(strict.pinnedCommands?.length === 0, "Pin with an invalid hash is ignored as a whole");
+  assert(strict.exec?.egress === "allowlist", "Invalid egress value falls back to allowlist");
+  const curlPolicy = await getCommandPolicy("curl");
+  assert(
+    curlPolicy?.allowedFlags?.length === 0 && curlPolicy.egress === "allowlist" && curlPolicy.checkUrls === true,
+    "Invalid command policy is replaced by one that allows no flags"
+  );
+  assert(!(await evaluateCommandPolicy(["-s", "https://example.com"], curlPolicy!)).allowed, "Replaced policy refuses flags");
+  assert((await getCommandPolicy("wget"))?.allowedFlags?.length === 0, "Unknown field in a command policy replaces it");
+  assert((await getCommandPolicy("jq"))?.allowedFlags?.[0] === "-r", "Valid command policy is kept");
+  const strictIssues = (await getConfigDiagnostics()).issues.map((issue) => issue.path);
+  assert(
+    strictIssues.includes("allowEntries[0]") && strictIssues.includes("commandPolicies.curl"),
+    "Issues name the ignored entry and the replaced policy"
+  );
+
+  // Version 1 files are migrated and rewritten
+  await fs.writeFile(
+    TEST_CONFIG_FILE,
+    JSON.stringify({
+      allowedDomains: ["Old.Example."],
+      blockedDomains: ["10.*", "172.20.*", "user-blocked.example"],
+      allowedCommands: [],
+      blockedCommands: [],
+      envPolicy: { blockedInputVars: ["LD_*", "PATH", "MY_HOOK"] },
+    }),
+    "utf-8"
+  );
+  clearConfigCache();
+  const migrated = await loadConfig();
+  assert(migrated.version === 3, "Version 1 file is migrated");
+  assert(migrated.allowedDomains[0] === "old.example", "Migrated domains are canonical");
+  assert(
+    !migrated.blockedDomains.includes("10.*") && migrated.blockedDomains.includes("user-blocked.example"),
+    "Legacy default blocklist entries are dropped, user entries kept"
+  );
+  const blockedInputVars = migrated.envPolicy?.blockedInputVars ?? [];
+  assert(
+    blockedInputVars.includes("MY_HOOK") && blockedInputVars.includes("HOME") && blockedInputVars.includes("*_PROXY"),
+    "Stored blockedInputVars gain the config and proxy variables"
+  );
+  assert(
+    JSON.parse(await fs.readFile(TEST_CONFIG_FILE, "utf-8")).version === 3,
+    "Migrated file is saved"
+  );
+  await removeBackup();
+
+  clearConfigCache();
+  await resetConfig();
 }
 
 async function testGetConfigPath() {
@@ -434,6 +1549,26 @@ async function runAllTests() {
     await testRemoveFromAllowlist();
     await testConfigPersistence();
     await testWildcardPatterns();
+    await testHostCanonicalization();
+    await testDomainPatterns();
+    await testCommandPolicies();
+    await testEgressProxy();
+    await testExecSlotRelease();
+    await testWorkspaces();
+    await testStdinAndStdoutEncoding();
+    await testPtyMode();
+    await testCancellation();
+    await testBackgroundJobs();
+    await testBackgroundJobOutput();
+    await testCommandPins();
+    await testAllowEntries();
+    await testDenyList();
+    await testProxyFetch();
+    await testResponseDecoding();
+    await testConfigTools();
+    await testApprovalPage();
+    await testExplainDecisions();
+    await testConfigValidation();
     await testGetConfigPath();
 
     console.error("\n=== ALL TESTS PASSED ===\n");
@@ -0,0 +1,312 @@
+/**
+ * Security Utility Tests
+ *
+ * Tests for the SSRF address checks, command environment filtering,
+ * recipe parameter validation, resource limit detection, progress parsing
+ * and PTY output cleanup.
+ * Run with: npx tsx test/security.test.ts
+ */
+
+import * as os from "node:os";
+import {
+  classifyHost,
+  isPrivateAddress,
+  isPrivateIp,
+  isLocalhostUrl,
+  resolvePublicAddress,
+} from "../src/utils/security.js";
+import { buildCommandEnv, validateInputEnv } from "../src/utils/env.js";
+import { DEFAULT_ENV_POLICY, type Recipe } from "../src/config/defaults.js";
+import { expandRecipe } from "../src/utils/recipe.js";
+import { detectLimitExceeded } from "../src/utils/process.js";
+import { AnsiStripper, signalFromExitCode } from "../src/utils/pty.js";
+import {
+  createProgressReporter,
+  OutputProgressParser,
+  type ProgressUpdate,
+} from "../src/utils/progress.js";
+
+function assert(condition: boolean, message: string) {
+  if (!condition) {
+    throw new Error(`Assertion failed: ${message}`);
+  }
+  console.error(`  PASS: ${message}`);
+}
+
+async function testIPv4Ranges() {
+  console.error("\n--- Test: IPv4 private ranges ---");
+
+  assert(isPrivateAddress("127.0.0.1"), "Loopback is private");
+  assert(isPrivateAddress("127.8.9.10"), "Whole 127/8 is private");
+  assert(isPrivateAddress("10.20.30.40"), "10/8 is private");
+  assert(isPrivateAddress("172.31.255.255"), "172.16/12 upper bound is private");
+  assert(!isPrivateAddress("172.32.0.1"), "172.32.0.1 is public");
+  assert(isPrivateAddress("192.168.1.1"), "192.168/16 is private");
+  assert(isPrivateAddress("169.254.169.254"), "Metadata endpoint is private");
+  assert(isPrivateAddress("100.64.0.1"), "Carrier-grade NAT is private");
+  assert(isPrivateAddress("0.0.0.0"), "Unspecified address is private");
+  assert(!isPrivateAddress("8.8.8.8"), "8.8.8.8 is public");
+}
+
+async function testIPv6Ranges() {
+  console.error("\n--- Test: IPv6 private ranges ---");
+
+  assert(isPrivateAddress("::1"), "IPv6 loopback is private");
+  assert(isPrivateAddress("[::1]"), "Bracketed IPv6 loopback is private");
+  assert(isPrivateAddress("::"), "IPv6 unspecified is private");
+  assert(isPrivateAddress("fe80::1%eth0"), "Link-local with zone id is private");
+  assert(isPrivateAddress("fd00:ec2::254"), "AWS IPv6 metadata is private");
+  assert(!isPrivateAddress("2606:4700:4700::1111"), "Public IPv6 is allowed");
+}
+
+async function testEmbeddedIPv4() {
+  console.error("\n--- Test: IPv4 embedded in IPv6 ---");
+
+  assert(isPrivateAddress("::ffff:127.0.0.1"), "IPv4-mapped loopback is private");
+  assert(isPrivateAddress("::ffff:7f00:1"), "Hex IPv4-mapped loopback is private");
+  assert(isPrivateAddress("::ffff:a9fe:a9fe"), "IPv4-mapped metadata is private");
+  assert(!isPrivateAddress("::ffff:8.8.8.8"), "IPv4-mapped public address is allowed");
+  assert(isPrivateAddress("64:ff9b::10.0.0.1"), "NAT64 private address is private");
+  assert(isPrivateAddress("2002:c0a8:0101::1"), "6to4 private address is private");
+  // Teredo client 10.0.0.1 is stored inverted: ~0a000001 = f5ff:fffe
+  assert(isPrivateAddress("2001:0:4136:e378:8000:63bf:f5ff:fffe"), "Teredo-mapped private address is private");
+  assert(isPrivateAddress("2001:db8::1"), "Documentation IPv6 is private");
+  assert(isPrivateAddress("64:ff9b:1::1"), "Local-use NAT64 is private");
+}
+
+async function testClassifyHost() {
+  console.error("\n--- Test: Host classification ---");
+
+  assert(classifyHost("localhost.") === "loopback", "localhost name is loopback");
+  assert(classifyHost("::ffff:127.0.0.1") === "loopback", "IPv4-mapped 127/8 is loopback");
+  assert(classifyHost("2130706433") === "loopback", "Decimal IPv4 loopback is loopback");
+  assert(classifyHost("10.0.0.1") === "private", "10/8 is private, not loopback");
+  assert(classifyHost("8.8.8.8") === "public", "8.8.8.8 is public");
+  assert(classifyHost("example.com") === "hostname", "Names still need resolving");
+}
+
+async function testUrlHelpers() {
+  console.error("\n--- Test: URL helpers ---");
+
+  assert(isPrivateIp("http://10.0.0.1/admin"), "isPrivateIp checks URL hosts");
+  assert(isPrivateIp("http://[::ffff:127.0.0.1]/"), "isPrivateIp checks IPv6 URL hosts");
+  assert(!isPrivateIp("https://example.com"), "Hostnames are not private IPs");
+  assert(isLocalhostUrl("http://localhost:3000"), "localhost URL is local");
+  assert(isLocalhostUrl("http://app.localhost/"), "*.localhost URL is local");
+  assert(isLocalhostUrl("http://127.1.2.3/"), "127/8 URL is local");
+  assert(!isLocalhostUrl("http://10.0.0.1/"), "Private non-loopback URL is not local");
+  assert(isLocalhostUrl("http://[::ffff:7f00:1]/"), "IPv4-mapped loopback URL is local");
+  assert(isLocalhostUrl("http://0x7f000001/"), "Numeric IPv4 loopback URL is local");
+}
+
+async function testResolvePublicAddress() {
+  console.error("\n--- Test: resolvePublicAddress ---");
+
+  const resolved = await resolvePublicAddress("8.8.8.8");
+  assert(
+    resolved.address === "8.8.8.8" && resolved.family === 4,
+    "Public IP literal resolves to itself"
+  );
+
+  for (const host of ["localhost", "127.0.0.1", "[::1]", "169.254.169.254", "[2001:0:4136:e378:8000:63bf:f5ff:fffe]"]) {
+    let error: Error | null = null;
+    try {
+      await resolvePublicAddress(host);
+    } catch (e) {
+      error = e as Error;
+    }
+    assert(error !== null, `${host} is rejected`);
+  }
+}
+
+async function testCommandEnv() {
+  console.error("\n--- Test: Command environment ---");
+
+  const hostEnv = {
+    PATH: "/usr/bin",
+    HOME: "/home/user",
+    LC_ALL: "C",
+    AWS_SECRET_ACCESS_KEY: "secret",
+    OPENAI_API_KEY: "sk-test",
+    GITHUB_TOKEN: "ghp_test",
+    RANDOM_VAR: "x",
+  };
+  const policy = {
+    ...DEFAULT_ENV_POLICY,
+    passthrough: { gh: ["GITHUB_TOKEN"] },
+  };
+
+  const env = buildCommandEnv("curl", { FOO: "bar" }, policy, hostEnv);
+  assert(env.PATH === "/usr/bin" && env.HOME === "/home/user", "Base variables are inherited");
+  assert(env.LC_ALL === "C", "Wildcard allowed variables are inherited");
+  assert(env.AWS_SECRET_ACCESS_KEY === undefined, "AWS credentials are not inherited");
+  assert(env.OPENAI_API_KEY === undefined, "API keys are not inherited");
+  assert(env.RANDOM_VAR === undefined, "Unlisted variables are not inherited");
+  assert(env.FOO === "bar", "Caller variables are added");
+
+  const ghEnv = buildCommandEnv("/usr/local/bin/gh", undefined, policy, hostEnv);
+  assert(ghEnv.GITHUB_TOKEN === "ghp_test", "Passthrough overrides the denylist for that command");
+  assert(env.GITHUB_TOKEN === undefined, "Passthrough is per command");
+
+  assert(!validateInputEnv({ LD_PRELOAD: "/tmp/x.so" }, policy).valid, "LD_PRELOAD is rejected");
+  assert(!validateInputEnv({ node_options: "--require x" }, policy).valid, "NODE_OPTIONS is rejected in any case");
+  assert(!validateInputEnv({ PATH: "/tmp" }, policy).valid, "PATH cannot be overridden");
+  for (const name of [
+    "HOME",
+    "CURL_HOME",
+    "XDG_CONFIG_HOME",
+    "WGETRC",
+    "GIT_CONFIG_GLOBAL",
+    "SSL_CERT_FILE",
+    "CURL_CA_BUNDLE",
+    "https_proxy",
+    "ALL_PROXY",
+    "NO_PROXY",
+  ]) {
+    assert(!validateInputEnv({ [name]: "/tmp/x" }, policy).valid, `${name} cannot be set`);
+  }
+  assert(validateInputEnv({ FOO: "bar" }, policy).valid, "Ordinary variables are accepted");
+}
+
+async function testRecipeExpansion() {
+  console.error("\n--- Test: Recipe expansion ---");
+
+  const recipe: Recipe = {
+    command: "yt-dlp",
+    args: ["-f", "{{format}}", "--output={{output}}", "--limit-rate={{rate}}", "{{url}}"],
+    params: {
+      url: { type: "url" },
+      format: { type: "enum", values: ["best", "worst"], default: "best" },
+      output: { type: "path", default: "%(title)s.%(ext)s" },
+      rate: { type: "string", pattern: "[0-9]+[KM]", required: false },
+    },
+  };
+
+  const expanded = expandRecipe(recipe, { url: "https://example.com/v" });
+  assert(
+    expanded.valid &&
+      expanded.args.join(" ") === "-f best --output=%(title)s.%(ext)s https://example.com/v",
+    "Defaults are filled in and arguments with unset optional params are dropped"
+  );
+  const withRate = expandRecipe(recipe, { url: "https://example.com/v", rate: "50K" });
+  assert(withRate.valid && withRate.args.includes("--limit-rate=50K"), "Optional params are used when given");
+
+  assert(!expandRecipe(recipe, {}).valid, "Missing required params are rejected");
+  assert(!expandRecipe(recipe, { url: "file:///etc/passwd" }).valid, "Non-http URLs are rejected");
+  assert(!expandRecipe(recipe, { url: "--exec=sh" }).valid, "Values that look like flags are rejected");
+  assert(!expandRecipe(recipe, { url: "https://example.com/v", output: "../x" }).valid, "Path traversal is rejected");
+  assert(!expandRecipe(recipe, { url: "https://example.com/v", format: "mp4" }).valid, "Enum values are enforced");
+  assert(!expandRecipe(recipe, { url: "https://example.com/v", rate: "50K; rm" }).valid, "String patterns must match in full");
+  assert(!expandRecipe(recipe, { url: "https://example.com/v", extra: "x" }).valid, "Unknown params are rejected");
+}
+
+async function testLimitDetection() {
+  console.error("\n--- Test: Resource limit detection ---");
+
+  const limits = { cpuSeconds: 10, memoryBytes: 1 << 30, fileSizeBytes: 1 << 20 };
+  const exit = { signal: null, exitCode: 1, output: "" };
+
+  assert(detectLimitExceeded({ ...exit, signal: "SIGXCPU", exitCode: null }, limits) === "cpu", "SIGXCPU is the CPU limit");
+  assert(detectLimitExceeded({ ...exit, signal: "SIGXFSZ", exitCode: null }, limits) === "fileSize", "SIGXFSZ is the file size limit");
+  assert(
+    detectLimitExceeded({ ...exit, signal: "SIGKILL", exitCode: null, cpuSeconds: 2 }, limits) === undefined,
+    "SIGKILL below the CPU limit is not a limit"
+  );
+  assert(
+    detectLimitExceeded({ ...exit, signal: "SIGKILL", exitCode: null }, limits) === undefined,
+    "SIGKILL without a CPU sample is not a limit"
+  );
+  assert(
+    detectLimitExceeded({ ...exit, signal: "SIGKILL", exitCode: null, cpuSeconds: 14.5 }, limits) === "cpu",
+    "SIGKILL after reaching the CPU limit is the hard limit"
+  );
+  assert(
+    detectLimitExceeded({ ...exit, output: "fatal: Cannot allocate memory" }, limits) === "memory",
+    "Allocation error with a non-zero exit is the memory limit"
+  );
+  assert(
+    detectLimitExceeded({ ...exit, exitCode: 0, output: "Tested: out of memory handling" }, limits) === undefined,
+    "Successful exit is never a limit"
+  );
+  assert(
+    detectLimitExceeded({ ...exit, output: "out of memory\n" + "x".repeat(8192) }, limits) === undefined,
+    "Only the end of the output is searched"
+  );
+
+  // Under a PTY only the limit signals are read from 128+N exit codes
+  const pty = { ...exit, pty: true };
+  assert(detectLimitExceeded({ ...pty, exitCode: 137 }, limits) === undefined, "PTY exit 137 is not the CPU limit");
+  assert(detectLimitExceeded({ ...pty, exitCode: 128 + os.constants.signals.SIGXCPU }, limits) === "cpu", "PTY SIGXCPU exit code is the CPU limit");
+}
+
+async function testProgressParsing() {
+  console.error("\n--- Test: Progress parsing ---");
+
+  const updates: ProgressUpdate[] = [];
+  const parser = new OutputProgressParser((update) => updates.push(update));
+  parser.write("[download]   1.5% of 10.00MiB\r[download]  42.");
+  assert(updates.length === 1 && updates[0].progress === 1.5 && updates[0].total === 100, "yt-dlp percentage is parsed");
+  parser.write("3% of 10.00MiB\r");
+  assert(updates[1]?.progress === 42.3, "Lines split across chunks and \\r are parsed once complete");
+
+  updates.length = 0;
+  parser.write("  Duration: 00:01:40.00, start: 0.000000\n");
+  parser.write("frame=  100 fps=25 time=00:00:25.00 bitrate=1.0kbits/s\r");
+  assert(updates[0]?.progress === 25 && updates[0].total === 100, "ffmpeg time is reported against its duration");
+  parser.write("Stream mapping:\n");
+  assert(updates.length === 1, "Other lines are ignored");
+
+  const sent: ProgressUpdate[] = [];
+  const report = createProgressReporter((update) => sent.push(update));
+  report({ progress: 10, total: 100 });
+  report({ progress: 5, total: 100 });
+  report({ progress: 20, total: 100 });
+  report({ progress: 100, total: 100 });
+  assert(
+    sent.map((update) => update.progress).join(",") === "10,100",
+    "Reporter drops decreasing and throttled updates but always sends completion"
+  );
+}
+
+async function testAnsiStripping() {
+  console.error("\n--- Test: PTY output cleanup ---");
+
+  const stripper = new AnsiStripper();
+  assert(stripper.write(Buffer.from("\x1b[1;32mgreen\x1b[0m\r\n")) === "green\n", "Colors are stripped and CRLF becomes LF");
+  assert(stripper.write(Buffer.from("\x1b]0;title\x07done")) === "done", "OSC title sequences are stripped");
+  assert(stripper.write(Buffer.from("a\x1b[3")) === "a", "A sequence cut at the chunk end is held back");
+  assert(stripper.write(Buffer.from("1mb\r")) === "b", "The held-back sequence is stripped once complete");
+  assert(stripper.write(Buffer.from("\nc")) === "\nc", "A CRLF split across chunks becomes LF");
+  const euro = Buffer.from("€");
+  assert(stripper.write(euro.subarray(0, 2)) === "" && stripper.write(euro.subarray(2)) === "€", "Split UTF-8 characters are kept whole");
+  assert(stripper.end() === "", "Nothing is left over at the end");
+
+  assert(signalFromExitCode(128 + os.constants.signals.SIGTERM) === "SIGTERM", "128+N exit code maps to its signal");
+  assert(signalFromExitCode(1) === null && signalFromExitCode(128) === null, "Ordinary exit codes are not signals");
+}
+
+async function runAllTests() {
+  console.error("=== Security Utility Tests ===\n");
+
+  try {
+    await testIPv4Ranges();
+    await testIPv6Ranges();
+    await testEmbeddedIPv4();
+    await testClassifyHost();
+    await testUrlHelpers();
+    await testResolvePublicAddress();
+    await testCommandEnv();
+    await testRecipeExpansion();
+    await testLimitDetection();
+    await testProgressParsing();
+    await testAnsiStripping();
+
+    console.error("\n=== ALL TESTS PASSED ===\n");
+  } catch (error) {
+    console.error("\n=== TEST FAILED ===");
+    console.error(error);
+    process.exit(1);
+  }
+}
+
+runAllTests();